@@ -1,5 +1,8 @@
 import * as cdk from 'aws-cdk-lib';
-import { CdkQuotaDashboardsStack } from '../lib/cdk-quota-dashboards-stack';
+import { CdkQuotaDashboardsStack, DEFAULT_DASHBOARD_CONFIGS } from '../lib/cdk-quota-dashboards-stack';
+import { resolveModelConfig, validateModelEndpointSupport } from '../lib/bedrock-registries';
+import { DEFAULT_DASHBOARD_NAME } from '../lib/bedrock-quota-dashboard';
+import { loadDashboardsFile } from '../lib/dashboard-config-file';
 import { AwsSolutionsChecks } from 'cdk-nag';
 
 const app = new cdk.App();
@@ -7,17 +10,51 @@ const app = new cdk.App();
 // Add cdk-nag security and best practice checks
 cdk.Aspects.of(app).add(new AwsSolutionsChecks({ verbose: true }));
 
-new CdkQuotaDashboardsStack(app, 'CdkQuotaDashboardsStack', {
-  /* Use environment variables to match deployment region */
-  env: { 
-    account: process.env.CDK_DEFAULT_ACCOUNT, 
-    region: process.env.CDK_DEFAULT_REGION || process.env.AWS_DEFAULT_REGION
-  },
-
-  /* For more information, see https://docs.aws.amazon.com/cdk/latest/guide/environments.html */
-  
-  // Stack-level tags (applied to the CloudFormation stack itself)
-  tags: {
-    Project: 'BedrockQuotaDashboard'
-  }
-});
\ No newline at end of file
+// Stack-level tags (applied to the CloudFormation stack itself)
+const tags = {
+  Project: 'BedrockQuotaDashboard'
+};
+
+// Optional comma-separated list of regions, e.g. `npx cdk deploy --all -c regions=us-east-1,us-west-2`
+const regions: string[] = (app.node.tryGetContext('regions') ?? '')
+  .split(',')
+  .map((region: string) => region.trim())
+  .filter(Boolean);
+
+if (regions.length > 0) {
+  // Models of dashboards.yaml / dashboards.json, if present, replace the defaults
+  const dashboardsFile = loadDashboardsFile();
+
+  // One stack per region, each using that region's registry
+  regions.forEach(region => {
+    // Not every model is available in every region registry
+    const dashboardConfigs = (dashboardsFile?.dashboardConfigs ?? DEFAULT_DASHBOARD_CONFIGS).filter(config => {
+      const regionalModel = resolveModelConfig(region, config.modelConfig);
+      const available = regionalModel !== null && validateModelEndpointSupport(regionalModel, config.endpointType);
+      if (!available) {
+        console.warn(`[REGION_WARNING] Skipping '${config.modelConfig.modelId}' (${config.endpointType}) in ${region} - not in the region registry`);
+      }
+      return available;
+    });
+
+    new CdkQuotaDashboardsStack(app, `CdkQuotaDashboardsStack-${region}`, {
+      env: { account: process.env.CDK_DEFAULT_ACCOUNT, region },
+      dashboardConfigs,
+      dashboardName: `${dashboardsFile?.dashboardName ?? DEFAULT_DASHBOARD_NAME}-${region}`,
+      regions: [region],
+      tags,
+    });
+  });
+} else {
+  new CdkQuotaDashboardsStack(app, 'CdkQuotaDashboardsStack', {
+    /* Use environment variables to match deployment region */
+    env: {
+      account: process.env.CDK_DEFAULT_ACCOUNT,
+      region: process.env.CDK_DEFAULT_REGION || process.env.AWS_DEFAULT_REGION
+    },
+
+    /* For more information, see https://docs.aws.amazon.com/cdk/latest/guide/environments.html */
+
+    tags,
+  });
+}
@@ -0,0 +1,163 @@
+// Application Inference Profile Configuration File
+// Application inference profiles share quota with the system inference profile they
+// were created from. scripts/discover-inference-profiles.ts --write records them in
+// application-profiles.json, and the stack adds them to the matching dashboard configs
+// at synth time, so new profiles do not have to be pasted into the configs by hand.
+//
+// File format, keyed by region and then system inference profile ID:
+// {
+//   "us-east-1": {
+//     "us.anthropic.claude-sonnet-4-5-20250929-v1:0": [
+//       { "id": "grjihoh0los8", "name": "team-a-chatbot", "tags": { "team": "team-a" } }
+//     ]
+//   }
+// }
+//
+// "tags" is optional and holds the tags recorded with --tag <key>, such as cost-allocation
+// tags. Profile names, or the value of one of these tags, label the profiles in the
+// dashboard's profile breakdown widgets.
+
+import { existsSync, readFileSync } from 'fs';
+import * as path from 'path';
+import { getFullModelId, type DashboardConfig } from './bedrock-quota-dashboard';
+
+/** Default location of the application profiles file, next to cdk.json */
+export const DEFAULT_APPLICATION_PROFILES_FILE = path.join(__dirname, '..', 'application-profiles.json');
+
+/** An application inference profile */
+export interface ApplicationProfile {
+  readonly id: string;
+  readonly name: string;
+  /** Recorded tags of the profile */
+  readonly tags?: { readonly [key: string]: string };
+}
+
+/** Application profiles keyed by system inference profile ID */
+export interface RegionApplicationProfiles {
+  readonly [systemProfileId: string]: ApplicationProfile[];
+}
+
+/** Contents of the application profiles file, keyed by region */
+export interface ApplicationProfilesFile {
+  readonly [region: string]: RegionApplicationProfiles;
+}
+
+/** Differences between recorded and discovered application profiles of one region */
+export interface ApplicationProfileChanges {
+  /** Discovered profiles missing from the file, keyed by system profile ID */
+  readonly added: RegionApplicationProfiles;
+  /** Recorded profiles that no longer exist, keyed by system profile ID */
+  readonly removed: RegionApplicationProfiles;
+}
+
+/**
+ * Load the application profiles file
+ * @param file Path of the file
+ * @returns The file contents, or undefined if the file does not exist
+ * @throws Error if the file is not valid JSON or does not have the expected structure
+ */
+export function loadApplicationProfiles(file: string = DEFAULT_APPLICATION_PROFILES_FILE): ApplicationProfilesFile | undefined {
+  if (!existsSync(file)) {
+    return undefined;
+  }
+
+  let contents: unknown;
+  try {
+    contents = JSON.parse(readFileSync(file, 'utf8'));
+  } catch (error) {
+    throw new Error(`Invalid application profiles file ${file}: ${(error as Error).message}`);
+  }
+
+  const isObject = (value: unknown): value is { [key: string]: unknown } =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+  const isTags = (value: unknown): boolean =>
+    value === undefined || (isObject(value) && Object.values(value).every(tag => typeof tag === 'string'));
+  const isProfile = (value: unknown): boolean =>
+    isObject(value) && typeof value.id === 'string' && value.id !== '' && typeof value.name === 'string' && isTags(value.tags);
+
+  const errors: string[] = [];
+  if (!isObject(contents)) {
+    errors.push('expected an object keyed by region');
+  } else {
+    Object.entries(contents).forEach(([region, profiles]) => {
+      if (!isObject(profiles)) {
+        errors.push(`'${region}': expected an object keyed by system inference profile ID`);
+        return;
+      }
+      Object.entries(profiles).forEach(([systemProfileId, applicationProfiles]) => {
+        if (!Array.isArray(applicationProfiles) || !applicationProfiles.every(isProfile)) {
+          errors.push(`'${region}' -> '${systemProfileId}': expected an array of { "id": string, "name": string, "tags"?: { [key]: string } }`);
+        }
+      });
+    });
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid application profiles file ${file}:\n${errors.join('\n')}`);
+  }
+  return contents as ApplicationProfilesFile;
+}
+
+/**
+ * Add recorded application profiles to the dashboard configurations of their system profiles
+ * @param configs Dashboard configurations
+ * @param region The region whose recorded profiles are used
+ * @param profiles Contents of the application profiles file
+ * @param labelTag Tag whose value labels the profiles instead of their names, where recorded
+ * @returns The configurations, with recorded profile IDs added to applicationProfileIds and
+ *   their labels to applicationProfileLabels (labels set in code are kept)
+ */
+export function applyApplicationProfiles(
+  configs: DashboardConfig[],
+  region: string,
+  profiles: ApplicationProfilesFile,
+  labelTag?: string
+): DashboardConfig[] {
+  const regionProfiles = profiles[region] ?? {};
+
+  return configs.map(config => {
+    const systemProfileId = getFullModelId(config.modelConfig, config.endpointType, region);
+    const recorded = regionProfiles[systemProfileId] ?? [];
+    if (recorded.length === 0) {
+      return config;
+    }
+
+    const existing = config.applicationProfileIds ?? [];
+    const added = recorded.map(profile => profile.id).filter(id => !existing.includes(id));
+    if (added.length > 0) {
+      console.log(`[APPLICATION_PROFILES] ${systemProfileId}: Adding ${added.length} application profiles from the profiles file`);
+    }
+
+    const labels = Object.fromEntries(recorded.map(profile => [profile.id, (labelTag && profile.tags?.[labelTag]) || profile.name]));
+    return {
+      ...config,
+      applicationProfileIds: [...existing, ...added],
+      applicationProfileLabels: { ...labels, ...config.applicationProfileLabels },
+    };
+  });
+}
+
+/**
+ * Compare recorded application profiles with the discovered ones
+ * @param recorded Profiles of the region in the file
+ * @param discovered Profiles of the region discovered from the Bedrock API
+ * @returns Added and removed profiles; both are empty if the file is up to date
+ */
+export function diffApplicationProfiles(recorded: RegionApplicationProfiles, discovered: RegionApplicationProfiles): ApplicationProfileChanges {
+  const missingFrom = (source: RegionApplicationProfiles, target: RegionApplicationProfiles) => {
+    const missing: { [systemProfileId: string]: ApplicationProfile[] } = {};
+    Object.entries(source).forEach(([systemProfileId, profiles]) => {
+      const targetIds = new Set((target[systemProfileId] ?? []).map(profile => profile.id));
+      const missingProfiles = profiles.filter(profile => !targetIds.has(profile.id));
+      if (missingProfiles.length > 0) {
+        missing[systemProfileId] = missingProfiles;
+      }
+    });
+    return missing;
+  };
+
+  return {
+    added: missingFrom(discovered, recorded),
+    removed: missingFrom(recorded, discovered),
+  };
+}
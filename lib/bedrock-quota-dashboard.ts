@@ -0,0 +1,2096 @@
+import { createHash } from 'crypto';
+import * as path from 'path';
+import * as cdk from 'aws-cdk-lib';
+import * as cloudwatch from 'aws-cdk-lib/aws-cloudwatch';
+import * as lambda from 'aws-cdk-lib/aws-lambda';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import * as cr from 'aws-cdk-lib/custom-resources';
+import * as events from 'aws-cdk-lib/aws-events';
+import * as targets from 'aws-cdk-lib/aws-events-targets';
+import * as sns from 'aws-cdk-lib/aws-sns';
+import * as subscriptions from 'aws-cdk-lib/aws-sns-subscriptions';
+import * as cloudwatchActions from 'aws-cdk-lib/aws-cloudwatch-actions';
+import { Construct } from 'constructs';
+import { NagSuppressions } from 'cdk-nag';
+import { getQuotaCodes, type EndpointType, type ModelConfig, validateModelEndpointSupport, getSupportedEndpointTypes, resolveModelConfig, getCrossRegionPrefix, findModelKey, getProviderName } from './bedrock-registries';
+
+/** Default CloudWatch dashboard name */
+export const DEFAULT_DASHBOARD_NAME = 'BedrockQuotaConsumptionByModel';
+
+/** Default namespace for the quota and MaxTokens custom metrics */
+export const DEFAULT_METRIC_NAMESPACE = 'Bedrock/Quotas';
+
+/** Dashboard group of configs without a group, when other configs set one */
+export const UNGROUPED_DASHBOARD_GROUP = 'Ungrouped';
+
+/** Quota utilization alarm thresholds, as percentages of the model's quota */
+export interface UtilizationAlarmThresholds {
+  /**
+   * Utilization percentage that raises the warning alarm
+   * @default 70
+   */
+  readonly warningPercent?: number;
+
+  /**
+   * Utilization percentage that raises the critical alarm
+   * @default 90
+   */
+  readonly criticalPercent?: number;
+
+  /**
+   * Consecutive 1-minute periods at or above a threshold before the alarm fires
+   * @default 3
+   */
+  readonly evaluationPeriods?: number;
+}
+
+/** Automatic token quota increase requests for a model with sustained high utilization */
+export interface QuotaIncreaseConfig {
+  /**
+   * Token quota (tokens per minute) the automatic requests never exceed
+   */
+  readonly maxTokenQuota: number;
+
+  /**
+   * Utilization percentage of the token quota (the higher of Initial Reservation and
+   * Actual Consumption) that triggers a request
+   * @default 80
+   */
+  readonly thresholdPercent?: number;
+
+  /**
+   * Consecutive 1-minute periods at or above the threshold before a request is filed
+   * @default 15
+   */
+  readonly evaluationPeriods?: number;
+
+  /**
+   * Multiplier applied to the current token quota for the requested value, capped at maxTokenQuota
+   * @default 2
+   */
+  readonly increaseFactor?: number;
+}
+
+/** Scheduled discovery of application inference profiles */
+export interface ApplicationProfileDiscoveryOptions {
+  /**
+   * Schedule on which application profiles are discovered and the dashboard is updated
+   * @default events.Schedule.rate(cdk.Duration.hours(1))
+   */
+  readonly schedule?: events.Schedule;
+}
+
+/**
+ * Dashboard configuration interface
+ *
+ * Generic over the model's supported endpoints, so that `endpointType` can be checked
+ * against the model at compile time. Create configs with defineDashboardConfig() to
+ * get that check; `DashboardConfig` without a type argument accepts any endpoint type.
+ */
+export interface DashboardConfig<T extends readonly EndpointType[] = readonly EndpointType[]> {
+  /**
+   * The Bedrock model configuration object from the registry
+   * @example BEDROCK_MODELS.AMAZON.NOVA_LITE_V1
+   * @example BEDROCK_MODELS.ANTHROPIC.CLAUDE_3_HAIKU
+   */
+  modelConfig: ModelConfig<T>;
+
+  /**
+   * The endpoint type for this model. Must be one of the model's supportedEndpoints.
+   * Use getSupportedEndpointTypes(modelConfig) to check valid options.
+   *
+   * - 'regional': Standard regional endpoints
+   * - 'cross-region': Cross-region inference
+   * - 'global-cross-region': Global cross-region
+   *
+   * @example 'regional'
+   * @example 'cross-region'
+   * @example 'global-cross-region'
+   */
+  endpointType: T[number];
+
+  /**
+   * Optional list of application inference profile IDs that share quota with this model.
+   *
+   * Application inference profiles created from a system inference profile share the same
+   * quota. When specified, the dashboard will aggregate metrics across all profiles
+   * (system + application) to show total usage against the shared quota.
+   *
+   * Use the discovery script to find your application profile IDs:
+   *   npx ts-node scripts/discover-inference-profiles.ts
+   *
+   * @example ['grjihoh0los8', 'cypje2y15yrd', 'wqwinsplsugw']
+   */
+  applicationProfileIds?: string[];
+
+  /**
+   * Display names of application inference profiles, keyed by profile ID, used as series
+   * labels in the profile breakdown widget. The stack fills these in from the profile names
+   * (or a tag) recorded in application-profiles.json; profiles without a name show their ID.
+   *
+   * @example { grjihoh0los8: 'team-a-chatbot' }
+   */
+  applicationProfileLabels?: { [profileId: string]: string };
+
+  /**
+   * Adds a stacked-area widget showing each profile's Actual Consumption as a share of the
+   * token quota, so the profiles using most of the shared quota stand out. Requires
+   * applicationProfileIds.
+   *
+   * @default false
+   */
+  profileBreakdown?: boolean;
+
+  /**
+   * Adds widgets comparing the average max_tokens (MaxTokens / Invocations) with the average
+   * output (OutputTokenCount / Invocations) and the share of the reservation that goes unused,
+   * and recommending the largest max_tokens whose reservation would have stayed within the
+   * token quota in the busiest minute of the time range.
+   *
+   * @default false
+   */
+  maxTokensAnalysis?: boolean;
+
+  /**
+   * Utilization alarm thresholds for this model, overriding the dashboard-wide `alarms`.
+   * Set to false to disable alarms for this model.
+   *
+   * @example { warningPercent: 60, criticalPercent: 85 }
+   */
+  alarms?: UtilizationAlarmThresholds | false;
+
+  /**
+   * Opt-in automatic token quota increase requests. When utilization stays above the
+   * threshold, a Service Quotas increase request is filed for the model's token quota,
+   * unless one is already open. Only applies in the stack's region.
+   *
+   * @example { maxTokenQuota: 2000000, thresholdPercent: 80 }
+   */
+  quotaIncrease?: QuotaIncreaseConfig;
+
+  /**
+   * Output tokens each request reserves when it does not set max_tokens, used to estimate
+   * Initial Reservation as `Invocations × defaultMaxTokens` in periods without MaxTokens
+   * datapoints. Overrides the registry's `defaultMaxOutputTokens`, and enables the estimate
+   * for this model even if the dashboard's `estimateMissingMaxTokens` is off.
+   *
+   * @example 4096
+   */
+  defaultMaxTokens?: number;
+
+  /**
+   * Name of the dashboard group the model is shown in, such as a team, provider or
+   * environment. When any config sets a group, each group gets its own dashboard and the
+   * main dashboard becomes an index linking to them; configs without a group are shown
+   * in the 'Ungrouped' dashboard.
+   *
+   * @example 'team-a'
+   */
+  group?: string;
+
+  /**
+   * Where the configuration was defined, included in validation errors. Set by the
+   * dashboards file loader to the file and line of the model entry.
+   *
+   * @example 'dashboards.yaml:12'
+   */
+  source?: string;
+}
+
+/**
+ * Define a dashboard configuration whose endpoint type is checked against the model's
+ * supported endpoints at compile time
+ * @param config The dashboard configuration
+ * @returns The same configuration, widened for use in a DashboardConfig[]
+ * @example defineDashboardConfig({ modelConfig: BEDROCK_MODELS.AMAZON.NOVA_LITE_V1, endpointType: 'cross-region' })
+ */
+export function defineDashboardConfig<T extends readonly EndpointType[]>(config: DashboardConfig<T>): DashboardConfig {
+  return config;
+}
+
+/**
+ * Validates that all dashboard configurations use valid model/endpoint combinations
+ * @param configs Array of dashboard configurations to validate
+ * @param region Optional region whose registry the models are checked against
+ * @throws Error with detailed message if any configurations are invalid
+ */
+export function validateAllDashboardConfigs(configs: DashboardConfig[], region?: string): void {
+  const errors: string[] = [];
+
+  configs.forEach((config, index) => {
+    const label = config.source ? `Config ${index} (${config.source})` : `Config ${index}`;
+    let modelConfig: ModelConfig<readonly EndpointType[]> | null = config.modelConfig;
+    if (region) {
+      modelConfig = resolveModelConfig(region, config.modelConfig);
+      if (!modelConfig) {
+        errors.push(`${label}: Model '${config.modelConfig.modelId}' is not available in the ${region} registry`);
+        return;
+      }
+    }
+
+    if (config.defaultMaxTokens !== undefined && !(Number.isInteger(config.defaultMaxTokens) && config.defaultMaxTokens > 0)) {
+      errors.push(`${label}: defaultMaxTokens must be a positive integer, got ${config.defaultMaxTokens}`);
+    }
+
+    if (!validateModelEndpointSupport(modelConfig, config.endpointType)) {
+      const supported = getSupportedEndpointTypes(modelConfig);
+      if (supported.length === 0) {
+        errors.push(`${label}: Model '${config.modelConfig.modelId}' not found in quota registry`);
+      } else {
+        errors.push(`${label}: Model '${config.modelConfig.modelId}' does not support endpoint type '${config.endpointType}'. Supported types: ${supported.join(', ')}`);
+      }
+    }
+  });
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid dashboard configurations found:\n${errors.join('\n')}\n\nPlease check the quota mappings in the region-specific registry file for valid model/endpoint combinations.`);
+  }
+}
+
+/**
+ * Generate the CloudWatch console URL of a dashboard
+ * @param region Region of the dashboard
+ * @param dashboardName Name of the dashboard
+ * @returns The console URL
+ */
+export function getDashboardUrl(region: string, dashboardName: string): string {
+  return `https://console.aws.amazon.com/cloudwatch/home?region=${region}#dashboards:name=${dashboardName}`;
+}
+
+/**
+ * Generate the full model ID (the ModelId metric dimension) with endpoint prefix
+ * @param modelConfig The model configuration object
+ * @param endpointType The endpoint type
+ * @param region The region the model is invoked in, which selects the cross-region geography
+ * @returns e.g. 'amazon.nova-lite-v1:0', 'eu.amazon.nova-lite-v1:0' or 'global.anthropic.claude-...'
+ */
+export function getFullModelId<T extends readonly EndpointType[]>(modelConfig: ModelConfig<T>, endpointType: T[number], region: string): string {
+  const modelId = modelConfig.modelId;
+  switch (endpointType) {
+    case 'regional':
+      return modelId;
+    case 'cross-region':
+      return `${getCrossRegionPrefix(region)}.${modelId}`;
+    case 'global-cross-region':
+      return `global.${modelId}`;
+    default:
+      return modelId;
+  }
+}
+
+export interface BedrockQuotaDashboardProps {
+  /**
+   * Model/endpoint combinations to show on the dashboard, in display order.
+   * Each combination is validated at synth time.
+   */
+  readonly dashboardConfigs: DashboardConfig[];
+
+  /**
+   * Name of the CloudWatch dashboard
+   * @default 'BedrockQuotaConsumptionByModel'
+   */
+  readonly dashboardName?: string;
+
+  /**
+   * CloudWatch namespace for the TokenQuota, RequestQuota and MaxTokens metrics.
+   * Applications publishing MaxTokens must use the same namespace.
+   * @default 'Bedrock/Quotas'
+   */
+  readonly namespace?: string;
+
+  /**
+   * Schedule on which quota values are refreshed from Service Quotas
+   * @default events.Schedule.rate(cdk.Duration.minutes(174)) - every 2.9 hours
+   */
+  readonly refreshSchedule?: events.Schedule;
+
+  /**
+   * Discovers application inference profiles on a schedule and adds them to the dashboard's
+   * graphs, so usage of profiles created after deployment is not undercounted. Alarms and
+   * automatic quota increases keep using the profiles known at synth time.
+   * @default - no discovery; only the configured applicationProfileIds are aggregated
+   */
+  readonly applicationProfileDiscovery?: ApplicationProfileDiscoveryOptions;
+
+  /**
+   * Regions to include on the dashboard. Each region gets its own section of widgets,
+   * built from cross-region CloudWatch metric queries, and its own scheduled quota refresh.
+   * Every dashboard config must be available in every listed region's registry.
+   * @default - the stack's region only
+   */
+  readonly regions?: string[];
+
+  /**
+   * Enables quota utilization alarms for every model, alerting when Initial Reservation or
+   * Actual Consumption approach the token quota, or Invocations approach the request quota.
+   * Individual configs can override or disable these with `DashboardConfig.alarms`.
+   * @default - no alarms unless set on individual configs
+   */
+  readonly alarms?: UtilizationAlarmThresholds;
+
+  /**
+   * Estimates Initial Reservation for applications that do not publish MaxTokens: in periods
+   * without MaxTokens datapoints, each invocation is counted as reserving the model's
+   * `defaultMaxOutputTokens` from the registry (or the config's `defaultMaxTokens`). Estimated
+   * series are labelled as such. Models without a default are not estimated.
+   * @default false - missing MaxTokens datapoints leave only the input tokens
+   */
+  readonly estimateMissingMaxTokens?: boolean;
+
+  /**
+   * SNS topic notified when utilization alarms change state
+   * @default - a topic is created if alarmEmailAddresses or alarmHttpsEndpoints are set
+   */
+  readonly alarmTopic?: sns.ITopic;
+
+  /**
+   * Email addresses subscribed to the alarm topic
+   * @default - no email subscriptions
+   */
+  readonly alarmEmailAddresses?: string[];
+
+  /**
+   * HTTPS endpoints subscribed to the alarm topic
+   * @default - no HTTPS subscriptions
+   */
+  readonly alarmHttpsEndpoints?: string[];
+}
+
+/** Quota utilization expressions of one model, as shown on the dashboard */
+export interface ModelUtilization {
+  /** Region the model's metrics are in */
+  readonly region: string;
+  /** Full model ID (the ModelId metric dimension), e.g. 'global.anthropic.claude-sonnet-4-5-20250929-v1:0' */
+  readonly modelId: string;
+  /** Dashboard group of the model's config, if any */
+  readonly group?: string;
+  /** Initial Reservation as a percentage of the token quota */
+  readonly reservation: cloudwatch.MathExpression;
+  /** Actual Consumption as a percentage of the token quota */
+  readonly consumption: cloudwatch.MathExpression;
+  /** Invocations as a percentage of the request quota */
+  readonly requests: cloudwatch.MathExpression;
+}
+
+// Defaults for UtilizationAlarmThresholds
+const DEFAULT_WARNING_PERCENT = 70;
+const DEFAULT_CRITICAL_PERCENT = 90;
+const DEFAULT_ALARM_EVALUATION_PERIODS = 3;
+
+// Defaults for QuotaIncreaseConfig
+const DEFAULT_QUOTA_INCREASE_PERCENT = 80;
+const DEFAULT_QUOTA_INCREASE_EVALUATION_PERIODS = 15;
+const DEFAULT_QUOTA_INCREASE_FACTOR = 2;
+
+// CloudWatch alarms can reference at most 10 metrics in a metric math expression
+const MAX_ALARM_METRICS = 10;
+
+// Alarms divide by FILL(quota, REPEAT), which only repeats a quota datapoint within the evaluated
+// periods, so the applied quotas of alarmed models are republished at the alarm resolution
+const ALARM_QUOTA_REFRESH_RATE = cdk.Duration.minutes(1);
+
+// Maximum number of regions, bounded by the EventBridge limit of 5 targets per rule
+const MAX_REGIONS = 5;
+
+// Quota codes for one model, as consumed by the quota fetcher Lambda
+interface QuotaFetchModel {
+  readonly modelId: string;
+  readonly tokenQuotaCode?: string;
+  readonly requestQuotaCode?: string;
+}
+
+// Banner of models that are not entries of any region registry
+const OTHER_PROVIDER_NAME = 'Other Models';
+
+// Display name of the provider whose registry group contains the model, for banners
+function getModelProviderName(modelConfig: ModelConfig<readonly EndpointType[]>): string {
+  const key = findModelKey(modelConfig);
+  return key ? getProviderName(key.provider) : OTHER_PROVIDER_NAME;
+}
+
+// Order provider names alphabetically, with models outside the registries last
+function compareProviderNames(a: string, b: string): number {
+  return Number(a === OTHER_PROVIDER_NAME) - Number(b === OTHER_PROVIDER_NAME) || a.localeCompare(b);
+}
+
+/**
+ * Build the quota fetcher payload for a set of region-resolved dashboard configurations
+ * @param configs Dashboard configurations resolved against the region's registry
+ * @param region The region the quota codes belong to
+ * @returns Models with quota codes; configurations without quota codes are excluded
+ */
+function getQuotaFetchModels(configs: DashboardConfig[], region: string): QuotaFetchModel[] {
+  const models: QuotaFetchModel[] = [];
+
+  configs.forEach(config => {
+    const quotaCodes = getQuotaCodes(config.modelConfig, config.endpointType);
+    if (!quotaCodes) {
+      console.warn(`[QUOTA_FETCH_WARNING] Excluding model '${config.modelConfig.modelId}' (${config.endpointType}) from quota refresh in ${region} - missing quota codes`);
+      return;
+    }
+
+    models.push({
+      modelId: getFullModelId(config.modelConfig, config.endpointType, region),
+      tokenQuotaCode: quotaCodes.tokenQuotaCode,
+      requestQuotaCode: quotaCodes.requestQuotaCode,
+    });
+  });
+
+  if (models.length === 0) {
+    console.error(`[QUOTA_FETCH_ERROR] No models available for quota refresh in ${region} due to missing quota codes`);
+  } else {
+    console.log(`[QUOTA_FETCH_SUCCESS] Configured quota refresh for ${models.length} models in ${region}`);
+  }
+
+  return models;
+}
+
+/** Usage metrics of one model, summed across the profiles that share its quota */
+interface UsageMetrics {
+  readonly actualConsumption: cloudwatch.IMetric;
+  readonly initialReservation: cloudwatch.IMetric;
+  readonly invocations: cloudwatch.IMetric;
+  readonly throttles: cloudwatch.IMetric;
+  readonly clientErrors: cloudwatch.IMetric;
+  readonly serverErrors: cloudwatch.IMetric;
+  readonly latency: cloudwatch.IMetric;
+  readonly inputTokens: cloudwatch.IMetric;
+  readonly cacheReads: cloudwatch.IMetric;
+  readonly cacheWrites: cloudwatch.IMetric;
+  /** Input side of the token quota: input tokens, cache writes, and cache reads if they count */
+  readonly quotaInput: cloudwatch.IMetric;
+  /** Output tokens reserved at request start: MaxTokens, or its estimate */
+  readonly reservedOutput: cloudwatch.IMetric;
+  readonly outputTokens: cloudwatch.IMetric;
+}
+
+/** Metrics to sum per metric type, each keyed by its expression ID */
+type SummedMetrics = Record<
+  'inputTokens' | 'cacheWriteTokens' | 'cacheReadTokens' | 'outputTokens' | 'maxTokens' | 'invocations' | 'throttles' | 'clientErrors' | 'serverErrors',
+  { [id: string]: cloudwatch.IMetric }
+>;
+
+/** Expression IDs of one profile's MaxTokens and Invocations metrics, built from the same key */
+interface ReservationIds {
+  readonly maxTokensId: string;
+  readonly invocationsId: string;
+}
+
+interface SumUsageOptions {
+  readonly burndownRate: number;
+  readonly cacheReadsCountTowardQuota: boolean;
+  /** Describes the summed profiles in metric labels, e.g. '3 profiles' */
+  readonly profilesLabel: string;
+  /** Output tokens reserved per invocation in periods without MaxTokens, if estimating */
+  readonly defaultMaxTokens?: number;
+}
+
+// Label suffix of Initial Reservation series that estimate missing MaxTokens
+const ESTIMATED_RESERVATION_LABEL = 'estimated where MaxTokens is missing';
+
+/**
+ * Build the expression of the output tokens reserved by one profile's requests, estimated as
+ * invocations × default max tokens in periods without MaxTokens datapoints
+ * @param maxTokensId Expression ID of the MaxTokens metric
+ * @param invocationsId Expression ID of the Invocations metric
+ * @param defaultMaxTokens Output tokens reserved per invocation without MaxTokens
+ */
+function estimatedMaxTokens(maxTokensId: string, invocationsId: string, defaultMaxTokens: number): string {
+  return `IF(FILL(${maxTokensId}, 0) > 0, FILL(${maxTokensId}, 0), FILL(${invocationsId}, 0) * ${defaultMaxTokens})`;
+}
+
+/**
+ * Build usage metrics from metrics summed across several profiles
+ * @param metricsByType Metrics to sum per metric type
+ * @param reservationIds MaxTokens and Invocations expression IDs of each profile, for estimating missing MaxTokens
+ * @param latency Average latency across the profiles
+ * @param options Burndown rate, cache read handling and label
+ */
+function sumUsageMetrics(metricsByType: SummedMetrics, reservationIds: ReservationIds[], latency: cloudwatch.IMetric, options: SumUsageOptions): UsageMetrics {
+  const { burndownRate, cacheReadsCountTowardQuota, profilesLabel, defaultMaxTokens } = options;
+
+  // Build sum expressions
+  const sumOf = (type: keyof SummedMetrics) => Object.keys(metricsByType[type]).join(' + ');
+  const inputSum = sumOf('inputTokens');
+  const cacheSum = sumOf('cacheWriteTokens');
+  const cacheReadSum = sumOf('cacheReadTokens');
+  const outputSum = sumOf('outputTokens');
+  // Output reserved at request start, with missing MaxTokens estimated per profile if enabled
+  const maxTokensSum = defaultMaxTokens
+    ? reservationIds
+      .map(({ maxTokensId, invocationsId }) => estimatedMaxTokens(maxTokensId, invocationsId, defaultMaxTokens))
+      .join(' + ')
+    : sumOf('maxTokens');
+
+  // Input side of the quota, optionally including cache reads
+  const quotaInputSum = cacheReadsCountTowardQuota
+    ? `(${inputSum}) + (${cacheSum}) + (${cacheReadSum})`
+    : `(${inputSum}) + (${cacheSum})`;
+  const quotaInputMetrics = {
+    ...metricsByType.inputTokens,
+    ...metricsByType.cacheWriteTokens,
+    ...(cacheReadsCountTowardQuota ? metricsByType.cacheReadTokens : {}),
+  };
+
+  // Missing datapoints mean no throttles, errors or cache activity for that profile
+  const filledSumOf = (type: keyof SummedMetrics) => Object.keys(metricsByType[type]).map(key => `FILL(${key}, 0)`).join(' + ');
+
+  return {
+    actualConsumption: new cloudwatch.MathExpression({
+      expression: `${quotaInputSum} + ((${outputSum}) * ${burndownRate})`,
+      usingMetrics: { ...quotaInputMetrics, ...metricsByType.outputTokens },
+      label: `Actual Consumption (${profilesLabel})`,
+      period: cdk.Duration.minutes(1),
+    }),
+    initialReservation: new cloudwatch.MathExpression({
+      expression: `${quotaInputSum} + (${maxTokensSum})`,
+      usingMetrics: { ...quotaInputMetrics, ...metricsByType.maxTokens, ...(defaultMaxTokens ? metricsByType.invocations : {}) },
+      label: defaultMaxTokens ? `Initial Reservation (${profilesLabel}, ${ESTIMATED_RESERVATION_LABEL})` : `Initial Reservation (${profilesLabel})`,
+      period: cdk.Duration.minutes(1),
+    }),
+    quotaInput: new cloudwatch.MathExpression({
+      expression: quotaInputSum,
+      usingMetrics: quotaInputMetrics,
+      label: `Quota Input Tokens (${profilesLabel})`,
+      period: cdk.Duration.minutes(1),
+    }),
+    reservedOutput: new cloudwatch.MathExpression({
+      expression: maxTokensSum,
+      usingMetrics: { ...metricsByType.maxTokens, ...(defaultMaxTokens ? metricsByType.invocations : {}) },
+      label: `Reserved Output Tokens (${profilesLabel})`,
+      period: cdk.Duration.minutes(1),
+    }),
+    outputTokens: new cloudwatch.MathExpression({
+      expression: sumOf('outputTokens'),
+      usingMetrics: metricsByType.outputTokens,
+      label: `Output Tokens (${profilesLabel})`,
+      period: cdk.Duration.minutes(1),
+    }),
+    invocations: new cloudwatch.MathExpression({
+      expression: sumOf('invocations'),
+      usingMetrics: metricsByType.invocations,
+      label: `Total Invocations (${profilesLabel})`,
+      period: cdk.Duration.minutes(1),
+    }),
+    inputTokens: new cloudwatch.MathExpression({
+      expression: filledSumOf('inputTokens'),
+      usingMetrics: metricsByType.inputTokens,
+      label: `Uncached Input Tokens (${profilesLabel})`,
+      period: cdk.Duration.minutes(1),
+    }),
+    cacheReads: new cloudwatch.MathExpression({
+      expression: filledSumOf('cacheReadTokens'),
+      usingMetrics: metricsByType.cacheReadTokens,
+      label: `Cache Read Tokens (${profilesLabel})`,
+      period: cdk.Duration.minutes(1),
+    }),
+    cacheWrites: new cloudwatch.MathExpression({
+      expression: filledSumOf('cacheWriteTokens'),
+      usingMetrics: metricsByType.cacheWriteTokens,
+      label: `Cache Write Tokens (${profilesLabel})`,
+      period: cdk.Duration.minutes(1),
+    }),
+    throttles: new cloudwatch.MathExpression({
+      expression: filledSumOf('throttles'),
+      usingMetrics: metricsByType.throttles,
+      label: `Throttles (${profilesLabel})`,
+      color: cloudwatch.Color.RED,
+      period: cdk.Duration.minutes(1),
+    }),
+    clientErrors: new cloudwatch.MathExpression({
+      expression: filledSumOf('clientErrors'),
+      usingMetrics: metricsByType.clientErrors,
+      label: `Client Errors (${profilesLabel})`,
+      color: cloudwatch.Color.ORANGE,
+      period: cdk.Duration.minutes(1),
+    }),
+    serverErrors: new cloudwatch.MathExpression({
+      expression: filledSumOf('serverErrors'),
+      usingMetrics: metricsByType.serverErrors,
+      label: `Server Errors (${profilesLabel})`,
+      color: cloudwatch.Color.PURPLE,
+      period: cdk.Duration.minutes(1),
+    }),
+    latency,
+  };
+}
+
+/**
+ * Build usage metrics that sum a model's profiles with SEARCH expressions.
+ * The expressions filter on `(ModelId="<system profile>" OR ModelId="<application profile>" ...)`,
+ * which the profile discovery function rewrites in the deployed dashboard body as
+ * application profiles are created and deleted.
+ * @param profileIds System profile ID followed by the known application profile IDs
+ * @param namespace Namespace of the MaxTokens metric
+ * @param region Region to search, for cross-region dashboards
+ * @param options Burndown rate, cache read handling and label
+ */
+function searchUsageMetrics(profileIds: string[], namespace: string, region: string | undefined, options: SumUsageOptions): UsageMetrics {
+  const modelIdFilter = `(${profileIds.map(id => `ModelId="${id}"`).join(' OR ')})`;
+  const search = (metricNamespace: string, metricName: string, statistic: string = 'Sum', aggregate: string = 'SUM') =>
+    new cloudwatch.MathExpression({
+      expression: `${aggregate}(SEARCH('{${metricNamespace},ModelId} MetricName="${metricName}" ${modelIdFilter}', '${statistic}', 60))`,
+      usingMetrics: {},
+      searchRegion: region,
+      period: cdk.Duration.minutes(1),
+    });
+
+  // Latency is the unweighted average of the profiles' averages, since SEARCH results
+  // cannot be paired with each profile's invocations
+  const latency = search('AWS/Bedrock', 'InvocationLatency', 'Average', 'AVG').with({ label: `Average Latency (${options.profilesLabel})` });
+
+  return sumUsageMetrics({
+    inputTokens: { inputTokens: search('AWS/Bedrock', 'InputTokenCount') },
+    cacheWriteTokens: { cacheWriteTokens: search('AWS/Bedrock', 'CacheWriteInputTokenCount') },
+    cacheReadTokens: { cacheReadTokens: search('AWS/Bedrock', 'CacheReadInputTokenCount') },
+    outputTokens: { outputTokens: search('AWS/Bedrock', 'OutputTokenCount') },
+    maxTokens: { maxTokens: search(namespace, 'MaxTokens') },
+    invocations: { invocations: search('AWS/Bedrock', 'Invocations') },
+    throttles: { throttles: search('AWS/Bedrock', 'InvocationThrottles') },
+    clientErrors: { clientErrors: search('AWS/Bedrock', 'InvocationClientErrors') },
+    serverErrors: { serverErrors: search('AWS/Bedrock', 'InvocationServerErrors') },
+  }, [{ maxTokensId: 'maxTokens', invocationsId: 'invocations' }], latency, options);
+}
+
+// Count the distinct metrics a (possibly nested) math expression references
+function countMetrics(metric: cloudwatch.IMetric, seen: Set<cloudwatch.IMetric> = new Set()): number {
+  if (metric instanceof cloudwatch.MathExpression) {
+    Object.values(metric.usingMetrics).forEach(child => countMetrics(child, seen));
+  } else {
+    seen.add(metric);
+  }
+  return seen.size;
+}
+
+/**
+ * Create warning and critical alarms for a set of utilization percentage expressions
+ * @param scope Scope for the alarms
+ * @param modelLabel Model name used in alarm descriptions
+ * @param utilizations Utilization expressions keyed by construct ID, e.g. 'Reservation'
+ * @param thresholds Alarm thresholds
+ * @param topic Optional SNS topic for alarm and OK notifications
+ * @returns The created alarms
+ */
+function createUtilizationAlarms(
+  scope: Construct,
+  modelLabel: string,
+  utilizations: { [id: string]: { description: string; metric: cloudwatch.IMetric } },
+  thresholds: UtilizationAlarmThresholds,
+  topic?: sns.ITopic
+): cloudwatch.Alarm[] {
+  const alarms: cloudwatch.Alarm[] = [];
+  const levels = {
+    Warning: thresholds.warningPercent ?? DEFAULT_WARNING_PERCENT,
+    Critical: thresholds.criticalPercent ?? DEFAULT_CRITICAL_PERCENT,
+  };
+
+  Object.entries(utilizations).forEach(([id, { description, metric }]) => {
+    const metricCount = countMetrics(metric);
+    if (metricCount > MAX_ALARM_METRICS) {
+      // Surfaced in the synth output, and fails `cdk synth --strict`
+      cdk.Annotations.of(scope).addWarningV2(
+        'bedrock-quota-dashboard:alarmMetricLimit',
+        `${description} alarms for '${modelLabel}' are not created - the expression uses ${metricCount} metrics, alarms support at most ${MAX_ALARM_METRICS}. Aggregate fewer application profiles or set alarms: false on the config.`
+      );
+      return;
+    }
+
+    Object.entries(levels).forEach(([level, threshold]) => {
+      const alarm = new cloudwatch.Alarm(scope, `${id}${level}Alarm`, {
+        metric,
+        threshold,
+        evaluationPeriods: thresholds.evaluationPeriods ?? DEFAULT_ALARM_EVALUATION_PERIODS,
+        comparisonOperator: cloudwatch.ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
+        treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
+        alarmDescription: `${level.toUpperCase()}: ${modelLabel} ${description} at or above ${threshold}% of quota`,
+      });
+
+      if (topic) {
+        alarm.addAlarmAction(new cloudwatchActions.SnsAction(topic));
+        alarm.addOkAction(new cloudwatchActions.SnsAction(topic));
+      }
+      alarms.push(alarm);
+    });
+  });
+
+  return alarms;
+}
+
+/**
+ * Create the alarm and EventBridge rule that request a token quota increase on sustained high utilization
+ * @param scope Scope for the alarm and rule
+ * @param modelId Full model ID the quota applies to
+ * @param tokenQuotaCode The model's token quota code
+ * @param utilizations Token quota utilization percentage expressions keyed by construct ID, each
+ *   with its own alarm so that a signal within the alarm metric limit is not held back by another
+ * @param config Automatic increase settings
+ * @param handler Lambda function that files the increase requests
+ * @returns The alarms, one per utilization expression within the alarm metric limit
+ * @throws Error if the settings are invalid, or if no expression fits within the alarm metric limit
+ */
+function createQuotaIncreaseTrigger(
+  scope: Construct,
+  modelId: string,
+  tokenQuotaCode: string,
+  utilizations: { [id: string]: { description: string; metric: cloudwatch.IMetric } },
+  config: QuotaIncreaseConfig,
+  handler: lambda.IFunction
+): cloudwatch.Alarm[] {
+  const threshold = config.thresholdPercent ?? DEFAULT_QUOTA_INCREASE_PERCENT;
+  const increaseFactor = config.increaseFactor ?? DEFAULT_QUOTA_INCREASE_FACTOR;
+  if (!(config.maxTokenQuota > 0)) {
+    throw new Error(`quotaIncrease for '${modelId}': maxTokenQuota must be greater than 0, got ${config.maxTokenQuota}`);
+  }
+  if (!(increaseFactor > 1)) {
+    throw new Error(`quotaIncrease for '${modelId}': increaseFactor must be greater than 1, got ${increaseFactor}`);
+  }
+  if (!(threshold > 0)) {
+    throw new Error(`quotaIncrease for '${modelId}': thresholdPercent must be greater than 0, got ${threshold}`);
+  }
+
+  const metricCounts = Object.entries(utilizations).map(([id, { metric }]) => ({ id, metricCount: countMetrics(metric) }));
+  if (metricCounts.every(({ metricCount }) => metricCount > MAX_ALARM_METRICS)) {
+    throw new Error(`quotaIncrease for '${modelId}': the utilization expressions use ${metricCounts.map(({ metricCount }) => metricCount).join(' and ')} metrics, alarms support at most ${MAX_ALARM_METRICS}. Aggregate fewer application profiles or remove quotaIncrease.`);
+  }
+
+  const alarms: cloudwatch.Alarm[] = [];
+  Object.entries(utilizations).forEach(([id, { description, metric }]) => {
+    const metricCount = countMetrics(metric);
+    if (metricCount > MAX_ALARM_METRICS) {
+      cdk.Annotations.of(scope).addWarningV2(
+        'bedrock-quota-dashboard:quotaIncreaseMetricLimit',
+        `${description} does not trigger quota increases for '${modelId}' - the expression uses ${metricCount} metrics, alarms support at most ${MAX_ALARM_METRICS}`
+      );
+      return;
+    }
+
+    alarms.push(new cloudwatch.Alarm(scope, `${id}QuotaIncreaseAlarm`, {
+      metric,
+      threshold,
+      evaluationPeriods: config.evaluationPeriods ?? DEFAULT_QUOTA_INCREASE_EVALUATION_PERIODS,
+      comparisonOperator: cloudwatch.ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
+      treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
+      alarmDescription: `QUOTA INCREASE: ${modelId} ${description} at or above ${threshold}% of the token quota, requests an increase of ${tokenQuotaCode} up to ${config.maxTokenQuota}`,
+    }));
+  });
+
+  // Only the transition into ALARM files a request; the Lambda skips it while one is open,
+  // so both alarms firing together file a single request
+  new events.Rule(scope, 'QuotaIncreaseRule', {
+    description: `Request a token quota increase for ${modelId}`,
+    eventPattern: {
+      source: ['aws.cloudwatch'],
+      detailType: ['CloudWatch Alarm State Change'],
+      resources: alarms.map(alarm => alarm.alarmArn),
+      detail: { state: { value: ['ALARM'] } },
+    },
+    targets: [
+      new targets.LambdaFunction(handler, {
+        event: events.RuleTargetInput.fromObject({
+          modelId,
+          quotaCode: tokenQuotaCode,
+          maxValue: config.maxTokenQuota,
+          increaseFactor,
+          alarmName: events.EventField.fromPath('$.detail.alarmName'),
+        }),
+      }),
+    ],
+  });
+
+  return alarms;
+}
+
+// A system profile and its configured application profiles, as sent to the discovery function
+interface DiscoveryProfile {
+  readonly region: string;
+  readonly systemProfileId: string;
+  readonly applicationProfileIds: string[];
+}
+
+/**
+ * Create the Lambda function, schedule and initial run that discover application inference
+ * profiles and rewrite the SEARCH expressions of the dashboards to include them
+ * @param scope The dashboard construct
+ * @param dashboards Dashboards whose bodies are rewritten
+ * @param profiles System profiles shown on the dashboards
+ * @param options Discovery schedule
+ * @returns The discovery function
+ */
+function createProfileDiscovery(
+  scope: Construct,
+  dashboards: cloudwatch.Dashboard[],
+  profiles: DiscoveryProfile[],
+  options: ApplicationProfileDiscoveryOptions
+): lambda.Function {
+  const discoverer = new lambda.Function(scope, 'ProfileDiscoverer', {
+    runtime: lambda.Runtime.PYTHON_3_13,
+    handler: 'profile-discovery-lambda.handler',
+    timeout: cdk.Duration.minutes(2),
+    code: lambda.Code.fromAsset(path.join(__dirname, 'lambda')),
+    architecture: lambda.Architecture.ARM_64,
+  });
+
+  discoverer.addToRolePolicy(
+    new iam.PolicyStatement({
+      actions: ['bedrock:ListInferenceProfiles'],
+      resources: ['*'], // Listing profiles does not support resource-level permissions
+    })
+  );
+  discoverer.addToRolePolicy(
+    new iam.PolicyStatement({
+      actions: ['cloudwatch:GetDashboard', 'cloudwatch:PutDashboard'],
+      resources: dashboards.map(dashboard => dashboard.dashboardArn),
+    })
+  );
+
+  const event = {
+    dashboardNames: dashboards.map(dashboard => dashboard.dashboardName),
+    profiles,
+  };
+
+  new events.Rule(scope, 'ProfileDiscoverySchedule', {
+    schedule: options.schedule ?? events.Schedule.rate(cdk.Duration.hours(1)),
+    description: 'Discover Bedrock application inference profiles for the quota dashboard',
+    targets: [new targets.LambdaFunction(discoverer, { event: events.RuleTargetInput.fromObject(event) })],
+  });
+
+  // Every deployment writes fresh dashboard bodies with only the configured profiles,
+  // so discovery runs again whenever a body changes
+  const stack = cdk.Stack.of(scope);
+  const dashboardBodies = dashboards.map(dashboard => (dashboard.node.defaultChild as cloudwatch.CfnDashboard).dashboardBody);
+  const bodyHash = createHash('sha256').update(JSON.stringify(stack.resolve(dashboardBodies))).digest('hex');
+
+  const provider = new cr.Provider(scope, 'ProfileDiscoveryProvider', {
+    onEventHandler: discoverer,
+  });
+  const initialDiscovery = new cdk.CustomResource(scope, 'InitialProfileDiscovery', {
+    serviceToken: provider.serviceToken,
+    properties: { ...event, bodyHash },
+  });
+  dashboards.forEach(dashboard => initialDiscovery.node.addDependency(dashboard));
+
+  return discoverer;
+}
+
+// Utilization and quota status expressions for one model, as shown in the fleet overview
+interface OverviewEntry {
+  /** Registry model key (or model ID), endpoint type and region of the dashboard config */
+  readonly configKey: string;
+  readonly label: string;
+  readonly reservation: cloudwatch.MathExpression;
+  readonly consumption: cloudwatch.MathExpression;
+  readonly requests: cloudwatch.MathExpression;
+  /** Applied token quota as a multiple of the AWS default */
+  readonly tokenQuotaIncrease: cloudwatch.MathExpression;
+  /** Open increase requests for the model's token quota */
+  readonly pendingTokenIncreaseRequests: cloudwatch.MathExpression;
+  /** Open increase requests for the model's request quota */
+  readonly pendingRequestIncreaseRequests: cloudwatch.MathExpression;
+}
+
+// Widgets of one dashboard, buffered so the fleet overview can be placed above them
+interface DashboardSection {
+  readonly widgetRows: cloudwatch.IWidget[][];
+  readonly overviewEntries: OverviewEntry[];
+  // Region and provider of the last banner, so banners are only added on changes
+  region?: string;
+  provider?: string;
+}
+
+/**
+ * Copy a math expression with every metric ID prefixed, recursively.
+ * Widgets reject expressions that use the same ID for different metrics, which happens
+ * when several models' expressions are shown together.
+ * @param metric The expression (or plain metric, returned unchanged) to copy
+ * @param prefix Prefix for the metric IDs, e.g. 'm0_'
+ * @returns The expression with prefixed metric IDs
+ */
+function withIdPrefix(metric: cloudwatch.IMetric, prefix: string): cloudwatch.IMetric {
+  if (!(metric instanceof cloudwatch.MathExpression)) {
+    return metric;
+  }
+
+  const keys = Object.keys(metric.usingMetrics);
+  const usingMetrics: { [id: string]: cloudwatch.IMetric } = {};
+  keys.forEach(key => {
+    usingMetrics[`${prefix}${key}`] = withIdPrefix(metric.usingMetrics[key], prefix);
+  });
+
+  return new cloudwatch.MathExpression({
+    expression: keys.length > 0
+      ? metric.expression.replace(new RegExp(`\\b(${keys.join('|')})\\b`, 'g'), `${prefix}$1`)
+      : metric.expression,
+    usingMetrics,
+    label: metric.label,
+    color: metric.color,
+    period: metric.period,
+    // SEARCH expressions of other regions' discovered profiles keep querying those regions
+    searchRegion: metric.searchRegion,
+    searchAccount: metric.searchAccount,
+  });
+}
+
+/**
+ * Create the fleet overview rows: each model's peak utilization over the dashboard's time range,
+ * followed by which models run on increased quotas and have increase requests open
+ * @param entries Utilization and quota status expressions per model, in display order
+ * @returns Widget rows for the overview section
+ */
+function createOverviewWidgets(entries: OverviewEntry[]): cloudwatch.IWidget[][] {
+  // Single value widgets wrap values onto new lines, so grow with the number of models
+  const height = Math.max(4, 1 + 2 * Math.ceil(entries.length / 2));
+
+  const latestOf = (select: (entry: OverviewEntry) => cloudwatch.MathExpression) =>
+    entries.map((entry, index) => {
+      const metric = withIdPrefix(select(entry), `m${index}_`) as cloudwatch.MathExpression;
+      return metric.with({ label: entry.label });
+    });
+
+  const peakOf = (select: (entry: OverviewEntry) => cloudwatch.MathExpression) =>
+    entries.map((entry, index) => new cloudwatch.MathExpression({
+      expression: `MAX(m${index})`,
+      usingMetrics: { [`m${index}`]: withIdPrefix(select(entry), `m${index}_`) },
+      label: entry.label,
+      period: cdk.Duration.minutes(1),
+    }));
+
+  return [[
+    new cloudwatch.TextWidget({
+      markdown: '# Fleet Overview\nPeak utilization of each model\'s quota over the selected time range, and the latest quota increases and pending increase requests',
+      width: 24,
+      height: 2,
+    }),
+  ], [
+    new cloudwatch.SingleValueWidget({
+      title: 'Peak Initial Reservation (% of token quota)',
+      metrics: peakOf(entry => entry.reservation),
+      width: 8,
+      height,
+    }),
+    new cloudwatch.SingleValueWidget({
+      title: 'Peak Actual Consumption (% of token quota)',
+      metrics: peakOf(entry => entry.consumption),
+      width: 8,
+      height,
+    }),
+    new cloudwatch.SingleValueWidget({
+      title: 'Peak Invocations (% of request quota)',
+      metrics: peakOf(entry => entry.requests),
+      width: 8,
+      height,
+    }),
+  ], [
+    new cloudwatch.SingleValueWidget({
+      title: 'Token Quota (× AWS default)',
+      metrics: latestOf(entry => entry.tokenQuotaIncrease),
+      width: 8,
+      height,
+    }),
+    new cloudwatch.SingleValueWidget({
+      title: 'Pending Token Quota Increase Requests',
+      metrics: latestOf(entry => entry.pendingTokenIncreaseRequests),
+      width: 8,
+      height,
+    }),
+    new cloudwatch.SingleValueWidget({
+      title: 'Pending Request Quota Increase Requests',
+      metrics: latestOf(entry => entry.pendingRequestIncreaseRequests),
+      width: 8,
+      height,
+    }),
+  ]];
+}
+
+/**
+ * CloudWatch dashboard tracking Bedrock token and request quota consumption per model,
+ * together with the Lambda function that publishes quota values as custom metrics.
+ */
+export class BedrockQuotaDashboard extends Construct {
+  /** The CloudWatch dashboard, or the index of the group dashboards if configs set groups */
+  public readonly dashboard: cloudwatch.Dashboard;
+
+  /** Dashboards of the config groups keyed by group name, empty unless configs set groups */
+  public readonly groupDashboards: { [group: string]: cloudwatch.Dashboard } = {};
+
+  /** Lambda function that fetches Service Quotas and publishes them as metrics */
+  public readonly quotaFetcher: lambda.Function;
+
+  /** Quota utilization alarms, empty unless alarms are enabled */
+  public readonly alarms: cloudwatch.Alarm[] = [];
+
+  /** SNS topic notified by the utilization alarms, if any */
+  public readonly alarmTopic?: sns.ITopic;
+
+  /** Lambda function that files automatic quota increase requests, if any config enables them */
+  public readonly quotaIncreaser?: lambda.Function;
+
+  /** Lambda function that discovers application inference profiles, if discovery is enabled */
+  public readonly profileDiscoverer?: lambda.Function;
+
+  /** Utilization expressions of every model with quota codes, per region in display order */
+  public readonly utilization: ModelUtilization[] = [];
+
+  constructor(scope: Construct, id: string, props: BedrockQuotaDashboardProps) {
+    super(scope, id);
+
+    const dashboardName = props.dashboardName ?? DEFAULT_DASHBOARD_NAME;
+    const namespace = props.namespace ?? DEFAULT_METRIC_NAMESPACE;
+
+    // Quota codes are region-specific, so the deployment region must be known at synth time
+    const stackRegion = cdk.Stack.of(this).region;
+    if (cdk.Token.isUnresolved(stackRegion)) {
+      throw new Error('BedrockQuotaDashboard requires a stack with an explicit region (env.region) to select the region-specific model registry');
+    }
+
+    const regions = props.regions ?? [stackRegion];
+    if (regions.length === 0 || regions.length > MAX_REGIONS) {
+      throw new Error(`BedrockQuotaDashboard supports between 1 and ${MAX_REGIONS} regions, got ${regions.length}`);
+    }
+
+    // Metrics only carry an explicit region when the dashboard spans other regions
+    const isMultiRegion = regions.some(region => region !== stackRegion);
+
+    // Validate all dashboard configurations against every region before proceeding
+    regions.forEach(region => validateAllDashboardConfigs(props.dashboardConfigs, region));
+
+    // Use each region's registry entry for each model
+    const regionalConfigs = regions.map(region => ({
+      region,
+      configs: props.dashboardConfigs.map(config => ({
+        ...config,
+        modelConfig: resolveModelConfig(region, config.modelConfig),
+      })) as DashboardConfig[],
+    }));
+
+    // Lambda function to fetch Service Quotas and publish as CloudWatch metrics
+    const quotaFetcherLambda = new lambda.Function(this, 'QuotaFetcher', {
+      runtime: lambda.Runtime.PYTHON_3_13,
+      handler: 'quota-fetcher-lambda.handler',
+      timeout: cdk.Duration.minutes(10),
+      code: lambda.Code.fromAsset(path.join(__dirname, 'lambda')),
+      architecture: lambda.Architecture.ARM_64, // Use ARM64 for better price-performance
+      environment: {
+        METRIC_NAMESPACE: namespace,
+      },
+    });
+    this.quotaFetcher = quotaFetcherLambda;
+
+    // Grant permissions to fetch service quotas and publish CloudWatch metrics
+    quotaFetcherLambda.addToRolePolicy(
+      new iam.PolicyStatement({
+        actions: [
+          'servicequotas:GetServiceQuota',
+          'servicequotas:GetAWSDefaultServiceQuota',
+          'servicequotas:ListServiceQuotas',
+          'servicequotas:ListRequestedServiceQuotaChangeHistory',
+        ],
+        resources: [`*`], // Quotas does not support resource-level permissions
+      })
+    );
+
+    quotaFetcherLambda.addToRolePolicy(
+      new iam.PolicyStatement({
+        actions: ['cloudwatch:PutMetricData'],
+        resources: ['*'],
+        conditions: {
+          StringEquals: {
+            'cloudwatch:namespace': namespace
+          }
+        }
+      })
+    );
+
+    // Custom Resource Provider
+    const quotaProvider = new cr.Provider(this, 'QuotaProvider', {
+      onEventHandler: quotaFetcherLambda,
+    });
+
+    // EventBridge rule to refresh quotas (every 2.9 hours unless overridden)
+    const dailyRefreshRule = new events.Rule(this, 'DailyQuotaRefresh', {
+      schedule: props.refreshSchedule ?? events.Schedule.rate(cdk.Duration.minutes(174)),
+      description: 'Refresh Bedrock quota values',
+    });
+
+    // Create CloudWatch Dashboard
+    const dashboard = new cloudwatch.Dashboard(this, 'BedrockQuotaDashboard', {
+      dashboardName,
+      periodOverride: cloudwatch.PeriodOverride.INHERIT,
+    });
+    this.dashboard = dashboard;
+
+    // Fan out the quota refresh per region: one schedule target and one initial fetch each
+    regionalConfigs.forEach(({ region, configs }) => {
+      const models = getQuotaFetchModels(configs, region);
+
+      dailyRefreshRule.addTarget(
+        new targets.LambdaFunction(quotaFetcherLambda, {
+          event: events.RuleTargetInput.fromObject({
+            source: 'aws.events',
+            region,
+            models,
+          }),
+        })
+      );
+
+      // Trigger initial quota fetch on first deployment
+      new cdk.CustomResource(this, region === stackRegion ? 'InitialQuotaFetch' : `InitialQuotaFetch-${region}`, {
+        serviceToken: quotaProvider.serviceToken,
+        properties: {
+          region,
+          models,
+        },
+      });
+    });
+
+    // SNS topic for alarm notifications, created when subscriptions are requested without a topic
+    const subscribers = [...(props.alarmEmailAddresses ?? []), ...(props.alarmHttpsEndpoints ?? [])];
+    this.alarmTopic = props.alarmTopic ?? (subscribers.length > 0
+      ? new sns.Topic(this, 'AlarmTopic', { displayName: 'Bedrock quota utilization alarms', enforceSSL: true })
+      : undefined);
+
+    props.alarmEmailAddresses?.forEach(email => {
+      this.alarmTopic!.addSubscription(new subscriptions.EmailSubscription(email));
+    });
+    props.alarmHttpsEndpoints?.forEach(url => {
+      this.alarmTopic!.addSubscription(new subscriptions.UrlSubscription(url, { protocol: sns.SubscriptionProtocol.HTTPS }));
+    });
+
+    // Lambda function for automatic quota increase requests, shared by all opted-in models
+    if (regions.includes(stackRegion) && props.dashboardConfigs.some(config => config.quotaIncrease)) {
+      this.quotaIncreaser = new lambda.Function(this, 'QuotaIncreaser', {
+        runtime: lambda.Runtime.PYTHON_3_13,
+        handler: 'quota-increase-lambda.handler',
+        timeout: cdk.Duration.minutes(1),
+        code: lambda.Code.fromAsset(path.join(__dirname, 'lambda')),
+        architecture: lambda.Architecture.ARM_64,
+        environment: this.alarmTopic ? { NOTIFICATION_TOPIC_ARN: this.alarmTopic.topicArn } : undefined,
+      });
+
+      this.quotaIncreaser.addToRolePolicy(
+        new iam.PolicyStatement({
+          actions: [
+            'servicequotas:GetServiceQuota',
+            'servicequotas:ListRequestedServiceQuotaChangeHistoryByQuota',
+            'servicequotas:RequestServiceQuotaIncrease',
+          ],
+          resources: ['*'], // Quotas does not support resource-level permissions
+        })
+      );
+      this.alarmTopic?.grantPublish(this.quotaIncreaser);
+    }
+    let quotaIncreaseCount = 0;
+
+    // Models whose utilization or quota increase alarms divide by their quota, keyed by model ID
+    const alarmQuotaModels = new Map<string, QuotaFetchModel>();
+
+    // Track models with missing quota codes for summary logging
+    const modelsWithMissingQuotas: string[] = [];
+
+    // Model widgets are buffered per dashboard group, in order of each group's first config
+    const isGrouped = props.dashboardConfigs.some(config => config.group !== undefined);
+    const sections = new Map<string, DashboardSection>();
+    props.dashboardConfigs.forEach(config => {
+      const group = config.group ?? UNGROUPED_DASHBOARD_GROUP;
+      if (!sections.has(group)) {
+        sections.set(group, { widgetRows: [], overviewEntries: [] });
+      }
+    });
+
+    // Profiles whose SEARCH expressions the discovery function keeps up to date
+    const discoveryProfiles: DiscoveryProfile[] = [];
+
+    // Models are shown grouped by provider, whatever the config order; iterating over config
+    // indices keeps construct IDs stable when configs are reordered
+    const providerNames = props.dashboardConfigs.map(config => getModelProviderName(config.modelConfig));
+    const displayOrder = props.dashboardConfigs
+      .map((_, index) => index)
+      .sort((a, b) => compareProviderNames(providerNames[a], providerNames[b]) || a - b);
+
+    // Create a section of widgets per region
+    regionalConfigs.forEach(({ region, configs }) => {
+      // Cross-region metric queries need an explicit region on every metric
+      const metricRegion = isMultiRegion ? region : undefined;
+      const regionSuffix = isMultiRegion ? ` (${region})` : '';
+
+      // Create widgets for each dashboard configuration
+      displayOrder.forEach(configIndex => {
+        const config = configs[configIndex];
+        const fullModelId = getFullModelId(config.modelConfig, config.endpointType, region);
+        const quotaCodes = getQuotaCodes(config.modelConfig, config.endpointType);
+        const providerName = providerNames[configIndex];
+        const section = sections.get(config.group ?? UNGROUPED_DASHBOARD_GROUP)!;
+
+        // Add a region banner, and start over with provider banners, when entering a new region
+        if (isMultiRegion && section.region !== region) {
+          section.region = region;
+          section.provider = undefined;
+          section.widgetRows.push([
+            new cloudwatch.TextWidget({
+              markdown: `# Region: ${region}`,
+              width: 24,
+              height: 1,
+            }),
+          ]);
+        }
+
+        // Skip if no quota codes found
+        if (!quotaCodes) {
+          console.warn(`[QUOTA_ERROR] Model '${config.modelConfig.modelId}' does not support endpoint type '${config.endpointType}' or quota codes are missing`);
+          modelsWithMissingQuotas.push(`${config.modelConfig.modelId} (${config.endpointType}) in ${region}`);
+          return;
+        }
+
+        // Get burndown rate from model config
+        const burndownRate = config.modelConfig.outputTokenBurndownRate;
+
+        // Cache reads only count toward the token quota for some models
+        const cacheReadsCountTowardQuota = config.modelConfig.cacheReadsCountTowardQuota === true;
+
+        // Output tokens reserved per invocation when MaxTokens is missing, if estimating
+        const defaultMaxTokens = config.defaultMaxTokens
+          ?? (props.estimateMissingMaxTokens ? config.modelConfig.defaultMaxOutputTokens : undefined);
+        if (props.estimateMissingMaxTokens && defaultMaxTokens === undefined) {
+          console.warn(`[MAX_TOKENS_ESTIMATE] ${fullModelId}: No defaultMaxOutputTokens in the registry or defaultMaxTokens in the config; Initial Reservation is not estimated`);
+        }
+
+        // Check if we have application profiles to aggregate
+        const hasApplicationProfiles = config.applicationProfileIds && config.applicationProfileIds.length > 0;
+        const allProfileIds = hasApplicationProfiles
+          ? [fullModelId, ...config.applicationProfileIds!]
+          : [fullModelId];
+
+        // Add banner when entering a new provider
+        if (providerName !== section.provider) {
+          section.provider = providerName;
+          section.widgetRows.push([
+            new cloudwatch.TextWidget({
+              markdown: `${isMultiRegion ? '##' : '#'} ${providerName}`,
+              width: 24,
+              height: 1,
+            }),
+          ]);
+        }
+
+        // Create CloudWatch metrics for quota values (updated daily by Lambda)
+        const tokenQuotaMetric = new cloudwatch.Metric({
+          namespace,
+          region: metricRegion,
+          metricName: 'TokenQuota',
+          dimensionsMap: {
+            ModelId: fullModelId,
+          },
+          statistic: 'Maximum',
+          period: cdk.Duration.minutes(1),
+          label: 'Quota Limit',
+          color: cloudwatch.Color.RED,
+        });
+
+        const requestQuotaMetric = new cloudwatch.Metric({
+          namespace,
+          region: metricRegion,
+          metricName: 'RequestQuota',
+          dimensionsMap: {
+            ModelId: fullModelId,
+          },
+          statistic: 'Maximum',
+          period: cdk.Duration.minutes(1),
+          label: 'Quota Limit',
+          color: cloudwatch.Color.RED,
+        });
+
+        // AWS default quotas and open increase requests, published alongside the applied quotas
+        const defaultTokenQuotaMetric = new cloudwatch.Metric({
+          namespace,
+          region: metricRegion,
+          metricName: 'DefaultTokenQuota',
+          dimensionsMap: {
+            ModelId: fullModelId,
+          },
+          statistic: 'Maximum',
+          period: cdk.Duration.minutes(1),
+        });
+
+        const defaultRequestQuotaMetric = new cloudwatch.Metric({
+          namespace,
+          region: metricRegion,
+          metricName: 'DefaultRequestQuota',
+          dimensionsMap: {
+            ModelId: fullModelId,
+          },
+          statistic: 'Maximum',
+          period: cdk.Duration.minutes(1),
+        });
+
+        const pendingTokenRequestsMetric = new cloudwatch.Metric({
+          namespace,
+          region: metricRegion,
+          metricName: 'PendingTokenQuotaIncreaseRequests',
+          dimensionsMap: {
+            ModelId: fullModelId,
+          },
+          statistic: 'Maximum',
+          period: cdk.Duration.minutes(1),
+        });
+
+        const pendingRequestRequestsMetric = new cloudwatch.Metric({
+          namespace,
+          region: metricRegion,
+          metricName: 'PendingRequestQuotaIncreaseRequests',
+          dimensionsMap: {
+            ModelId: fullModelId,
+          },
+          statistic: 'Maximum',
+          period: cdk.Duration.minutes(1),
+        });
+
+        // Helper function to create metrics for a specific profile ID
+        const createProfileMetrics = (profileId: string) => ({
+          inputTokens: new cloudwatch.Metric({
+            namespace: 'AWS/Bedrock',
+            metricName: 'InputTokenCount',
+            dimensionsMap: { ModelId: profileId },
+            region: metricRegion,
+            statistic: 'Sum',
+            period: cdk.Duration.minutes(1),
+          }),
+          cacheWriteTokens: new cloudwatch.Metric({
+            namespace: 'AWS/Bedrock',
+            metricName: 'CacheWriteInputTokenCount',
+            dimensionsMap: { ModelId: profileId },
+            region: metricRegion,
+            statistic: 'Sum',
+            period: cdk.Duration.minutes(1),
+          }),
+          cacheReadTokens: new cloudwatch.Metric({
+            namespace: 'AWS/Bedrock',
+            metricName: 'CacheReadInputTokenCount',
+            dimensionsMap: { ModelId: profileId },
+            region: metricRegion,
+            statistic: 'Sum',
+            period: cdk.Duration.minutes(1),
+          }),
+          outputTokens: new cloudwatch.Metric({
+            namespace: 'AWS/Bedrock',
+            metricName: 'OutputTokenCount',
+            dimensionsMap: { ModelId: profileId },
+            region: metricRegion,
+            statistic: 'Sum',
+            period: cdk.Duration.minutes(1),
+          }),
+          maxTokens: new cloudwatch.Metric({
+            namespace,
+            metricName: 'MaxTokens',
+            dimensionsMap: { ModelId: profileId },
+            region: metricRegion,
+            statistic: 'Sum',
+            period: cdk.Duration.minutes(1),
+          }),
+          invocations: new cloudwatch.Metric({
+            namespace: 'AWS/Bedrock',
+            metricName: 'Invocations',
+            dimensionsMap: { ModelId: profileId },
+            region: metricRegion,
+            statistic: 'Sum',
+            period: cdk.Duration.minutes(1),
+          }),
+          throttles: new cloudwatch.Metric({
+            namespace: 'AWS/Bedrock',
+            metricName: 'InvocationThrottles',
+            dimensionsMap: { ModelId: profileId },
+            region: metricRegion,
+            statistic: 'Sum',
+            period: cdk.Duration.minutes(1),
+          }),
+          clientErrors: new cloudwatch.Metric({
+            namespace: 'AWS/Bedrock',
+            metricName: 'InvocationClientErrors',
+            dimensionsMap: { ModelId: profileId },
+            region: metricRegion,
+            statistic: 'Sum',
+            period: cdk.Duration.minutes(1),
+          }),
+          serverErrors: new cloudwatch.Metric({
+            namespace: 'AWS/Bedrock',
+            metricName: 'InvocationServerErrors',
+            dimensionsMap: { ModelId: profileId },
+            region: metricRegion,
+            statistic: 'Sum',
+            period: cdk.Duration.minutes(1),
+          }),
+          latency: new cloudwatch.Metric({
+            namespace: 'AWS/Bedrock',
+            metricName: 'InvocationLatency',
+            dimensionsMap: { ModelId: profileId },
+            region: metricRegion,
+            statistic: 'Average',
+            period: cdk.Duration.minutes(1),
+          }),
+        });
+
+        // Create metrics for all profiles
+        const allProfileMetrics = allProfileIds.map((id, index) => ({
+          id,
+          metrics: createProfileMetrics(id),
+          suffix: index === 0 ? '' : `_${index}`, // Suffix for metric variable names
+        }));
+
+        // Usage metrics over the profiles known at synth time, used by alarms and quota increases
+        let usage: UsageMetrics;
+
+        if (hasApplicationProfiles) {
+          // Aggregate metrics across all profiles, keyed per metric type so each
+          // expression only references the metrics it uses
+          const metricsByType: SummedMetrics = {
+            inputTokens: {},
+            cacheWriteTokens: {},
+            cacheReadTokens: {},
+            outputTokens: {},
+            maxTokens: {},
+            invocations: {},
+            throttles: {},
+            clientErrors: {},
+            serverErrors: {},
+          };
+          const reservationIds: ReservationIds[] = [];
+
+          allProfileMetrics.forEach(({ metrics, suffix }) => {
+            const ids: ReservationIds = { maxTokensId: `maxTokens${suffix}`, invocationsId: `invocations${suffix}` };
+            reservationIds.push(ids);
+            metricsByType.inputTokens[`inputTokens${suffix}`] = metrics.inputTokens;
+            metricsByType.cacheWriteTokens[`cacheWriteTokens${suffix}`] = metrics.cacheWriteTokens;
+            metricsByType.cacheReadTokens[`cacheReadTokens${suffix}`] = metrics.cacheReadTokens;
+            metricsByType.outputTokens[`outputTokens${suffix}`] = metrics.outputTokens;
+            metricsByType.maxTokens[ids.maxTokensId] = metrics.maxTokens;
+            metricsByType.invocations[ids.invocationsId] = metrics.invocations;
+            metricsByType.throttles[`throttles${suffix}`] = metrics.throttles;
+            metricsByType.clientErrors[`clientErrors${suffix}`] = metrics.clientErrors;
+            metricsByType.serverErrors[`serverErrors${suffix}`] = metrics.serverErrors;
+          });
+
+          // Average latency across profiles, weighted by each profile's invocations
+          const latencyMetrics: { [key: string]: cloudwatch.IMetric } = {};
+          const weightedLatency = allProfileMetrics.map(({ metrics, suffix }) => {
+            latencyMetrics[`latency${suffix}`] = metrics.latency;
+            latencyMetrics[`invocations${suffix}`] = metrics.invocations;
+            return `FILL(latency${suffix}, 0) * FILL(invocations${suffix}, 0)`;
+          }).join(' + ');
+
+          const averageLatency = new cloudwatch.MathExpression({
+            expression: `(${weightedLatency}) / (${Object.keys(metricsByType.invocations).join(' + ')})`,
+            usingMetrics: latencyMetrics,
+            label: `Average Latency (${allProfileIds.length} profiles)`,
+            period: cdk.Duration.minutes(1),
+          });
+
+          usage = sumUsageMetrics(metricsByType, reservationIds, averageLatency, {
+            burndownRate,
+            cacheReadsCountTowardQuota,
+            profilesLabel: `${allProfileIds.length} profiles`,
+            defaultMaxTokens,
+          });
+
+          console.log(`[PROFILE_AGGREGATION] ${fullModelId}: Aggregating ${allProfileIds.length} profiles (1 system + ${config.applicationProfileIds!.length} application)`);
+        } else {
+          // Single profile - use simple metrics
+          const { metrics } = allProfileMetrics[0];
+
+          // Input side of the quota, optionally including cache reads
+          const quotaInput = cacheReadsCountTowardQuota
+            ? 'inputTokens + cacheWriteTokens + cacheReadTokens'
+            : 'inputTokens + cacheWriteTokens';
+          const quotaInputMetrics: { [key: string]: cloudwatch.IMetric } = {
+            inputTokens: metrics.inputTokens,
+            cacheWriteTokens: metrics.cacheWriteTokens,
+            ...(cacheReadsCountTowardQuota ? { cacheReadTokens: metrics.cacheReadTokens } : {}),
+          };
+
+          usage = {
+            actualConsumption: new cloudwatch.MathExpression({
+              expression: `${quotaInput} + (outputTokens * ${burndownRate})`,
+              usingMetrics: {
+                ...quotaInputMetrics,
+                outputTokens: metrics.outputTokens,
+              },
+              label: 'Actual Consumption',
+              period: cdk.Duration.minutes(1),
+            }),
+            initialReservation: new cloudwatch.MathExpression({
+              expression: defaultMaxTokens
+                ? `${quotaInput} + ${estimatedMaxTokens('maxTokens', 'invocations', defaultMaxTokens)}`
+                : `${quotaInput} + maxTokens`,
+              usingMetrics: {
+                ...quotaInputMetrics,
+                maxTokens: metrics.maxTokens,
+                ...(defaultMaxTokens ? { invocations: metrics.invocations } : {}),
+              },
+              label: defaultMaxTokens ? `Initial Reservation (${ESTIMATED_RESERVATION_LABEL})` : 'Initial Reservation',
+              period: cdk.Duration.minutes(1),
+            }),
+            invocations: metrics.invocations,
+            throttles: metrics.throttles.with({ label: 'Throttles', color: cloudwatch.Color.RED }),
+            clientErrors: metrics.clientErrors.with({ label: 'Client Errors', color: cloudwatch.Color.ORANGE }),
+            serverErrors: metrics.serverErrors.with({ label: 'Server Errors', color: cloudwatch.Color.PURPLE }),
+            latency: metrics.latency.with({ label: 'Average Latency' }),
+            inputTokens: metrics.inputTokens.with({ label: 'Uncached Input Tokens' }),
+            cacheReads: metrics.cacheReadTokens.with({ label: 'Cache Read Tokens' }),
+            cacheWrites: metrics.cacheWriteTokens.with({ label: 'Cache Write Tokens' }),
+            quotaInput: new cloudwatch.MathExpression({
+              expression: quotaInput,
+              usingMetrics: quotaInputMetrics,
+              label: 'Quota Input Tokens',
+              period: cdk.Duration.minutes(1),
+            }),
+            reservedOutput: defaultMaxTokens
+              ? new cloudwatch.MathExpression({
+                expression: estimatedMaxTokens('maxTokens', 'invocations', defaultMaxTokens),
+                usingMetrics: { maxTokens: metrics.maxTokens, invocations: metrics.invocations },
+                label: 'Reserved Output Tokens',
+                period: cdk.Duration.minutes(1),
+              })
+              : metrics.maxTokens.with({ label: 'Reserved Output Tokens' }),
+            outputTokens: metrics.outputTokens.with({ label: 'Output Tokens' }),
+          };
+        }
+
+        // With discovery, the graphs sum the profiles found by SEARCH expressions that the
+        // discovery function keeps up to date; alarms cannot use SEARCH and keep the static metrics
+        const graphUsage = props.applicationProfileDiscovery
+          ? searchUsageMetrics(allProfileIds, namespace, metricRegion, { burndownRate, cacheReadsCountTowardQuota, profilesLabel: 'discovered profiles', defaultMaxTokens })
+          : usage;
+        if (props.applicationProfileDiscovery) {
+          discoveryProfiles.push({ region, systemProfileId: fullModelId, applicationProfileIds: config.applicationProfileIds ?? [] });
+        }
+        const {
+          actualConsumption,
+          initialReservation,
+          invocations: totalInvocations,
+          throttles: totalThrottles,
+          clientErrors: totalClientErrors,
+          serverErrors: totalServerErrors,
+          latency: averageLatency,
+          inputTokens: totalInputTokens,
+          cacheReads: totalCacheReads,
+          cacheWrites: totalCacheWrites,
+          quotaInput: totalQuotaInput,
+          reservedOutput: totalReservedOutput,
+          outputTokens: totalOutputTokens,
+        } = graphUsage;
+
+        // Share of all input tokens served from the prompt cache
+        const cacheHitRatio = new cloudwatch.MathExpression({
+          expression: '100 * FILL(cacheReads, 0) / (FILL(uncachedInput, 0) + FILL(cacheReads, 0) + FILL(cacheWrites, 0))',
+          usingMetrics: { uncachedInput: totalInputTokens, cacheReads: totalCacheReads, cacheWrites: totalCacheWrites },
+          label: 'Cache Hit Ratio (%)',
+          color: cloudwatch.Color.GREEN,
+          period: cdk.Duration.minutes(1),
+        });
+
+        // Wrap quota metrics with FILL to create continuous horizontal lines
+        const tokenQuotaLine = new cloudwatch.MathExpression({
+          expression: 'FILL(tokenQuota, REPEAT)',
+          usingMetrics: {
+            tokenQuota: tokenQuotaMetric,
+          },
+          label: 'Quota Limit (Tokens)',
+          color: cloudwatch.Color.RED,
+          period: cdk.Duration.minutes(1),
+        });
+
+        const requestQuotaLine = new cloudwatch.MathExpression({
+          expression: 'FILL(requestQuota, REPEAT)',
+          usingMetrics: {
+            requestQuota: requestQuotaMetric,
+          },
+          label: 'Quota Limit (Requests)',
+          color: cloudwatch.Color.RED,
+          period: cdk.Duration.minutes(1),
+        });
+
+        const defaultTokenQuotaLine = new cloudwatch.MathExpression({
+          expression: 'FILL(defaultTokenQuota, REPEAT)',
+          usingMetrics: {
+            defaultTokenQuota: defaultTokenQuotaMetric,
+          },
+          label: 'AWS Default Quota (Tokens)',
+          color: cloudwatch.Color.GREY,
+          period: cdk.Duration.minutes(1),
+        });
+
+        const defaultRequestQuotaLine = new cloudwatch.MathExpression({
+          expression: 'FILL(defaultRequestQuota, REPEAT)',
+          usingMetrics: {
+            defaultRequestQuota: defaultRequestQuotaMetric,
+          },
+          label: 'AWS Default Quota (Requests)',
+          color: cloudwatch.Color.GREY,
+          period: cdk.Duration.minutes(1),
+        });
+
+        // Above 1 when the account runs on an increased token quota
+        const tokenQuotaIncrease = new cloudwatch.MathExpression({
+          expression: 'tokenQuotaLimit / defaultTokenQuotaLimit',
+          usingMetrics: { tokenQuotaLimit: tokenQuotaLine, defaultTokenQuotaLimit: defaultTokenQuotaLine },
+          label: 'Token Quota (× AWS default)',
+          period: cdk.Duration.minutes(1),
+        });
+
+        const pendingTokenIncreaseRequests = new cloudwatch.MathExpression({
+          expression: 'FILL(pendingTokenRequests, REPEAT)',
+          usingMetrics: { pendingTokenRequests: pendingTokenRequestsMetric },
+          label: 'Pending Token Quota Increase Requests',
+          period: cdk.Duration.minutes(1),
+        });
+
+        const pendingRequestIncreaseRequests = new cloudwatch.MathExpression({
+          expression: 'FILL(pendingRequestRequests, REPEAT)',
+          usingMetrics: { pendingRequestRequests: pendingRequestRequestsMetric },
+          label: 'Pending Request Quota Increase Requests',
+          period: cdk.Duration.minutes(1),
+        });
+
+        // Utilization as a percentage of the quota
+        const utilizationOf = (metrics: UsageMetrics) => ({
+          reservation: new cloudwatch.MathExpression({
+            expression: '100 * reservation / tokenQuotaLimit',
+            usingMetrics: { reservation: metrics.initialReservation, tokenQuotaLimit: tokenQuotaLine },
+            label: 'Initial Reservation (% of quota)',
+            period: cdk.Duration.minutes(1),
+          }),
+          consumption: new cloudwatch.MathExpression({
+            expression: '100 * consumption / tokenQuotaLimit',
+            usingMetrics: { consumption: metrics.actualConsumption, tokenQuotaLimit: tokenQuotaLine },
+            label: 'Actual Consumption (% of quota)',
+            period: cdk.Duration.minutes(1),
+          }),
+          requests: new cloudwatch.MathExpression({
+            expression: '100 * requests / requestQuotaLimit',
+            usingMetrics: { requests: metrics.invocations, requestQuotaLimit: requestQuotaLine },
+            label: 'Invocations (% of quota)',
+            period: cdk.Duration.minutes(1),
+          }),
+        });
+        const utilization = utilizationOf(usage);
+        const graphUtilization = graphUsage === usage ? utilization : utilizationOf(graphUsage);
+        const { reservation: reservationUtilization, consumption: consumptionUtilization, requests: requestUtilization } = graphUtilization;
+
+        // Alarms are evaluated in the stack's region and cannot query other regions
+        const alarmThresholds = config.alarms === false
+          ? undefined
+          : (config.alarms || props.alarms) && { ...props.alarms, ...config.alarms };
+        if (alarmThresholds && region !== stackRegion) {
+          console.warn(`[ALARM_WARNING] Skipping alarms for '${fullModelId}' in ${region} - alarms can only use metrics from ${stackRegion}`);
+        } else if (alarmThresholds) {
+          this.alarms.push(...createUtilizationAlarms(
+            new Construct(this, `UtilizationAlarms-${region}-${configIndex}`),
+            fullModelId,
+            {
+              Reservation: { description: 'Initial Reservation', metric: utilization.reservation },
+              Consumption: { description: 'Actual Consumption', metric: utilization.consumption },
+              Requests: { description: 'Invocations', metric: utilization.requests },
+            },
+            alarmThresholds,
+            this.alarmTopic
+          ));
+          alarmQuotaModels.set(fullModelId, { modelId: fullModelId, tokenQuotaCode: quotaCodes.tokenQuotaCode, requestQuotaCode: quotaCodes.requestQuotaCode });
+        }
+
+        // Automatic token quota increase on sustained high reservation or consumption
+        const tokenQuotaCode = quotaCodes.tokenQuotaCode;
+        if (config.quotaIncrease) {
+          if (region !== stackRegion) {
+            console.warn(`[QUOTA_INCREASE_WARNING] Skipping automatic quota increase for '${fullModelId}' in ${region} - alarms can only use metrics from ${stackRegion}`);
+          } else if (!tokenQuotaCode) {
+            console.warn(`[QUOTA_INCREASE_WARNING] Skipping automatic quota increase for '${fullModelId}' - missing tokenQuotaCode`);
+          } else {
+            createQuotaIncreaseTrigger(
+              new Construct(this, `QuotaIncrease-${configIndex}`),
+              fullModelId,
+              tokenQuotaCode,
+              {
+                Reservation: { description: 'Initial Reservation', metric: utilization.reservation },
+                Consumption: { description: 'Actual Consumption', metric: utilization.consumption },
+              },
+              config.quotaIncrease,
+              this.quotaIncreaser!
+            );
+            alarmQuotaModels.set(fullModelId, { modelId: fullModelId, tokenQuotaCode, requestQuotaCode: quotaCodes.requestQuotaCode });
+            quotaIncreaseCount++;
+          }
+        }
+
+        // Build widget title with profile count if aggregating
+        const titleSuffix = props.applicationProfileDiscovery
+          ? ' (discovered profiles aggregated)'
+          : hasApplicationProfiles
+            ? ` (${allProfileIds.length} profiles aggregated)`
+            : '';
+
+        // Registry variants such as the 1M context length share their base model's ID
+        const modelKey = findModelKey(config.modelConfig);
+        section.overviewEntries.push({
+          configKey: `${modelKey ? `${modelKey.provider}.${modelKey.modelKey}` : config.modelConfig.modelId}/${config.endpointType}/${region}`,
+          label: `${fullModelId}${regionSuffix}`,
+          reservation: reservationUtilization,
+          consumption: consumptionUtilization,
+          requests: requestUtilization,
+          tokenQuotaIncrease,
+          pendingTokenIncreaseRequests,
+          pendingRequestIncreaseRequests,
+        });
+        this.utilization.push({ region, modelId: fullModelId, group: config.group, ...graphUtilization });
+
+        // Reference lines for the quota and any alarm thresholds
+        const utilizationAnnotations: cloudwatch.HorizontalAnnotation[] = [
+          { value: 100, label: 'Quota', color: cloudwatch.Color.RED },
+        ];
+        if (alarmThresholds && region === stackRegion) {
+          utilizationAnnotations.push(
+            { value: alarmThresholds.warningPercent ?? DEFAULT_WARNING_PERCENT, label: 'Warning', color: cloudwatch.Color.ORANGE },
+            { value: alarmThresholds.criticalPercent ?? DEFAULT_CRITICAL_PERCENT, label: 'Critical', color: cloudwatch.Color.PINK },
+          );
+        }
+        if (config.quotaIncrease && region === stackRegion) {
+          utilizationAnnotations.push(
+            { value: config.quotaIncrease.thresholdPercent ?? DEFAULT_QUOTA_INCREASE_PERCENT, label: 'Auto Increase', color: cloudwatch.Color.BLUE },
+          );
+        }
+
+        // Add widgets to dashboard with quota metrics on left axis
+        section.widgetRows.push([
+          // All three widgets on the same row
+          new cloudwatch.GraphWidget({
+            title: `${fullModelId}${regionSuffix} - Initial Reservation${defaultMaxTokens ? ' (estimated)' : ''}${titleSuffix}`,
+            left: [initialReservation, tokenQuotaLine, defaultTokenQuotaLine],
+            width: 8,
+            height: 6,
+            leftYAxis: {
+              label: 'Quota Units (Tokens/min)',
+              min: 0,
+            },
+            period: cdk.Duration.minutes(1),
+          }),
+          new cloudwatch.GraphWidget({
+            title: `${fullModelId}${regionSuffix} - Actual Consumption${titleSuffix}`,
+            left: [actualConsumption, tokenQuotaLine, defaultTokenQuotaLine],
+            width: 8,
+            height: 6,
+            leftYAxis: {
+              label: 'Quota Units (Tokens/min) - Does not include ongoing requests',
+              min: 0,
+            },
+            period: cdk.Duration.minutes(1),
+          }),
+          new cloudwatch.GraphWidget({
+            title: `${fullModelId}${regionSuffix} - Request Quota Consumption${titleSuffix}`,
+            left: [totalInvocations, requestQuotaLine, defaultRequestQuotaLine],
+            width: 8,
+            height: 6,
+            leftYAxis: {
+              label: 'Quota Units (Requests/min)',
+              min: 0,
+            },
+            period: cdk.Duration.minutes(1),
+          }),
+        ]);
+
+        // Utilization percentages make models with different quotas comparable, and
+        // throttles overlaid on the reservation show whether max_tokens causes throttling
+        section.widgetRows.push([
+          new cloudwatch.GraphWidget({
+            title: `${fullModelId}${regionSuffix} - Quota Utilization (%)${titleSuffix}`,
+            left: [reservationUtilization, consumptionUtilization, requestUtilization],
+            leftAnnotations: utilizationAnnotations,
+            width: 6,
+            height: 6,
+            leftYAxis: {
+              label: '% of quota',
+              min: 0,
+            },
+            period: cdk.Duration.minutes(1),
+          }),
+          new cloudwatch.GraphWidget({
+            title: `${fullModelId}${regionSuffix} - Throttles & Errors vs Reservation${titleSuffix}`,
+            left: [totalThrottles, totalClientErrors, totalServerErrors],
+            right: [reservationUtilization],
+            rightAnnotations: [{ value: 100, label: 'Token Quota', color: cloudwatch.Color.RED }],
+            width: 6,
+            height: 6,
+            leftYAxis: {
+              label: 'Count/min',
+              min: 0,
+            },
+            rightYAxis: {
+              label: 'Initial Reservation (% of quota)',
+              min: 0,
+            },
+            period: cdk.Duration.minutes(1),
+          }),
+          new cloudwatch.GraphWidget({
+            title: `${fullModelId}${regionSuffix} - Invocation Latency${titleSuffix}`,
+            left: [averageLatency],
+            width: 6,
+            height: 6,
+            leftYAxis: {
+              label: 'Milliseconds',
+              min: 0,
+            },
+            period: cdk.Duration.minutes(1),
+          }),
+          new cloudwatch.GraphWidget({
+            title: `${fullModelId}${regionSuffix} - Prompt Caching${titleSuffix}`,
+            left: [totalInputTokens, totalCacheReads, totalCacheWrites],
+            right: [cacheHitRatio],
+            width: 6,
+            height: 6,
+            leftYAxis: {
+              label: cacheReadsCountTowardQuota ? 'Tokens/min' : 'Tokens/min - cache reads do not count toward quota',
+              min: 0,
+            },
+            rightYAxis: {
+              label: 'Cache Hit Ratio (%)',
+              min: 0,
+              max: 100,
+            },
+            period: cdk.Duration.minutes(1),
+          }),
+        ]);
+
+        if (config.maxTokensAnalysis) {
+          // Output reserved per request compared with what requests actually generate, as 0 in
+          // minutes without requests instead of dividing by zero
+          const averageReservedOutput = new cloudwatch.MathExpression({
+            expression: 'IF(requests > 0, reserved / requests, 0)',
+            usingMetrics: { reserved: totalReservedOutput, requests: totalInvocations },
+            label: `Average max_tokens${defaultMaxTokens ? ` (${ESTIMATED_RESERVATION_LABEL})` : ''}`,
+            period: cdk.Duration.minutes(1),
+          });
+          const averageOutput = new cloudwatch.MathExpression({
+            expression: 'IF(requests > 0, output / requests, 0)',
+            usingMetrics: { output: totalOutputTokens, requests: totalInvocations },
+            label: 'Average Output Tokens',
+            color: cloudwatch.Color.GREEN,
+            period: cdk.Duration.minutes(1),
+          });
+          const wastedReservation = new cloudwatch.MathExpression({
+            expression: 'IF(reserved > 0, 100 * (reserved - output) / reserved, 0)',
+            usingMetrics: { reserved: totalReservedOutput, output: totalOutputTokens },
+            label: 'Wasted Reservation (%)',
+            color: cloudwatch.Color.ORANGE,
+            period: cdk.Duration.minutes(1),
+          });
+
+          // Largest max_tokens whose reservation would have stayed within the token quota in each
+          // minute, given that minute's input tokens and invocations; the busiest minute sets the recommendation
+          const maxTokensWithinQuota = new cloudwatch.MathExpression({
+            expression: 'IF(tokenQuotaLimit > quotaInput, (tokenQuotaLimit - quotaInput) / requests, 0)',
+            usingMetrics: { tokenQuotaLimit: tokenQuotaLine, quotaInput: totalQuotaInput, requests: totalInvocations },
+            label: 'max_tokens within Quota',
+            period: cdk.Duration.minutes(1),
+          });
+          const recommendedMaxTokens = new cloudwatch.MathExpression({
+            expression: 'FLOOR(MIN(withinQuota))',
+            usingMetrics: { withinQuota: maxTokensWithinQuota },
+            label: 'Recommended max_tokens (busiest minute)',
+            color: cloudwatch.Color.RED,
+            period: cdk.Duration.minutes(1),
+          });
+
+          section.widgetRows.push([
+            new cloudwatch.GraphWidget({
+              title: `${fullModelId}${regionSuffix} - Reserved vs Actual Output per Request${titleSuffix}`,
+              left: [averageReservedOutput, averageOutput],
+              right: [wastedReservation],
+              width: 12,
+              height: 6,
+              leftYAxis: {
+                label: 'Tokens/request',
+                min: 0,
+              },
+              rightYAxis: {
+                label: 'Wasted Reservation (%)',
+                min: 0,
+                max: 100,
+              },
+              period: cdk.Duration.minutes(1),
+            }),
+            new cloudwatch.GraphWidget({
+              title: `${fullModelId}${regionSuffix} - Recommended max_tokens${titleSuffix}`,
+              left: [maxTokensWithinQuota, recommendedMaxTokens, averageReservedOutput, averageOutput],
+              width: 12,
+              height: 6,
+              leftYAxis: {
+                label: 'Tokens/request',
+                min: 0,
+              },
+              period: cdk.Duration.minutes(1),
+            }),
+          ]);
+        }
+
+        if (config.profileBreakdown && !hasApplicationProfiles) {
+          console.warn(`[PROFILE_BREAKDOWN_WARNING] Skipping profile breakdown for '${fullModelId}' - no application profiles configured`);
+        } else if (config.profileBreakdown) {
+          // Each profile's share of the token quota, stacked so the top edge is the model's total
+          const profileShares = allProfileMetrics.map(({ id, metrics, suffix }, index) => {
+            const quotaInput = [
+              `FILL(inputTokens${suffix}, 0)`,
+              `FILL(cacheWriteTokens${suffix}, 0)`,
+              ...(cacheReadsCountTowardQuota ? [`FILL(cacheReadTokens${suffix}, 0)`] : []),
+            ].join(' + ');
+            return new cloudwatch.MathExpression({
+              expression: `100 * (${quotaInput} + FILL(outputTokens${suffix}, 0) * ${burndownRate}) / tokenQuotaLimit`,
+              usingMetrics: {
+                [`inputTokens${suffix}`]: metrics.inputTokens,
+                [`cacheWriteTokens${suffix}`]: metrics.cacheWriteTokens,
+                ...(cacheReadsCountTowardQuota ? { [`cacheReadTokens${suffix}`]: metrics.cacheReadTokens } : {}),
+                [`outputTokens${suffix}`]: metrics.outputTokens,
+                tokenQuotaLimit: tokenQuotaLine,
+              },
+              label: index === 0 ? `${id} (system profile)` : config.applicationProfileLabels?.[id] || id,
+              period: cdk.Duration.minutes(1),
+            });
+          });
+
+          section.widgetRows.push([
+            new cloudwatch.GraphWidget({
+              title: `${fullModelId}${regionSuffix} - Actual Consumption by Profile (% of quota)`,
+              left: profileShares,
+              leftAnnotations: [{ value: 100, label: 'Quota', color: cloudwatch.Color.RED }],
+              stacked: true,
+              width: 24,
+              height: 6,
+              leftYAxis: {
+                label: '% of token quota',
+                min: 0,
+              },
+              period: cdk.Duration.minutes(1),
+            }),
+          ]);
+        }
+      });
+    });
+
+    // Fleet overview at the top of each dashboard, followed by the per-model sections
+    const addSection = (target: cloudwatch.Dashboard, { widgetRows, overviewEntries }: DashboardSection) => {
+      const overviewRows = overviewEntries.length > 0 ? createOverviewWidgets(overviewEntries) : [];
+      [...overviewRows, ...widgetRows].forEach(row => target.addWidgets(...row));
+    };
+
+    if (!isGrouped) {
+      sections.forEach(section => addSection(dashboard, section));
+    } else {
+      // One dashboard per group, named after the main dashboard
+      const dashboardNames = new Map<string, string>();
+      sections.forEach((section, group) => {
+        const groupDashboardName = `${dashboardName}-${group.replace(/[^A-Za-z0-9_-]+/g, '-')}`;
+        const duplicate = [...dashboardNames].find(([, name]) => name === groupDashboardName);
+        if (duplicate) {
+          throw new Error(`Dashboard groups '${duplicate[0]}' and '${group}' both map to the dashboard name '${groupDashboardName}'`);
+        }
+        dashboardNames.set(group, groupDashboardName);
+
+        const groupDashboard = new cloudwatch.Dashboard(this, `GroupDashboard-${groupDashboardName}`, {
+          dashboardName: groupDashboardName,
+          periodOverride: cloudwatch.PeriodOverride.INHERIT,
+        });
+        addSection(groupDashboard, section);
+        this.groupDashboards[group] = groupDashboard;
+      });
+
+      // The main dashboard links to the group dashboards, above a fleet overview of all models
+      const links = [...sections.keys()].map(group => {
+        const modelCount = props.dashboardConfigs.filter(config => (config.group ?? UNGROUPED_DASHBOARD_GROUP) === group).length;
+        return `| [${group}](${getDashboardUrl(stackRegion, dashboardNames.get(group)!)}) | ${modelCount} |`;
+      });
+      dashboard.addWidgets(new cloudwatch.TextWidget({
+        markdown: ['# Bedrock Quota Dashboards', '| Dashboard | Models |', '|---|---|', ...links].join('\n'),
+        width: 24,
+        height: links.length + 3,
+      }));
+
+      // A config shown in several groups is listed once
+      const overviewEntries = new Map<string, OverviewEntry>();
+      sections.forEach(section => section.overviewEntries.forEach(entry => {
+        if (!overviewEntries.has(entry.configKey)) {
+          overviewEntries.set(entry.configKey, entry);
+        }
+      }));
+      addSection(dashboard, { widgetRows: [], overviewEntries: [...overviewEntries.values()] });
+      console.log(`[DASHBOARD_GROUPS] Created ${sections.size} group dashboards linked from ${dashboardName}`);
+    }
+
+    if (props.applicationProfileDiscovery && discoveryProfiles.length > 0) {
+      this.profileDiscoverer = createProfileDiscovery(
+        this,
+        [dashboard, ...Object.values(this.groupDashboards)],
+        discoveryProfiles,
+        props.applicationProfileDiscovery
+      );
+      console.log(`[PROFILE_DISCOVERY] Enabled application profile discovery for ${discoveryProfiles.length} models`);
+    }
+
+    // Log summary of models with missing data
+    if (modelsWithMissingQuotas.length > 0) {
+      console.warn(`[DASHBOARD_GENERATION_WARNING] Skipped ${modelsWithMissingQuotas.length} dashboard widget(s) due to missing quota codes:`);
+      modelsWithMissingQuotas.forEach(model => {
+        console.warn(`  - ${model}`);
+      });
+      console.warn('Dashboard generation continued with remaining models. To fix this, ensure the model supports the specified endpoint type in the region-specific registry file.');
+    }
+
+    const totalConfigured = regionalConfigs.reduce((total, { configs }) => total + configs.length, 0);
+    const totalSkipped = modelsWithMissingQuotas.length;
+    const totalCreated = totalConfigured - totalSkipped;
+
+    if (totalSkipped > 0) {
+      console.warn(`[DASHBOARD_GENERATION_SUMMARY] Created ${totalCreated} dashboard widgets, skipped ${totalSkipped} due to missing data (${totalConfigured} total configured)`);
+    } else {
+      console.log(`[DASHBOARD_GENERATION_SUCCESS] Successfully created ${totalCreated} dashboard widgets for all configured models`);
+    }
+
+    // Keeps a quota datapoint within every alarm evaluation window; only the applied quotas are
+    // fetched, the defaults and pending requests keep the refreshSchedule
+    if (alarmQuotaModels.size > 0) {
+      new events.Rule(this, 'AlarmQuotaRefresh', {
+        schedule: events.Schedule.rate(ALARM_QUOTA_REFRESH_RATE),
+        description: 'Refresh the Bedrock quotas that alarms divide by',
+        targets: [
+          new targets.LambdaFunction(quotaFetcherLambda, {
+            event: events.RuleTargetInput.fromObject({
+              source: 'aws.events',
+              region: stackRegion,
+              models: [...alarmQuotaModels.values()],
+              appliedQuotasOnly: true,
+            }),
+          }),
+        ],
+      });
+    }
+
+    if (this.alarms.length > 0) {
+      console.log(`[ALARM_SUCCESS] Created ${this.alarms.length} utilization alarms${this.alarmTopic ? ' with SNS notifications' : ''}`);
+    }
+
+    if (quotaIncreaseCount > 0) {
+      console.log(`[QUOTA_INCREASE_SUCCESS] Enabled automatic token quota increase requests for ${quotaIncreaseCount} models`);
+    }
+
+    // Suppressions for the IAM and SNS findings of this construct and its children
+    NagSuppressions.addResourceSuppressions(this, [
+      {
+        id: 'AwsSolutions-SNS2',
+        reason: 'CloudWatch alarms cannot publish to topics encrypted with the AWS managed SNS key, and alarm notifications contain no sensitive data',
+      },
+      {
+        id: 'AwsSolutions-IAM4',
+        reason: 'AWS managed policy AWSLambdaBasicExecutionRole is required for Lambda execution and Custom Resource Provider',
+        appliesTo: ['Policy::arn:<AWS::Partition>:iam::aws:policy/service-role/AWSLambdaBasicExecutionRole']
+      },
+      {
+        id: 'AwsSolutions-IAM5',
+        reason: 'Service Quotas API, Bedrock ListInferenceProfiles and CloudWatch PutMetricData require wildcard permissions as they do not support resource-level permissions. Custom Resource Provider requires Lambda invoke permissions with version suffix wildcard.',
+        appliesTo: ['Resource::*', { regex: '/^Resource::<.*(QuotaFetcher|ProfileDiscoverer)[A-Z0-9]+\\.Arn>:\\*$/g' }]
+      }
+    ], true);
+  }
+}
@@ -1,16 +1,120 @@
 // Bedrock Model and Quota Registries
-// This file imports the region-specific model registry
-// 
-// TO DEPLOY TO A DIFFERENT REGION:
-// 1. Create a new region file in ./bedrock-registries/ (e.g., us-west-2.ts)
-// 2. Update the import below to point to your target region
-// 3. Deploy your CDK stack
-
-// CURRENT REGION: US-East-1
-// Change this import to deploy to a different region:
+// This file exposes the region-specific model registries
+//
+// BEDROCK_MODELS (re-exported from us-east-1, the most complete registry) is the
+// model catalogue used to author dashboard configurations. At synth time the stack
+// looks up the same model (by provider and model key) in the registry for the
+// deployment region, so quota codes always match the region being deployed to.
+//
+// TO ADD A REGION:
+// 1. Create a new region file in ./bedrock-registries/ (e.g., eu-west-1.ts)
+// 2. Import its BEDROCK_MODELS and PROVIDER_NAMES below and add them to REGION_REGISTRIES,
+//    with the geography prefix of the region's cross-region inference profiles (crossRegionPrefix)
+// 3. Deploy your CDK stack to that region
+
+import { BEDROCK_MODELS as US_EAST_1_MODELS, PROVIDER_NAMES as US_EAST_1_PROVIDER_NAMES } from './bedrock-registries/us-east-1';
+import { BEDROCK_MODELS as US_WEST_2_MODELS, PROVIDER_NAMES as US_WEST_2_PROVIDER_NAMES } from './bedrock-registries/us-west-2';
+import type { EndpointType, ModelConfig, ModelKey, ModelRegistry, RegionRegistry } from './bedrock-registries/types';
+
 export * from './bedrock-registries/us-east-1';
 
-// For other regions, uncomment the appropriate line:
-// export * from './bedrock-registries/us-west-2';  // ✅ Available
-// export * from './bedrock-registries/eu-west-1';
-// export * from './bedrock-registries/ap-southeast-1';
\ No newline at end of file
+// Registries keyed by AWS region
+const REGION_REGISTRIES: { readonly [region: string]: RegionRegistry } = {
+  'us-east-1': { models: US_EAST_1_MODELS, providerNames: US_EAST_1_PROVIDER_NAMES, crossRegionPrefix: 'us' },
+  'us-west-2': { models: US_WEST_2_MODELS, providerNames: US_WEST_2_PROVIDER_NAMES, crossRegionPrefix: 'us' },
+};
+
+/**
+ * Get the regions that have a model registry
+ * @returns Array of region names, e.g. ['us-east-1', 'us-west-2']
+ */
+export function getSupportedRegions(): string[] {
+  return Object.keys(REGION_REGISTRIES);
+}
+
+/**
+ * Get the model registry for a region
+ * @param region The AWS region, e.g. 'us-east-1'
+ * @returns The region's model registry
+ * @throws Error if no registry exists for the region
+ */
+export function getRegistry(region: string): ModelRegistry {
+  const registry = REGION_REGISTRIES[region];
+  if (!registry) {
+    throw new Error(
+      `No Bedrock model registry found for region '${region}'. ` +
+      `Available regions: ${getSupportedRegions().join(', ')}. ` +
+      `Create lib/bedrock-registries/${region}.ts and add it to REGION_REGISTRIES in lib/bedrock-registries.ts.`
+    );
+  }
+  return registry.models;
+}
+
+/**
+ * Get the geography prefix of cross-region inference profiles for a region
+ * @param region The AWS region, e.g. 'us-west-2'
+ * @returns The prefix without the trailing dot, e.g. 'us' for us.anthropic.claude-...
+ * @throws Error if no registry declares a prefix for the region
+ */
+export function getCrossRegionPrefix(region: string): string {
+  const registry = REGION_REGISTRIES[region];
+  if (!registry) {
+    throw new Error(
+      `No cross-region inference profile prefix known for region '${region}'. ` +
+      `Add the region to REGION_REGISTRIES in lib/bedrock-registries.ts with its crossRegionPrefix.`
+    );
+  }
+  return registry.crossRegionPrefix;
+}
+
+/**
+ * Find where a model config is defined in any region registry
+ * @param modelConfig The model configuration object, e.g. BEDROCK_MODELS.AMAZON.NOVA_LITE_V1
+ * @returns The provider and model key, or null if the object is not a registry entry
+ */
+export function findModelKey(modelConfig: ModelConfig<readonly EndpointType[]>): ModelKey | null {
+  for (const { models: registry } of Object.values(REGION_REGISTRIES)) {
+    for (const [provider, models] of Object.entries(registry)) {
+      for (const [modelKey, config] of Object.entries(models)) {
+        if (config === modelConfig) {
+          return { provider, modelKey };
+        }
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Get the display name of a provider group, e.g. 'Anthropic' for ANTHROPIC
+ * @param provider The provider group key in the registries
+ * @returns The name declared by a region registry, or the key in title case if none declares it
+ */
+export function getProviderName(provider: string): string {
+  for (const { providerNames } of Object.values(REGION_REGISTRIES)) {
+    if (providerNames[provider]) {
+      return providerNames[provider];
+    }
+  }
+  return provider.split('_').map(word => word.charAt(0) + word.slice(1).toLowerCase()).join(' ');
+}
+
+/**
+ * Resolve a model config against the registry for a specific region
+ * @param region The AWS region to resolve for
+ * @param modelConfig A model configuration object from any region registry
+ * @returns The same model's configuration in the region's registry, or null if the
+ *          model is not available in that region
+ * @throws Error if no registry exists for the region
+ */
+export function resolveModelConfig(
+  region: string,
+  modelConfig: ModelConfig<readonly EndpointType[]>
+): ModelConfig<readonly EndpointType[]> | null {
+  const registry = getRegistry(region);
+  const key = findModelKey(modelConfig);
+  if (!key) {
+    return null;
+  }
+  return registry[key.provider]?.[key.modelKey] ?? null;
+}
@@ -61,12 +61,45 @@ interface EnhancedModelConfig<T extends readonly EndpointType[] = EndpointType[]
   readonly modelId: string;
   readonly outputTokenBurndownRate: number;
   readonly supportedEndpoints: T;
+  // Whether CacheReadInputTokenCount counts toward the token quota (default: false)
+  readonly cacheReadsCountTowardQuota?: boolean;
+  // Output tokens reserved for requests that do not set max_tokens (the model's maximum output),
+  // used to estimate Initial Reservation when applications do not publish MaxTokens
+  readonly defaultMaxOutputTokens?: number;
 }
 
 // Intersection type that combines base config with quota properties
 export type ModelConfig<T extends readonly EndpointType[]> = 
   EnhancedModelConfig<T> & QuotaProperties<T>;
 
+// A region registry: provider group (e.g. ANTHROPIC) -> model key (e.g. CLAUDE_SONNET_4_5) -> config
+export type ModelRegistry = {
+  readonly [provider: string]: {
+    readonly [modelKey: string]: ModelConfig<readonly EndpointType[]>;
+  };
+};
+
+// Display names of a registry's provider groups (e.g. ANTHROPIC -> 'Anthropic'), as reported
+// by Bedrock ListFoundationModels; the dashboard groups models under these names
+export type ProviderNames = {
+  readonly [provider: string]: string;
+};
+
+// A region's models and provider names, plus the geography prefix of its cross-region inference
+// profiles (e.g. 'eu' for eu.anthropic.claude-...). Regions can have profiles of several geographies
+// (ap-northeast-1 has both apac. and jp.), so the prefix is declared rather than derived from the name
+export interface RegionRegistry {
+  readonly models: ModelRegistry;
+  readonly providerNames: ProviderNames;
+  readonly crossRegionPrefix: string;
+}
+
+// Location of a model within a registry, stable across regions
+export interface ModelKey {
+  readonly provider: string;
+  readonly modelKey: string;
+}
+
 // =============================================================================
 // UTILITY FUNCTIONS
 // =============================================================================
@@ -80,6 +113,8 @@ export function createModelConfig<T extends readonly EndpointType[]>(
     modelId: string;
     outputTokenBurndownRate: number;
     supportedEndpoints: T;
+    cacheReadsCountTowardQuota?: boolean;
+    defaultMaxOutputTokens?: number;
   } & QuotaProperties<T>
 ): ModelConfig<T> {
   // Validate quota codes for each endpoint and log warnings
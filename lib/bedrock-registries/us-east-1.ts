@@ -2,7 +2,7 @@
 // This file contains all quota codes specific to the us-east-1 region
 
 import { createModelConfig } from './types';
-import type { EndpointType } from './types';
+import type { EndpointType, ProviderNames } from './types';
 
 // Re-export helper functions and types for convenience
 export { 
@@ -10,7 +10,7 @@ export {
   validateModelEndpointSupport, 
   getSupportedEndpointTypes 
 } from './types';
-export type { EndpointType, QuotaCodes, ModelConfig } from './types';
+export type { EndpointType, QuotaCodes, ModelConfig, ModelRegistry, ModelKey, ProviderNames } from './types';
 
 // =============================================================================
 // BEDROCK MODELS REGISTRY FOR US-EAST-1
@@ -22,6 +22,7 @@ export const BEDROCK_MODELS = {
     NOVA_MICRO_V1: createModelConfig({
       modelId: 'amazon.nova-micro-v1:0',
       outputTokenBurndownRate: 1,
+      cacheReadsCountTowardQuota: true,
       supportedEndpoints: ['regional', 'cross-region'],
       regional: { tokenQuotaCode: 'L-CFA4FA0D', requestQuotaCode: 'L-E118F160' },
       crossRegion: { tokenQuotaCode: 'L-DC7FF66C', requestQuotaCode: 'L-3F110E0F' }
@@ -30,6 +31,7 @@ export const BEDROCK_MODELS = {
     NOVA_LITE_V1: createModelConfig({
       modelId: 'amazon.nova-lite-v1:0',
       outputTokenBurndownRate: 1,
+      cacheReadsCountTowardQuota: true,
       supportedEndpoints: ['regional', 'cross-region'],
       regional: { tokenQuotaCode: 'L-70423BF8', requestQuotaCode: 'L-E386A278' },
       crossRegion: { tokenQuotaCode: 'L-7C42E72A', requestQuotaCode: 'L-89F8391A' }
@@ -38,6 +40,7 @@ export const BEDROCK_MODELS = {
     NOVA_PRO_V1: createModelConfig({
       modelId: 'amazon.nova-pro-v1:0',
       outputTokenBurndownRate: 1,
+      cacheReadsCountTowardQuota: true,
       supportedEndpoints: ['regional', 'cross-region'],
       regional: { tokenQuotaCode: 'L-CE33604C', requestQuotaCode: 'L-F2717A44' },
       crossRegion: { tokenQuotaCode: 'L-C0326783', requestQuotaCode: 'L-ED46B8C5' }
@@ -46,6 +49,7 @@ export const BEDROCK_MODELS = {
     NOVA_PREMIER_V1: createModelConfig({
       modelId: 'amazon.nova-premier-v1:0',
       outputTokenBurndownRate: 1,
+      cacheReadsCountTowardQuota: true,
       supportedEndpoints: ['cross-region'],
       crossRegion: { tokenQuotaCode: 'L-AA7FE948', requestQuotaCode: 'L-9AD981E7' }
     }),
@@ -73,6 +77,7 @@ export const BEDROCK_MODELS = {
     CLAUDE_3_HAIKU: createModelConfig({
       modelId: 'anthropic.claude-3-haiku-20240307-v1:0',
       outputTokenBurndownRate: 1,
+      defaultMaxOutputTokens: 4096,
       supportedEndpoints: ['regional', 'cross-region'],
       regional: { tokenQuotaCode: 'L-8CE99163', requestQuotaCode: 'L-2DC80978' },
       crossRegion: { tokenQuotaCode: 'L-DCADBC78', requestQuotaCode: 'L-616A3F5B' }
@@ -81,6 +86,7 @@ export const BEDROCK_MODELS = {
     CLAUDE_3_SONNET: createModelConfig({
       modelId: 'anthropic.claude-3-sonnet-20240229-v1:0',
       outputTokenBurndownRate: 1,
+      defaultMaxOutputTokens: 4096,
       supportedEndpoints: ['regional', 'cross-region'],
       regional: { tokenQuotaCode: 'L-4C35BB2A', requestQuotaCode: 'L-F406804E' },
       crossRegion: { tokenQuotaCode: 'L-5DF13F64', requestQuotaCode: 'L-46591118' }
@@ -89,6 +95,7 @@ export const BEDROCK_MODELS = {
     CLAUDE_3_OPUS: createModelConfig({
       modelId: 'anthropic.claude-3-opus-20240229-v1:0',
       outputTokenBurndownRate: 1,
+      defaultMaxOutputTokens: 4096,
       supportedEndpoints: ['regional', 'cross-region'],
       regional: { tokenQuotaCode: 'L-27477D78', requestQuotaCode: 'L-8050DFC8' },
       crossRegion: { tokenQuotaCode: 'L-6C86825E', requestQuotaCode: 'L-EB15245D' }
@@ -98,6 +105,7 @@ export const BEDROCK_MODELS = {
     CLAUDE_3_5_SONNET_20240620: createModelConfig({
       modelId: 'anthropic.claude-3-5-sonnet-20240620-v1:0',
       outputTokenBurndownRate: 1,
+      defaultMaxOutputTokens: 8192,
       supportedEndpoints: ['regional', 'cross-region'],
       regional: { tokenQuotaCode: 'L-A50569E5', requestQuotaCode: 'L-254CACF4' },
       crossRegion: { tokenQuotaCode: 'L-479B647F', requestQuotaCode: 'L-F457545D' }
@@ -106,6 +114,7 @@ export const BEDROCK_MODELS = {
     CLAUDE_3_5_SONNET_20241022: createModelConfig({
       modelId: 'anthropic.claude-3-5-sonnet-20241022-v2:0',
       outputTokenBurndownRate: 1,
+      defaultMaxOutputTokens: 8192,
       supportedEndpoints: ['regional', 'cross-region'],
       regional: { tokenQuotaCode: 'L-AD41C330', requestQuotaCode: 'L-79E773B3' },
       crossRegion: { tokenQuotaCode: 'L-FF8B4E28', requestQuotaCode: 'L-1D3E59A3' }
@@ -114,6 +123,8 @@ export const BEDROCK_MODELS = {
     CLAUDE_3_5_HAIKU: createModelConfig({
       modelId: 'anthropic.claude-3-5-haiku-20241022-v1:0',
       outputTokenBurndownRate: 1,
+      cacheReadsCountTowardQuota: true,
+      defaultMaxOutputTokens: 8192,
       supportedEndpoints: ['regional', 'cross-region'],
       regional: { tokenQuotaCode: 'L-7AB4ABDD', requestQuotaCode: 'L-C7438F8F' },
       crossRegion: { tokenQuotaCode: 'L-4BF37C17', requestQuotaCode: 'L-252DF594' }
@@ -123,6 +134,7 @@ export const BEDROCK_MODELS = {
     CLAUDE_3_7_SONNET: createModelConfig({
       modelId: 'anthropic.claude-3-7-sonnet-20250219-v1:0',
       outputTokenBurndownRate: 5,
+      defaultMaxOutputTokens: 64000,
       supportedEndpoints: ['cross-region'],
       crossRegion: { tokenQuotaCode: 'L-6E888CC2', requestQuotaCode: 'L-3D8CC480' }
     }),
@@ -131,6 +143,7 @@ export const BEDROCK_MODELS = {
     CLAUDE_HAIKU_4_5: createModelConfig({
       modelId: 'anthropic.claude-haiku-4-5-20251001-v1:0',
       outputTokenBurndownRate: 5,
+      defaultMaxOutputTokens: 64000,
       supportedEndpoints: ['cross-region', 'global-cross-region'],
       crossRegion: { tokenQuotaCode: 'L-58BE175A', requestQuotaCode: 'L-CCA5DF70' },
       globalCrossRegion: { tokenQuotaCode: 'L-9A11C666', requestQuotaCode: 'L-E5084BBA' }
@@ -139,6 +152,7 @@ export const BEDROCK_MODELS = {
     CLAUDE_SONNET_4: createModelConfig({
       modelId: 'anthropic.claude-sonnet-4-20250514-v1:0',
       outputTokenBurndownRate: 5,
+      defaultMaxOutputTokens: 64000,
       supportedEndpoints: ['cross-region', 'global-cross-region'],
       crossRegion: { tokenQuotaCode: 'L-59759B4A', requestQuotaCode: 'L-559DCC33' },
       globalCrossRegion: { tokenQuotaCode: 'L-97E41E39', requestQuotaCode: 'L-C63AA5DA' }
@@ -147,6 +161,7 @@ export const BEDROCK_MODELS = {
     CLAUDE_SONNET_4_5: createModelConfig({
       modelId: 'anthropic.claude-sonnet-4-5-20250929-v1:0',
       outputTokenBurndownRate: 5,
+      defaultMaxOutputTokens: 64000,
       supportedEndpoints: ['cross-region', 'global-cross-region'],
       crossRegion: { tokenQuotaCode: 'L-F4DDD3EB', requestQuotaCode: 'L-4A6BFAB1' },
       globalCrossRegion: { tokenQuotaCode: 'L-27C57EE8', requestQuotaCode: 'L-DB84CE56' }
@@ -155,6 +170,7 @@ export const BEDROCK_MODELS = {
     CLAUDE_SONNET_4_6: createModelConfig({
       modelId: 'anthropic.claude-sonnet-4-6',
       outputTokenBurndownRate: 5,
+      defaultMaxOutputTokens: 64000,
       supportedEndpoints: ['cross-region', 'global-cross-region'],
       crossRegion: { tokenQuotaCode: 'L-15B8E632', requestQuotaCode: 'L-00FF3314' },
       globalCrossRegion: { tokenQuotaCode: 'L-7BEE40FB', requestQuotaCode: 'L-F6E116D7' }
@@ -163,6 +179,7 @@ export const BEDROCK_MODELS = {
     CLAUDE_SONNET_4_6_1M: createModelConfig({
       modelId: 'anthropic.claude-sonnet-4-6',
       outputTokenBurndownRate: 5,
+      defaultMaxOutputTokens: 64000,
       supportedEndpoints: ['cross-region', 'global-cross-region'],
       crossRegion: { tokenQuotaCode: 'L-CE512C9A', requestQuotaCode: 'L-47DE5258' },
       globalCrossRegion: { tokenQuotaCode: 'L-6955C77B', requestQuotaCode: 'L-B117CDDA' }
@@ -171,6 +188,7 @@ export const BEDROCK_MODELS = {
     CLAUDE_OPUS_4: createModelConfig({
       modelId: 'anthropic.claude-opus-4-20250514-v1:0',
       outputTokenBurndownRate: 5,
+      defaultMaxOutputTokens: 32000,
       supportedEndpoints: ['cross-region'],
       crossRegion: { tokenQuotaCode: 'L-29C2B0A3', requestQuotaCode: 'L-C99C7EF6' }
     }),
@@ -178,6 +196,7 @@ export const BEDROCK_MODELS = {
     CLAUDE_OPUS_4_1: createModelConfig({
       modelId: 'anthropic.claude-opus-4-1-20250805-v1:0',
       outputTokenBurndownRate: 5,
+      defaultMaxOutputTokens: 32000,
       supportedEndpoints: ['cross-region'],
       crossRegion: { tokenQuotaCode: 'L-BD85BFCD', requestQuotaCode: 'L-7EC72A47' }
     }),
@@ -185,6 +204,7 @@ export const BEDROCK_MODELS = {
     CLAUDE_OPUS_4_5: createModelConfig({
       modelId: 'anthropic.claude-opus-4-5-20251101-v1:0',
       outputTokenBurndownRate: 5,
+      defaultMaxOutputTokens: 64000,
       supportedEndpoints: ['cross-region', 'global-cross-region'],
       crossRegion: { tokenQuotaCode: 'L-7007E9C9', requestQuotaCode: 'L-27989F42' },
       globalCrossRegion: { tokenQuotaCode: 'L-3ABF6ACC', requestQuotaCode: 'L-58424D95' }
@@ -193,6 +213,7 @@ export const BEDROCK_MODELS = {
     CLAUDE_OPUS_4_6: createModelConfig({
       modelId: 'anthropic.claude-opus-4-6-v1',
       outputTokenBurndownRate: 5,
+      defaultMaxOutputTokens: 128000,
       supportedEndpoints: ['cross-region', 'global-cross-region'],
       crossRegion: { tokenQuotaCode: 'L-0AD9BBE8', requestQuotaCode: 'L-11DFF789' },
       globalCrossRegion: { tokenQuotaCode: 'L-3DCCFAA4', requestQuotaCode: 'L-3DD46812' }
@@ -201,6 +222,7 @@ export const BEDROCK_MODELS = {
     CLAUDE_OPUS_4_6_1M: createModelConfig({
       modelId: 'anthropic.claude-opus-4-6-v1',
       outputTokenBurndownRate: 5,
+      defaultMaxOutputTokens: 128000,
       supportedEndpoints: ['cross-region', 'global-cross-region'],
       crossRegion: { tokenQuotaCode: 'L-7DBBE6A1', requestQuotaCode: 'L-410BCACA' },
       globalCrossRegion: { tokenQuotaCode: 'L-4C59C1F4', requestQuotaCode: 'L-CDA5906C' }
@@ -547,3 +569,23 @@ export const BEDROCK_MODELS = {
   
 } as const;
 
+// =============================================================================
+// PROVIDER DISPLAY NAMES
+// =============================================================================
+
+// Display names of the provider groups in BEDROCK_MODELS
+export const PROVIDER_NAMES: ProviderNames = {
+  AMAZON: 'Amazon',
+  ANTHROPIC: 'Anthropic',
+  META: 'Meta',
+  MISTRAL: 'Mistral AI',
+  COHERE: 'Cohere',
+  AI21: 'AI21 Labs',
+  DEEPSEEK: 'DeepSeek',
+  QWEN: 'Qwen',
+  GOOGLE: 'Google',
+  NVIDIA: 'NVIDIA',
+  OPENAI: 'OpenAI',
+  KIMI: 'Moonshot AI',
+  MINIMAX: 'MiniMax',
+};
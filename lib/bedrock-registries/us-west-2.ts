@@ -2,6 +2,7 @@
 // This file contains all quota codes specific to the us-west-2 region
 
 import { createModelConfig } from './types';
+import type { ProviderNames } from './types';
 
 // Re-export helper functions and types for convenience
 export { 
@@ -9,7 +10,7 @@ export {
   validateModelEndpointSupport, 
   getSupportedEndpointTypes 
 } from './types';
-export type { EndpointType, QuotaCodes, ModelConfig } from './types';
+export type { EndpointType, QuotaCodes, ModelConfig, ModelRegistry, ModelKey, ProviderNames } from './types';
 
 // =============================================================================
 // BEDROCK MODELS REGISTRY FOR US-WEST-2
@@ -21,6 +22,7 @@ export const BEDROCK_MODELS = {
     NOVA_MICRO_V1: createModelConfig({
       modelId: 'amazon.nova-micro-v1:0',
       outputTokenBurndownRate: 1,
+      cacheReadsCountTowardQuota: true,
       supportedEndpoints: ['cross-region'],
       crossRegion: { tokenQuotaCode: 'L-DC7FF66C', requestQuotaCode: 'L-3F110E0F' }
     }),
@@ -28,6 +30,7 @@ export const BEDROCK_MODELS = {
     NOVA_LITE_V1: createModelConfig({
       modelId: 'amazon.nova-lite-v1:0',
       outputTokenBurndownRate: 1,
+      cacheReadsCountTowardQuota: true,
       supportedEndpoints: ['cross-region'],
       crossRegion: { tokenQuotaCode: 'L-7C42E72A', requestQuotaCode: 'L-89F8391A' }
     }),
@@ -35,6 +38,7 @@ export const BEDROCK_MODELS = {
     NOVA_PRO_V1: createModelConfig({
       modelId: 'amazon.nova-pro-v1:0',
       outputTokenBurndownRate: 1,
+      cacheReadsCountTowardQuota: true,
       supportedEndpoints: ['cross-region'],
       crossRegion: { tokenQuotaCode: 'L-C0326783', requestQuotaCode: 'L-ED46B8C5' }
     }),
@@ -42,6 +46,7 @@ export const BEDROCK_MODELS = {
     NOVA_PREMIER_V1: createModelConfig({
       modelId: 'amazon.nova-premier-v1:0',
       outputTokenBurndownRate: 1,
+      cacheReadsCountTowardQuota: true,
       supportedEndpoints: ['cross-region'],
       crossRegion: { tokenQuotaCode: 'L-AA7FE948', requestQuotaCode: 'L-9AD981E7' }
     }),
@@ -62,6 +67,7 @@ export const BEDROCK_MODELS = {
     CLAUDE_3_HAIKU: createModelConfig({
       modelId: 'anthropic.claude-3-haiku-20240307-v1:0',
       outputTokenBurndownRate: 1,
+      defaultMaxOutputTokens: 4096,
       supportedEndpoints: ['regional', 'cross-region'],
       regional: { tokenQuotaCode: 'L-8CE99163', requestQuotaCode: 'L-2DC80978' },
       crossRegion: { tokenQuotaCode: 'L-DCADBC78', requestQuotaCode: 'L-616A3F5B' }
@@ -71,6 +77,7 @@ export const BEDROCK_MODELS = {
     CLAUDE_3_5_SONNET_20240620: createModelConfig({
       modelId: 'anthropic.claude-3-5-sonnet-20240620-v1:0',
       outputTokenBurndownRate: 1,
+      defaultMaxOutputTokens: 8192,
       supportedEndpoints: ['regional', 'cross-region'],
       regional: { tokenQuotaCode: 'L-A50569E5', requestQuotaCode: 'L-254CACF4' },
       crossRegion: { tokenQuotaCode: 'L-479B647F', requestQuotaCode: 'L-F457545D' }
@@ -79,6 +86,8 @@ export const BEDROCK_MODELS = {
     CLAUDE_3_5_HAIKU: createModelConfig({
       modelId: 'anthropic.claude-3-5-haiku-20241022-v1:0',
       outputTokenBurndownRate: 1,
+      cacheReadsCountTowardQuota: true,
+      defaultMaxOutputTokens: 8192,
       supportedEndpoints: ['regional', 'cross-region'],
       regional: { tokenQuotaCode: 'L-7AB4ABDD', requestQuotaCode: 'L-C7438F8F' },
       crossRegion: { tokenQuotaCode: 'L-4BF37C17', requestQuotaCode: 'L-252DF594' }
@@ -88,6 +97,7 @@ export const BEDROCK_MODELS = {
     CLAUDE_3_7_SONNET: createModelConfig({
       modelId: 'anthropic.claude-3-7-sonnet-20250219-v1:0',
       outputTokenBurndownRate: 5,
+      defaultMaxOutputTokens: 64000,
       supportedEndpoints: ['cross-region'],
       crossRegion: { tokenQuotaCode: 'L-6E888CC2', requestQuotaCode: 'L-3D8CC480' }
     }),
@@ -96,6 +106,7 @@ export const BEDROCK_MODELS = {
     CLAUDE_HAIKU_4_5: createModelConfig({
       modelId: 'anthropic.claude-haiku-4-5-20251001-v1:0',
       outputTokenBurndownRate: 5,
+      defaultMaxOutputTokens: 64000,
       supportedEndpoints: ['cross-region', 'global-cross-region'],
       crossRegion: { tokenQuotaCode: 'L-58BE175A', requestQuotaCode: 'L-CCA5DF70' },
       globalCrossRegion: { tokenQuotaCode: 'L-9A11C666', requestQuotaCode: 'L-E5084BBA' }
@@ -104,6 +115,7 @@ export const BEDROCK_MODELS = {
     CLAUDE_SONNET_4: createModelConfig({
       modelId: 'anthropic.claude-sonnet-4-20250514-v1:0',
       outputTokenBurndownRate: 5,
+      defaultMaxOutputTokens: 64000,
       supportedEndpoints: ['cross-region', 'global-cross-region'],
       crossRegion: { tokenQuotaCode: 'L-59759B4A', requestQuotaCode: 'L-559DCC33' },
       globalCrossRegion: { tokenQuotaCode: 'L-97E41E39', requestQuotaCode: 'L-C63AA5DA' }
@@ -112,6 +124,7 @@ export const BEDROCK_MODELS = {
     CLAUDE_SONNET_4_5: createModelConfig({
       modelId: 'anthropic.claude-sonnet-4-5-20250929-v1:0',
       outputTokenBurndownRate: 5,
+      defaultMaxOutputTokens: 64000,
       supportedEndpoints: ['cross-region', 'global-cross-region'],
       crossRegion: { tokenQuotaCode: 'L-F4DDD3EB', requestQuotaCode: 'L-4A6BFAB1' },
       globalCrossRegion: { tokenQuotaCode: 'L-27C57EE8', requestQuotaCode: 'L-DB84CE56' }
@@ -120,6 +133,7 @@ export const BEDROCK_MODELS = {
     CLAUDE_OPUS_4: createModelConfig({
       modelId: 'anthropic.claude-opus-4-20250514-v1:0',
       outputTokenBurndownRate: 5,
+      defaultMaxOutputTokens: 32000,
       supportedEndpoints: ['cross-region'],
       crossRegion: { tokenQuotaCode: 'L-29C2B0A3', requestQuotaCode: 'L-C99C7EF6' }
     }),
@@ -127,6 +141,7 @@ export const BEDROCK_MODELS = {
     CLAUDE_OPUS_4_1: createModelConfig({
       modelId: 'anthropic.claude-opus-4-1-20250805-v1:0',
       outputTokenBurndownRate: 5,
+      defaultMaxOutputTokens: 32000,
       supportedEndpoints: ['cross-region'],
       crossRegion: { tokenQuotaCode: 'L-BD85BFCD', requestQuotaCode: 'L-7EC72A47' }
     }),
@@ -134,6 +149,7 @@ export const BEDROCK_MODELS = {
     CLAUDE_OPUS_4_5: createModelConfig({
       modelId: 'anthropic.claude-opus-4-5-20251101-v1:0',
       outputTokenBurndownRate: 5,
+      defaultMaxOutputTokens: 64000,
       supportedEndpoints: ['cross-region', 'global-cross-region'],
       crossRegion: { tokenQuotaCode: 'L-7007E9C9', requestQuotaCode: 'L-27989F42' },
       globalCrossRegion: { tokenQuotaCode: 'L-3ABF6ACC', requestQuotaCode: 'L-58424D95' }
@@ -144,3 +160,12 @@ export const BEDROCK_MODELS = {
   },
 } as const;
 
+// =============================================================================
+// PROVIDER DISPLAY NAMES
+// =============================================================================
+
+// Display names of the provider groups in BEDROCK_MODELS
+export const PROVIDER_NAMES: ProviderNames = {
+  AMAZON: 'Amazon',
+  ANTHROPIC: 'Anthropic',
+};
@@ -1,577 +1,198 @@
 import * as cdk from 'aws-cdk-lib';
-import * as cloudwatch from 'aws-cdk-lib/aws-cloudwatch';
-import * as lambda from 'aws-cdk-lib/aws-lambda';
-import * as iam from 'aws-cdk-lib/aws-iam';
-import * as cr from 'aws-cdk-lib/custom-resources';
 import * as events from 'aws-cdk-lib/aws-events';
-import * as targets from 'aws-cdk-lib/aws-events-targets';
+import * as sns from 'aws-cdk-lib/aws-sns';
 import { Construct } from 'constructs';
-import { NagSuppressions } from 'cdk-nag';
-import { BEDROCK_MODELS, getQuotaCodes, type EndpointType, validateModelEndpointSupport, getSupportedEndpointTypes } from './bedrock-registries';
+import { BEDROCK_MODELS } from './bedrock-registries';
+import { BedrockQuotaDashboard, defineDashboardConfig, getDashboardUrl, type ApplicationProfileDiscoveryOptions, type DashboardConfig, type UtilizationAlarmThresholds } from './bedrock-quota-dashboard';
+import { applyApplicationProfiles, DEFAULT_APPLICATION_PROFILES_FILE, loadApplicationProfiles } from './application-profiles';
+import { loadDashboardsFile } from './dashboard-config-file';
+
+export { defineDashboardConfig, type DashboardConfig } from './bedrock-quota-dashboard';
+
+// Dashboard configurations used when the stack is deployed without explicit configs or a
+// dashboards.yaml / dashboards.json file (see lib/dashboard-config-file.ts)
+// NOTE: Each model/endpoint combination is validated at synth time.
+// defineDashboardConfig() makes an endpoint type the model does not support a compile error.
+// Use getSupportedEndpointTypes(modelConfig) to check valid options for a model.
+//
+// APPLICATION INFERENCE PROFILES:
+// If you have application inference profiles that share quota with a system profile,
+// add their IDs to the applicationProfileIds array. This aggregates metrics across
+// all profiles to show total usage against the shared quota.
+// Run: npx ts-node scripts/discover-inference-profiles.ts --write to record your profiles
+// in application-profiles.json, which the stack adds to the matching configs at synth.
+export const DEFAULT_DASHBOARD_CONFIGS: DashboardConfig[] = [
+
+  // Amazon Nova 2 Models
+  defineDashboardConfig({ modelConfig: BEDROCK_MODELS.AMAZON.NOVA_2_LITE_V1, endpointType: 'cross-region' }),
+
+  // Anthropic Claude 4 Models (cross-region only)
+  defineDashboardConfig({ modelConfig: BEDROCK_MODELS.ANTHROPIC.CLAUDE_HAIKU_4_5, endpointType: 'cross-region' }),
+  defineDashboardConfig({ modelConfig: BEDROCK_MODELS.ANTHROPIC.CLAUDE_SONNET_4_5, endpointType: 'global-cross-region' }),
+  defineDashboardConfig({ modelConfig: BEDROCK_MODELS.ANTHROPIC.CLAUDE_SONNET_4_6, endpointType: 'global-cross-region' }),
+  defineDashboardConfig({ modelConfig: BEDROCK_MODELS.ANTHROPIC.CLAUDE_SONNET_4_6_1M, endpointType: 'global-cross-region' }),
+  // Example: To aggregate application inference profiles sharing quota with a model:
+  // defineDashboardConfig({
+  //   modelConfig: BEDROCK_MODELS.ANTHROPIC.CLAUDE_SONNET_4_5,
+  //   endpointType: 'cross-region',
+  //   // Discovered using: npx ts-node scripts/discover-inference-profiles.ts
+  //   applicationProfileIds: ['your-profile-id-1', 'your-profile-id-2'],
+  // }),
+  defineDashboardConfig({ modelConfig: BEDROCK_MODELS.ANTHROPIC.CLAUDE_OPUS_4_5, endpointType: 'global-cross-region' }),
+  defineDashboardConfig({ modelConfig: BEDROCK_MODELS.ANTHROPIC.CLAUDE_OPUS_4_6, endpointType: 'global-cross-region' }),
+  defineDashboardConfig({ modelConfig: BEDROCK_MODELS.ANTHROPIC.CLAUDE_OPUS_4_6_1M, endpointType: 'global-cross-region' }),
+
+];
 
-// Dashboard configuration interface
-interface DashboardConfig {
+export interface CdkQuotaDashboardsStackProps extends cdk.StackProps {
   /**
-   * The Bedrock model configuration object from the registry
-   * @example BEDROCK_MODELS.AMAZON.NOVA_LITE_V1
-   * @example BEDROCK_MODELS.ANTHROPIC.CLAUDE_3_HAIKU
+   * Model/endpoint combinations to show on the dashboard
+   * @default DEFAULT_DASHBOARD_CONFIGS
    */
-  modelConfig: any; // Model config object with modelId, outputTokenBurndownRate, and quota properties
-  
+  readonly dashboardConfigs?: DashboardConfig[];
+
   /**
-   * The endpoint type for this model. Must be supported by the model.
-   * Use getSupportedEndpointTypes(modelConfig) to check valid options.
-   * 
-   * - 'regional': Standard regional endpoints
-   * - 'cross-region': Cross-region inference
-   * - 'global-cross-region': Global cross-region
-   * 
-   * @example 'regional'
-   * @example 'cross-region' 
-   * @example 'global-cross-region'
+   * YAML or JSON file listing the models to show by registry key (see lib/dashboard-config-file.ts).
+   * Used when dashboardConfigs is not set; its dashboardName, namespace, regions, alarms and
+   * estimateMissingMaxTokens apply unless set in these props.
+   * @default dashboards.yaml, dashboards.yml or dashboards.json in the project root, if present
    */
-  endpointType: EndpointType;
-  
+  readonly dashboardsFile?: string;
+
   /**
-   * Optional list of application inference profile IDs that share quota with this model.
-   * 
-   * Application inference profiles created from a system inference profile share the same
-   * quota. When specified, the dashboard will aggregate metrics across all profiles
-   * (system + application) to show total usage against the shared quota.
-   * 
-   * Use the discovery script to find your application profile IDs:
-   *   npx ts-node scripts/discover-inference-profiles.ts
-   * 
-   * @example ['grjihoh0los8', 'cypje2y15yrd', 'wqwinsplsugw']
+   * JSON file of application inference profiles (written by discover-inference-profiles.ts --write)
+   * whose IDs are added to the configs of their system profiles. Ignored if the file does not exist.
+   * @default application-profiles.json in the project root
    */
-  applicationProfileIds?: string[];
-}
-
-/**
- * Validates that all dashboard configurations use valid model/endpoint combinations
- * @param configs Array of dashboard configurations to validate
- * @throws Error with detailed message if any configurations are invalid
- */
-function validateAllDashboardConfigs(configs: DashboardConfig[]): void {
-  const errors: string[] = [];
-  
-  configs.forEach((config, index) => {
-    if (!validateModelEndpointSupport(config.modelConfig, config.endpointType)) {
-      const supported = getSupportedEndpointTypes(config.modelConfig);
-      if (supported.length === 0) {
-        errors.push(`Config ${index}: Model '${config.modelConfig.modelId}' not found in quota registry`);
-      } else {
-        errors.push(`Config ${index}: Model '${config.modelConfig.modelId}' does not support endpoint type '${config.endpointType}'. Supported types: ${supported.join(', ')}`);
-      }
-    }
-  });
-  
-  if (errors.length > 0) {
-    throw new Error(`Invalid dashboard configurations found:\n${errors.join('\n')}\n\nPlease check the quota mappings in the region-specific registry file for valid model/endpoint combinations.`);
-  }
-}
-
-// Helper function to generate full model ID with endpoint prefix
-function getFullModelId(modelConfig: any, endpointType: EndpointType): string {
-  const modelId = modelConfig.modelId;
-  switch (endpointType) {
-    case 'regional':
-      return modelId;
-    case 'cross-region':
-      return `us.${modelId}`;
-    case 'global-cross-region':
-      return `global.${modelId}`;
-    default:
-      return modelId;
-  }
-}
-
-export interface CdkQuotaDashboardsStackProps extends cdk.StackProps {
-}
-
-export class CdkQuotaDashboardsStack extends cdk.Stack {
-  constructor(scope: Construct, id: string, props?: CdkQuotaDashboardsStackProps) {
-    super(scope, id, props);
-
-    // All available dashboard configurations
-    // NOTE: Each model/endpoint combination is validated at runtime.
-    // If you add a new configuration, ensure the model supports the specified endpoint type.
-    // Use getSupportedEndpointTypes(modelConfig) to check valid options for a model.
-    //
-    // APPLICATION INFERENCE PROFILES:
-    // If you have application inference profiles that share quota with a system profile,
-    // add their IDs to the applicationProfileIds array. This aggregates metrics across
-    // all profiles to show total usage against the shared quota.
-    // Run: npx ts-node scripts/discover-inference-profiles.ts to find your profile IDs.
-    const allDashboardConfigs: DashboardConfig[] = [
-
-      // Amazon Nova 2 Models
-      { modelConfig: BEDROCK_MODELS.AMAZON.NOVA_2_LITE_V1, endpointType: 'cross-region' },
+  readonly applicationProfilesFile?: string;
 
-      // Anthropic Claude 4 Models (cross-region only)
-      { modelConfig: BEDROCK_MODELS.ANTHROPIC.CLAUDE_HAIKU_4_5, endpointType: 'cross-region' },
-      { modelConfig: BEDROCK_MODELS.ANTHROPIC.CLAUDE_SONNET_4_5, endpointType: 'global-cross-region' },
-      { modelConfig: BEDROCK_MODELS.ANTHROPIC.CLAUDE_SONNET_4_6, endpointType: 'global-cross-region' },
-      { modelConfig: BEDROCK_MODELS.ANTHROPIC.CLAUDE_SONNET_4_6_1M, endpointType: 'global-cross-region' },
-      // Example: To aggregate application inference profiles sharing quota with a model:
-      // { 
-      //   modelConfig: BEDROCK_MODELS.ANTHROPIC.CLAUDE_SONNET_4_5, 
-      //   endpointType: 'cross-region',
-      //   // Discovered using: npx ts-node scripts/discover-inference-profiles.ts
-      //   applicationProfileIds: ['your-profile-id-1', 'your-profile-id-2'],
-      // },
-      { modelConfig: BEDROCK_MODELS.ANTHROPIC.CLAUDE_OPUS_4_5, endpointType: 'global-cross-region' },
-      { modelConfig: BEDROCK_MODELS.ANTHROPIC.CLAUDE_OPUS_4_6, endpointType: 'global-cross-region' },
-      { modelConfig: BEDROCK_MODELS.ANTHROPIC.CLAUDE_OPUS_4_6_1M, endpointType: 'global-cross-region' },
-
-    ];
-
-    // Validate all dashboard configurations before proceeding
-    validateAllDashboardConfigs(allDashboardConfigs);
-
-    const dashboardConfigs = allDashboardConfigs;
-
-    // Lambda function to fetch Service Quotas and publish as CloudWatch metrics
-    const quotaFetcherLambda = new lambda.Function(this, 'QuotaFetcher', {
-      runtime: lambda.Runtime.PYTHON_3_13,
-      handler: 'quota-fetcher-lambda.handler',
-      timeout: cdk.Duration.minutes(10),
-      code: lambda.Code.fromAsset('lib/lambda'),
-      architecture: lambda.Architecture.ARM_64, // Use ARM64 for better price-performance
-    });
+  /**
+   * Tag recorded in the application profiles file (discover-inference-profiles.ts --tag) whose
+   * value labels each profile in profile breakdown widgets, such as a cost-allocation tag.
+   * Profiles without the tag are labelled with their name.
+   * @default - profile names
+   */
+  readonly applicationProfileLabelTag?: string;
 
-    // Grant permissions to fetch service quotas and publish CloudWatch metrics
-    quotaFetcherLambda.addToRolePolicy(
-      new iam.PolicyStatement({
-        actions: ['servicequotas:GetServiceQuota', 'servicequotas:ListServiceQuotas'],
-        resources: [`*`], // Quotas does not support resource-level permissions
-      })
-    );
+  /**
+   * Discovers application inference profiles on a schedule and adds them to the dashboard's graphs
+   * @default - no discovery; only configured and recorded application profiles are aggregated
+   */
+  readonly applicationProfileDiscovery?: ApplicationProfileDiscoveryOptions;
 
-    quotaFetcherLambda.addToRolePolicy(
-      new iam.PolicyStatement({
-        actions: ['cloudwatch:PutMetricData'],
-        resources: ['*'],
-        conditions: {
-          StringEquals: {
-            'cloudwatch:namespace': 'Bedrock/Quotas'
-          }
-        }
-      })
-    );
+  /**
+   * Name of the CloudWatch dashboard
+   * @default 'BedrockQuotaConsumptionByModel'
+   */
+  readonly dashboardName?: string;
 
-    // Custom Resource Provider
-    const quotaProvider = new cr.Provider(this, 'QuotaProvider', {
-      onEventHandler: quotaFetcherLambda,
-    });
+  /**
+   * CloudWatch namespace for the quota and MaxTokens custom metrics
+   * @default 'Bedrock/Quotas'
+   */
+  readonly namespace?: string;
 
-    // EventBridge rule to refresh quotas every 2.9 hours
-    const dailyRefreshRule = new events.Rule(this, 'DailyQuotaRefresh', {
-      schedule: events.Schedule.rate(cdk.Duration.minutes(174)),
-      description: 'Refresh Bedrock quota values every 2.9 hours',
-    });
+  /**
+   * Schedule on which quota values are refreshed from Service Quotas
+   * @default every 2.9 hours
+   */
+  readonly refreshSchedule?: events.Schedule;
 
-    // Prepare models for EventBridge rule with error handling
-    const eventBridgeModels = dashboardConfigs.map(config => {
-      const quotaCodes = getQuotaCodes(config.modelConfig, config.endpointType);
-      const fullModelId = getFullModelId(config.modelConfig, config.endpointType);
+  /**
+   * Regions to show on one consolidated dashboard, using cross-region metric queries
+   * @default - the stack's region only
+   */
+  readonly regions?: string[];
 
-      if (!quotaCodes) {
-        console.warn(`[EVENTBRIDGE_WARNING] Excluding model '${config.modelConfig.modelId}' (${config.endpointType}) from scheduled quota refresh - missing quota codes`);
-        return null;
-      }
+  /**
+   * Enables quota utilization alarms for every model
+   * @default - no alarms unless set on individual configs
+   */
+  readonly alarms?: UtilizationAlarmThresholds;
 
-      return {
-        modelId: fullModelId,
-        tokenQuotaCode: quotaCodes.tokenQuotaCode,
-        requestQuotaCode: quotaCodes.requestQuotaCode,
-      };
-    }).filter(Boolean); // Remove null entries
+  /**
+   * Estimates Initial Reservation from Invocations and the registry's default max output tokens
+   * in periods without MaxTokens datapoints
+   * @default false
+   */
+  readonly estimateMissingMaxTokens?: boolean;
 
-    if (eventBridgeModels.length === 0) {
-      console.error('[EVENTBRIDGE_ERROR] No models available for scheduled quota refresh due to missing quota codes');
-    } else {
-      console.log(`[EVENTBRIDGE_SUCCESS] Configured scheduled quota refresh for ${eventBridgeModels.length} models`);
-    }
+  /**
+   * SNS topic notified when utilization alarms change state
+   * @default - a topic is created if alarmEmailAddresses or alarmHttpsEndpoints are set
+   */
+  readonly alarmTopic?: sns.ITopic;
 
-    dailyRefreshRule.addTarget(
-      new targets.LambdaFunction(quotaFetcherLambda, {
-        event: events.RuleTargetInput.fromObject({
-          source: 'aws.events',
-          models: eventBridgeModels,
-        }),
-      })
-    );
+  /**
+   * Email addresses subscribed to the alarm topic
+   * @default - no email subscriptions
+   */
+  readonly alarmEmailAddresses?: string[];
 
-    // Create CloudWatch Dashboard
-    const dashboard = new cloudwatch.Dashboard(this, 'BedrockQuotaDashboard', {
-      dashboardName: 'BedrockQuotaConsumptionByModel',
-      periodOverride: cloudwatch.PeriodOverride.INHERIT,
-    });
+  /**
+   * HTTPS endpoints subscribed to the alarm topic
+   * @default - no HTTPS subscriptions
+   */
+  readonly alarmHttpsEndpoints?: string[];
+}
 
-    // Prepare models for initial quota fetch with error handling
-    const customResourceModels = dashboardConfigs.map(config => {
-      const quotaCodes = getQuotaCodes(config.modelConfig, config.endpointType);
-      const fullModelId = getFullModelId(config.modelConfig, config.endpointType);
+export class CdkQuotaDashboardsStack extends cdk.Stack {
+  /** The dashboard construct, with its dashboards, alarms and utilization expressions */
+  public readonly quotaDashboard: BedrockQuotaDashboard;
 
-      if (!quotaCodes) {
-        console.warn(`[CUSTOM_RESOURCE_WARNING] Excluding model '${config.modelConfig.modelId}' (${config.endpointType}) from initial quota fetch - missing quota codes`);
-        return null;
-      }
+  constructor(scope: Construct, id: string, props?: CdkQuotaDashboardsStackProps) {
+    super(scope, id, props);
 
-      return {
-        modelId: fullModelId,
-        tokenQuotaCode: quotaCodes.tokenQuotaCode,
-        requestQuotaCode: quotaCodes.requestQuotaCode,
-      };
-    }).filter(Boolean); // Remove null entries
+    // Explicit configs take precedence over the dashboards file, which is then not read at all,
+    // and the file replaces the defaults
+    const dashboardsFile = props?.dashboardConfigs === undefined ? loadDashboardsFile(props?.dashboardsFile) : undefined;
+    let dashboardConfigs = props?.dashboardConfigs ?? dashboardsFile?.dashboardConfigs ?? DEFAULT_DASHBOARD_CONFIGS;
 
-    if (customResourceModels.length === 0) {
-      console.error('[CUSTOM_RESOURCE_ERROR] No models available for initial quota fetch due to missing quota codes');
-    } else {
-      console.log(`[CUSTOM_RESOURCE_SUCCESS] Configured initial quota fetch for ${customResourceModels.length} models`);
+    // Add recorded application profiles for this stack's region
+    const applicationProfiles = loadApplicationProfiles(props?.applicationProfilesFile ?? DEFAULT_APPLICATION_PROFILES_FILE);
+    if (applicationProfiles && !cdk.Token.isUnresolved(this.region)) {
+      dashboardConfigs = applyApplicationProfiles(dashboardConfigs, this.region, applicationProfiles, props?.applicationProfileLabelTag);
     }
 
-    // Trigger initial quota fetch on first deployment
-    new cdk.CustomResource(this, 'InitialQuotaFetch', {
-      serviceToken: quotaProvider.serviceToken,
-      properties: {
-        models: customResourceModels,
-      },
+    const quotaDashboard = new BedrockQuotaDashboard(this, 'QuotaDashboard', {
+      dashboardConfigs,
+      dashboardName: props?.dashboardName ?? dashboardsFile?.dashboardName,
+      namespace: props?.namespace ?? dashboardsFile?.namespace,
+      refreshSchedule: props?.refreshSchedule,
+      applicationProfileDiscovery: props?.applicationProfileDiscovery,
+      regions: props?.regions ?? dashboardsFile?.regions,
+      alarms: props?.alarms ?? dashboardsFile?.alarms,
+      estimateMissingMaxTokens: props?.estimateMissingMaxTokens ?? dashboardsFile?.estimateMissingMaxTokens,
+      alarmTopic: props?.alarmTopic,
+      alarmEmailAddresses: props?.alarmEmailAddresses,
+      alarmHttpsEndpoints: props?.alarmHttpsEndpoints,
     });
-
-    // Helper to determine model family for banners
-    const getModelFamily = (modelId: string): string => {
-      if (modelId.startsWith('amazon.nova-')) return 'Amazon Nova';
-      if (modelId.startsWith('amazon.titan-')) return 'Amazon Titan';
-      if (modelId.startsWith('anthropic.claude')) return 'Anthropic Claude';
-      if (modelId.startsWith('meta')) return 'Meta';
-      if (modelId.startsWith('mistral.')) return 'Mistral AI';
-      if (modelId.startsWith('cohere.')) return 'Cohere';
-      if (modelId.startsWith('ai21.')) return 'AI21 Labs';
-      if (modelId.startsWith('deepseek.')) return 'DeepSeek';
-      if (modelId.startsWith('google.')) return 'Google';
-      if (modelId.startsWith('nvidia.')) return 'NVIDIA';
-      if (modelId.startsWith('openai.')) return 'OpenAI';
-      if (modelId.startsWith('qwen.')) return 'Qwen';
-      if (modelId.startsWith('kimi.')) return 'Kimi';
-      if (modelId.startsWith('minimax.')) return 'Minimax';
-      if (modelId.startsWith('magistral.')) return 'Magistral';
-      return 'Other Models';
-    };
-
-    // Track current family to add banners
-    let currentFamily: string | null = null;
-
-    // Track models with missing quota codes for summary logging
-    const modelsWithMissingQuotas: string[] = [];
-
-    // Create widgets for each dashboard configuration
-    dashboardConfigs.forEach((config) => {
-      const fullModelId = getFullModelId(config.modelConfig, config.endpointType);
-      const quotaCodes = getQuotaCodes(config.modelConfig, config.endpointType);
-      const modelFamily = getModelFamily(config.modelConfig.modelId);
-
-      // Skip if no quota codes found
-      if (!quotaCodes) {
-        console.warn(`[QUOTA_ERROR] Model '${config.modelConfig.modelId}' does not support endpoint type '${config.endpointType}' or quota codes are missing`);
-        modelsWithMissingQuotas.push(`${config.modelConfig.modelId} (${config.endpointType})`);
-        return;
-      }
-
-      // Get burndown rate from model config
-      const burndownRate = config.modelConfig.outputTokenBurndownRate;
-      
-      // Check if we have application profiles to aggregate
-      const hasApplicationProfiles = config.applicationProfileIds && config.applicationProfileIds.length > 0;
-      const allProfileIds = hasApplicationProfiles 
-        ? [fullModelId, ...config.applicationProfileIds!]
-        : [fullModelId];
-
-      // Add banner when entering a new model family
-      if (modelFamily !== currentFamily) {
-        currentFamily = modelFamily;
-        dashboard.addWidgets(
-          new cloudwatch.TextWidget({
-            markdown: `# ${modelFamily}`,
-            width: 24,
-            height: 1,
-          })
-        );
-      }
-
-      // Create CloudWatch metrics for quota values (updated daily by Lambda)
-      const tokenQuotaMetric = new cloudwatch.Metric({
-        namespace: 'Bedrock/Quotas',
-        metricName: 'TokenQuota',
-        dimensionsMap: {
-          ModelId: fullModelId,
-        },
-        statistic: 'Maximum',
-        period: cdk.Duration.minutes(1),
-        label: 'Quota Limit',
-        color: cloudwatch.Color.RED,
-      });
-
-      const requestQuotaMetric = new cloudwatch.Metric({
-        namespace: 'Bedrock/Quotas',
-        metricName: 'RequestQuota',
-        dimensionsMap: {
-          ModelId: fullModelId,
-        },
-        statistic: 'Maximum',
-        period: cdk.Duration.minutes(1),
-        label: 'Quota Limit',
-        color: cloudwatch.Color.RED,
-      });
-
-      // Helper function to create metrics for a specific profile ID
-      const createProfileMetrics = (profileId: string) => ({
-        inputTokens: new cloudwatch.Metric({
-          namespace: 'AWS/Bedrock',
-          metricName: 'InputTokenCount',
-          dimensionsMap: { ModelId: profileId },
-          statistic: 'Sum',
-          period: cdk.Duration.minutes(1),
-        }),
-        cacheWriteTokens: new cloudwatch.Metric({
-          namespace: 'AWS/Bedrock',
-          metricName: 'CacheWriteInputTokenCount',
-          dimensionsMap: { ModelId: profileId },
-          statistic: 'Sum',
-          period: cdk.Duration.minutes(1),
-        }),
-        outputTokens: new cloudwatch.Metric({
-          namespace: 'AWS/Bedrock',
-          metricName: 'OutputTokenCount',
-          dimensionsMap: { ModelId: profileId },
-          statistic: 'Sum',
-          period: cdk.Duration.minutes(1),
-        }),
-        maxTokens: new cloudwatch.Metric({
-          namespace: 'Bedrock/Quotas',
-          metricName: 'MaxTokens',
-          dimensionsMap: { ModelId: profileId },
-          statistic: 'Sum',
-          period: cdk.Duration.minutes(1),
-        }),
-        invocations: new cloudwatch.Metric({
-          namespace: 'AWS/Bedrock',
-          metricName: 'Invocations',
-          dimensionsMap: { ModelId: profileId },
-          statistic: 'Sum',
-          period: cdk.Duration.minutes(1),
-        }),
-      });
-
-      // Create metrics for all profiles
-      const allProfileMetrics = allProfileIds.map((id, index) => ({
-        id,
-        metrics: createProfileMetrics(id),
-        suffix: index === 0 ? '' : `_${index}`, // Suffix for metric variable names
-      }));
-
-      // Build aggregated expressions
-      let actualConsumption: cloudwatch.IMetric;
-      let initialReservation: cloudwatch.IMetric;
-      let totalInvocations: cloudwatch.IMetric;
-
-      if (hasApplicationProfiles) {
-        // Aggregate metrics across all profiles
-        const usingMetrics: { [key: string]: cloudwatch.IMetric } = {};
-        const inputParts: string[] = [];
-        const cacheParts: string[] = [];
-        const outputParts: string[] = [];
-        const maxTokensParts: string[] = [];
-        const invocationParts: string[] = [];
-
-        allProfileMetrics.forEach(({ metrics, suffix }) => {
-          const inputKey = `inputTokens${suffix}`;
-          const cacheKey = `cacheWriteTokens${suffix}`;
-          const outputKey = `outputTokens${suffix}`;
-          const maxKey = `maxTokens${suffix}`;
-          const invKey = `invocations${suffix}`;
-
-          usingMetrics[inputKey] = metrics.inputTokens;
-          usingMetrics[cacheKey] = metrics.cacheWriteTokens;
-          usingMetrics[outputKey] = metrics.outputTokens;
-          usingMetrics[maxKey] = metrics.maxTokens;
-          usingMetrics[invKey] = metrics.invocations;
-
-          inputParts.push(inputKey);
-          cacheParts.push(cacheKey);
-          outputParts.push(outputKey);
-          maxTokensParts.push(maxKey);
-          invocationParts.push(invKey);
-        });
-
-        // Build sum expressions
-        const inputSum = inputParts.join(' + ');
-        const cacheSum = cacheParts.join(' + ');
-        const outputSum = outputParts.join(' + ');
-        const maxTokensSum = maxTokensParts.join(' + ');
-        const invocationSum = invocationParts.join(' + ');
-
-        actualConsumption = new cloudwatch.MathExpression({
-          expression: `(${inputSum}) + (${cacheSum}) + ((${outputSum}) * ${burndownRate})`,
-          usingMetrics,
-          label: `Actual Consumption (${allProfileIds.length} profiles)`,
-          period: cdk.Duration.minutes(1),
-        });
-
-        initialReservation = new cloudwatch.MathExpression({
-          expression: `(${inputSum}) + (${cacheSum}) + (${maxTokensSum})`,
-          usingMetrics,
-          label: `Initial Reservation (${allProfileIds.length} profiles)`,
-          period: cdk.Duration.minutes(1),
-        });
-
-        totalInvocations = new cloudwatch.MathExpression({
-          expression: invocationSum,
-          usingMetrics,
-          label: `Total Invocations (${allProfileIds.length} profiles)`,
-          period: cdk.Duration.minutes(1),
-        });
-
-        console.log(`[PROFILE_AGGREGATION] ${fullModelId}: Aggregating ${allProfileIds.length} profiles (1 system + ${config.applicationProfileIds!.length} application)`);
-      } else {
-        // Single profile - use simple metrics
-        const { metrics } = allProfileMetrics[0];
-
-        actualConsumption = new cloudwatch.MathExpression({
-          expression: `inputTokens + cacheWriteTokens + (outputTokens * ${burndownRate})`,
-          usingMetrics: {
-            inputTokens: metrics.inputTokens,
-            cacheWriteTokens: metrics.cacheWriteTokens,
-            outputTokens: metrics.outputTokens,
-          },
-          label: 'Actual Consumption',
-          period: cdk.Duration.minutes(1),
-        });
-
-        initialReservation = new cloudwatch.MathExpression({
-          expression: 'inputTokens + cacheWriteTokens + maxTokens',
-          usingMetrics: {
-            inputTokens: metrics.inputTokens,
-            cacheWriteTokens: metrics.cacheWriteTokens,
-            maxTokens: metrics.maxTokens,
-          },
-          label: 'Initial Reservation',
-          period: cdk.Duration.minutes(1),
-        });
-
-        totalInvocations = metrics.invocations;
-      }
-
-      // Wrap quota metrics with FILL to create continuous horizontal lines
-      const tokenQuotaLine = new cloudwatch.MathExpression({
-        expression: 'FILL(tokenQuota, REPEAT)',
-        usingMetrics: {
-          tokenQuota: tokenQuotaMetric,
-        },
-        label: 'Quota Limit (Tokens)',
-        color: cloudwatch.Color.RED,
-        period: cdk.Duration.minutes(1),
-      });
-
-      const requestQuotaLine = new cloudwatch.MathExpression({
-        expression: 'FILL(requestQuota, REPEAT)',
-        usingMetrics: {
-          requestQuota: requestQuotaMetric,
-        },
-        label: 'Quota Limit (Requests)',
-        color: cloudwatch.Color.RED,
-        period: cdk.Duration.minutes(1),
-      });
-
-      // Build widget title with profile count if aggregating
-      const titleSuffix = hasApplicationProfiles 
-        ? ` (${allProfileIds.length} profiles aggregated)`
-        : '';
-
-      // Add widgets to dashboard with quota metrics on left axis
-      dashboard.addWidgets(
-        // All three widgets on the same row
-        new cloudwatch.GraphWidget({
-          title: `${fullModelId} - Initial Reservation${titleSuffix}`,
-          left: [initialReservation, tokenQuotaLine],
-          width: 8,
-          height: 6,
-          leftYAxis: {
-            label: 'Quota Units (Tokens/min)',
-            min: 0,
-          },
-          period: cdk.Duration.minutes(1),
-        }),
-        new cloudwatch.GraphWidget({
-          title: `${fullModelId} - Actual Consumption${titleSuffix}`,
-          left: [actualConsumption, tokenQuotaLine],
-          width: 8,
-          height: 6,
-          leftYAxis: {
-            label: 'Quota Units (Tokens/min) - Does not include ongoing requests',
-            min: 0,
-          },
-          period: cdk.Duration.minutes(1),
-        }),
-        new cloudwatch.GraphWidget({
-          title: `${fullModelId} - Request Quota Consumption${titleSuffix}`,
-          left: [totalInvocations, requestQuotaLine],
-          width: 8,
-          height: 6,
-          leftYAxis: {
-            label: 'Quota Units (Requests/min)',
-            min: 0,
-          },
-          period: cdk.Duration.minutes(1),
-        })
-      );
-
-
-    });
-
-    // Log summary of models with missing data
-    if (modelsWithMissingQuotas.length > 0) {
-      console.warn(`[DASHBOARD_GENERATION_WARNING] Skipped ${modelsWithMissingQuotas.length} dashboard widget(s) due to missing quota codes:`);
-      modelsWithMissingQuotas.forEach(model => {
-        console.warn(`  - ${model}`);
-      });
-      console.warn('Dashboard generation continued with remaining models. To fix this, ensure the model supports the specified endpoint type in the region-specific registry file.');
-    }
-
-    const totalConfigured = dashboardConfigs.length;
-    const totalSkipped = modelsWithMissingQuotas.length;
-    const totalCreated = totalConfigured - totalSkipped;
-
-    if (totalSkipped > 0) {
-      console.warn(`[DASHBOARD_GENERATION_SUMMARY] Created ${totalCreated} dashboard widgets, skipped ${totalSkipped} due to missing data (${totalConfigured} total configured)`);
-    } else {
-      console.log(`[DASHBOARD_GENERATION_SUCCESS] Successfully created ${totalCreated} dashboard widgets for all configured models`);
-    }
+    this.quotaDashboard = quotaDashboard;
 
     // Output dashboard URL
     new cdk.CfnOutput(this, 'DashboardURL', {
-      value: `https://console.aws.amazon.com/cloudwatch/home?region=${this.region}#dashboards:name=BedrockQuotaConsumptionByModel`,
+      value: getDashboardUrl(this.region, quotaDashboard.dashboard.dashboardName),
       description: 'CloudWatch Dashboard URL',
     });
 
+    // Output the URL of each group dashboard linked from the main dashboard
+    Object.entries(quotaDashboard.groupDashboards).forEach(([group, groupDashboard]) => {
+      new cdk.CfnOutput(this, `DashboardURL-${group}`, {
+        value: getDashboardUrl(this.region, groupDashboard.dashboardName),
+        description: `CloudWatch Dashboard URL of the '${group}' group`,
+      });
+    });
+
     new cdk.CfnOutput(this, 'DashboardName', {
-      value: dashboard.dashboardName,
+      value: quotaDashboard.dashboard.dashboardName,
       description: 'Dashboard Name',
     });
 
-    // Stack-level suppressions for all IAM issues
-    NagSuppressions.addStackSuppressions(this, [
-      {
-        id: 'AwsSolutions-IAM4',
-        reason: 'AWS managed policy AWSLambdaBasicExecutionRole is required for Lambda execution and Custom Resource Provider',
-        appliesTo: ['Policy::arn:<AWS::Partition>:iam::aws:policy/service-role/AWSLambdaBasicExecutionRole']
-      },
-      {
-        id: 'AwsSolutions-IAM5',
-        reason: 'Service Quotas API and CloudWatch PutMetricData require wildcard permissions as they do not support resource-level permissions. Custom Resource Provider requires Lambda invoke permissions with version suffix wildcard.',
-        appliesTo: ['Resource::*', 'Resource::<QuotaFetcher87D05653.Arn>:*']
-      }
-    ]);
+    if (quotaDashboard.alarmTopic) {
+      new cdk.CfnOutput(this, 'AlarmTopicArn', {
+        value: quotaDashboard.alarmTopic.topicArn,
+        description: 'SNS topic for quota utilization alarms',
+      });
+    }
   }
 }
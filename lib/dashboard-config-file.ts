@@ -0,0 +1,191 @@
+// Dashboard Configuration File
+// Models can be added to the dashboard without writing CDK code, by listing them in
+// dashboards.yaml (or dashboards.yml / dashboards.json) next to cdk.json. Models are
+// referenced by their registry key, and the file is validated against
+// lib/dashboards.schema.json at synth time, with errors reported by line.
+//
+// Example dashboards.yaml:
+//   dashboardName: TeamQuotaDashboard
+//   alarms:
+//     warningPercent: 70
+//     criticalPercent: 90
+//   models:                                  # shown in this order
+//     - model: ANTHROPIC.CLAUDE_SONNET_4_5   # BEDROCK_MODELS.ANTHROPIC.CLAUDE_SONNET_4_5
+//       endpointType: global-cross-region
+//     - model: ANTHROPIC.CLAUDE_HAIKU_4_5
+//       endpointType: cross-region
+//       group: team-a                        # shown on its own dashboard
+//       applicationProfileIds: [grjihoh0los8]
+//       applicationProfileLabels: { grjihoh0los8: team-a-chatbot }
+//       profileBreakdown: true
+//       alarms: false
+//
+// Each entry accepts the DashboardConfig settings other than modelConfig. Editors that
+// support JSON schemas can point at lib/dashboards.schema.json for completion.
+
+import { existsSync, readFileSync } from 'fs';
+import * as path from 'path';
+import Ajv, { type ErrorObject } from 'ajv';
+import { isNode, LineCounter, parseDocument, type Document } from 'yaml';
+import { BEDROCK_MODELS, getRegistry, getSupportedRegions, type EndpointType, type ModelConfig, type ModelRegistry } from './bedrock-registries';
+import type { DashboardConfig, QuotaIncreaseConfig, UtilizationAlarmThresholds } from './bedrock-quota-dashboard';
+
+/** Default locations of the dashboards file, next to cdk.json, in order of precedence */
+export const DEFAULT_DASHBOARDS_FILES = ['dashboards.yaml', 'dashboards.yml', 'dashboards.json']
+  .map(name => path.join(__dirname, '..', name));
+
+/** JSON schema the dashboards file is validated against */
+export const DASHBOARDS_SCHEMA_FILE = path.join(__dirname, 'dashboards.schema.json');
+
+/** A model entry of the dashboards file */
+export interface DashboardsFileModel {
+  /** Registry key of the model, e.g. 'ANTHROPIC.CLAUDE_SONNET_4_5' */
+  readonly model: string;
+  readonly endpointType: EndpointType;
+  readonly applicationProfileIds?: string[];
+  readonly applicationProfileLabels?: { [profileId: string]: string };
+  readonly profileBreakdown?: boolean;
+  readonly maxTokensAnalysis?: boolean;
+  readonly group?: string;
+  readonly alarms?: UtilizationAlarmThresholds | false;
+  readonly quotaIncrease?: QuotaIncreaseConfig;
+  readonly defaultMaxTokens?: number;
+}
+
+/** Contents of the dashboards file */
+export interface DashboardsFile {
+  readonly dashboardName?: string;
+  readonly namespace?: string;
+  readonly regions?: string[];
+  readonly alarms?: UtilizationAlarmThresholds;
+  readonly estimateMissingMaxTokens?: boolean;
+  readonly models: DashboardsFileModel[];
+}
+
+/** Dashboard settings loaded from the dashboards file */
+export interface DashboardsFileSettings extends Omit<DashboardsFile, 'models'> {
+  /** Dashboard configurations of the listed models, in file order */
+  readonly dashboardConfigs: DashboardConfig[];
+}
+
+let validateSchema: ReturnType<Ajv['compile']> | undefined;
+
+/**
+ * Find the dashboards file in its default locations
+ * @returns Path of the first existing file, or undefined if there is none
+ */
+export function findDashboardsFile(): string | undefined {
+  return DEFAULT_DASHBOARDS_FILES.find(file => existsSync(file));
+}
+
+/**
+ * Load the dashboards file and resolve its models against the registry
+ * @param file Path of the file; defaults to the first existing default location
+ * @returns The dashboard settings, or undefined if no file is given and none exists
+ * @throws Error listing every syntax, schema and unknown model error with its line
+ */
+export function loadDashboardsFile(file: string | undefined = findDashboardsFile()): DashboardsFileSettings | undefined {
+  if (file === undefined) {
+    return undefined;
+  }
+  if (!existsSync(file)) {
+    throw new Error(`Dashboards file ${file} does not exist`);
+  }
+
+  // JSON is a subset of YAML, so both formats go through the YAML parser, which keeps node positions
+  const lineCounter = new LineCounter();
+  const document = parseDocument(readFileSync(file, 'utf8'), { lineCounter, prettyErrors: false });
+  const position = (offset: number): string => {
+    const { line, col } = lineCounter.linePos(offset);
+    return `line ${line}, column ${col}`;
+  };
+
+  const syntaxErrors = document.errors.map(error => `${position(error.pos[0])}: ${error.message}`);
+  if (syntaxErrors.length > 0) {
+    throw new Error(`Invalid dashboards file ${file}:\n${syntaxErrors.join('\n')}`);
+  }
+
+  const contents: unknown = document.toJS();
+  validateSchema ??= new Ajv({ allErrors: true }).compile(JSON.parse(readFileSync(DASHBOARDS_SCHEMA_FILE, 'utf8')));
+  if (!validateSchema(contents)) {
+    const schemaErrors = (validateSchema.errors ?? [])
+      // if/then errors only repeat the error of the branch that failed
+      .filter(error => error.keyword !== 'if')
+      .map(error => ({ offset: findOffset(document, error), message: formatSchemaError(error) }))
+      .sort((a, b) => a.offset - b.offset)
+      .map(({ offset, message }) => `${position(offset)}: ${message}`);
+    throw new Error(`Invalid dashboards file ${file}:\n${[...new Set(schemaErrors)].join('\n')}`);
+  }
+
+  const { models, ...settings } = contents as DashboardsFile;
+  const errors: string[] = [];
+  const dashboardConfigs = models.map(({ model, ...config }, index): DashboardConfig => {
+    const modelConfig = findRegistryModel(model);
+    if (!modelConfig) {
+      errors.push(`${position(findOffset(document, ['models', index, 'model']))}: models[${index}].model: unknown model '${model}'; expected a registry key such as ANTHROPIC.CLAUDE_SONNET_4_5`);
+    }
+    const { line } = lineCounter.linePos(findOffset(document, ['models', index]));
+    return { ...config, modelConfig: modelConfig!, source: `${path.basename(file)}:${line}` };
+  });
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid dashboards file ${file}:\n${errors.join('\n')}`);
+  }
+  return { ...settings, dashboardConfigs };
+}
+
+/**
+ * Look up a model by its registry key, in the default registry and then the region registries
+ */
+function findRegistryModel(key: string): ModelConfig<readonly EndpointType[]> | undefined {
+  const [provider, modelKey] = key.split('.');
+  const registries: ModelRegistry[] = [BEDROCK_MODELS, ...getSupportedRegions().map(getRegistry)];
+  return registries.map(registry => registry[provider]?.[modelKey]).find(Boolean);
+}
+
+/**
+ * Find the offset of the node a schema error or path refers to, falling back to its
+ * closest existing parent
+ */
+function findOffset(document: Document, location: ErrorObject | (string | number)[]): number {
+  let keys: (string | number)[];
+  if (Array.isArray(location)) {
+    keys = location;
+  } else {
+    keys = location.instancePath.split('/').slice(1)
+      .map(key => key.replace(/~1/g, '/').replace(/~0/g, '~'))
+      .map(key => /^\d+$/.test(key) ? Number(key) : key);
+    // Point at the offending property rather than the object containing it
+    if (location.keyword === 'additionalProperties') {
+      keys.push(location.params.additionalProperty);
+    }
+  }
+
+  for (let depth = keys.length; depth > 0; depth--) {
+    const node = document.getIn(keys.slice(0, depth), true);
+    if (isNode(node) && node.range) {
+      return node.range[0];
+    }
+  }
+  return isNode(document.contents) && document.contents.range ? document.contents.range[0] : 0;
+}
+
+/**
+ * Describe a schema error with the path of the value, e.g. "models[0].endpointType: must be ..."
+ */
+function formatSchemaError(error: ErrorObject): string {
+  const location = error.instancePath
+    .split('/')
+    .slice(1)
+    .reduce((result, key) => /^\d+$/.test(key) ? `${result}[${key}]` : (result ? `${result}.${key}` : key), '');
+
+  let message = error.message ?? 'is invalid';
+  if (error.keyword === 'enum') {
+    message += `: ${(error.params.allowedValues as unknown[]).join(', ')}`;
+  } else if (error.keyword === 'const') {
+    message += `: ${JSON.stringify(error.params.allowedValue)}`;
+  } else if (error.keyword === 'additionalProperties') {
+    message = `unknown property '${error.params.additionalProperty}'`;
+  }
+  return location ? `${location}: ${message}` : message;
+}
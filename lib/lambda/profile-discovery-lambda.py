@@ -0,0 +1,226 @@
+import json
+import re
+import boto3
+import logging
+
+logger = logging.getLogger()
+logger.setLevel(logging.INFO)
+
+# Lambda function to discover Bedrock application inference profiles and add them to the
+# quota dashboards
+#
+# Application profiles share the quota of the system inference profile (or foundation model)
+# they were created from. With discovery enabled, the dashboard graphs sum each model's
+# profiles with SEARCH expressions that filter on
+#   (ModelId="<system profile>" OR ModelId="<application profile>" ...)
+# This function lists the application profiles of each region, maps them to system profiles
+# by the foundation models they route to (like scripts/discover-inference-profiles.ts), and
+# rewrites those filters in each dashboard body. A dashboard is only updated when one of its
+# filters changed.
+#
+# Expected event structure (EventBridge events, or ResourceProperties for Custom Resource events):
+# - dashboardNames: Names of the dashboards to update (the main dashboard and any group dashboards)
+# - profiles: List of objects with
+#   - region: Region of the profiles
+#   - systemProfileId: System inference profile or foundation model ID of the model
+#   - applicationProfileIds: Configured application profile IDs, kept even if not discovered
+
+# CloudWatch rejects SEARCH expressions longer than this; profiles that do not fit are left out
+MAX_SEARCH_EXPRESSION_LENGTH = 1024
+
+# Clients are cached per service and region outside the handler for connection reuse
+_clients = {}
+
+def get_client(service, region=None):
+    if (service, region) not in _clients:
+        _clients[(service, region)] = boto3.client(service, region_name=region)
+    return _clients[(service, region)]
+
+def list_inference_profiles(bedrock_client, profile_type):
+    """
+    List all inference profiles of a type ('SYSTEM_DEFINED' or 'APPLICATION').
+    """
+    profiles = []
+    params = {'typeEquals': profile_type, 'maxResults': 100}
+    while True:
+        response = bedrock_client.list_inference_profiles(**params)
+        profiles.extend(response.get('inferenceProfileSummaries', []))
+        if not response.get('nextToken'):
+            return profiles
+        params['nextToken'] = response['nextToken']
+
+def get_foundation_model_arns(profile):
+    """
+    Return the set of foundation model ARNs a profile routes to.
+    """
+    return frozenset(
+        model['modelArn'] for model in profile.get('models', [])
+        if 'foundation-model/' in model.get('modelArn', '')
+    )
+
+def map_application_profiles(system_profiles, application_profiles):
+    """
+    Map application profiles to the system profile routing to exactly the same foundation models.
+    Models are compared by ARN rather than model ID, so that geographic and global profiles of
+    the same model are told apart. Application profiles copied from a foundation model in the
+    region map to that model's ID.
+
+    Returns a dict of system profile (or foundation model) ID to application profile IDs.
+    """
+    system_ids_by_arns = {
+        get_foundation_model_arns(profile): profile['inferenceProfileId']
+        for profile in system_profiles
+    }
+
+    mapping = {}
+    for profile in application_profiles:
+        model_arns = get_foundation_model_arns(profile)
+        system_id = system_ids_by_arns.get(model_arns)
+        if system_id is None and len(model_arns) == 1:
+            system_id = next(iter(model_arns)).split('foundation-model/', 1)[1]
+        if system_id:
+            mapping.setdefault(system_id, []).append(profile['inferenceProfileId'])
+    return mapping
+
+def discover_profiles(profiles):
+    """
+    Return the profile IDs to aggregate per (region, system profile ID): the system profile,
+    the configured application profiles and the discovered ones.
+    """
+    profile_ids = {}
+    for region in sorted({profile['region'] for profile in profiles}):
+        bedrock_client = get_client('bedrock', region)
+        mapping = map_application_profiles(
+            list_inference_profiles(bedrock_client, 'SYSTEM_DEFINED'),
+            list_inference_profiles(bedrock_client, 'APPLICATION')
+        )
+
+        for profile in profiles:
+            if profile['region'] != region:
+                continue
+            system_id = profile['systemProfileId']
+            ids = [system_id]
+            for profile_id in list(profile.get('applicationProfileIds', [])) + sorted(mapping.get(system_id, [])):
+                if profile_id not in ids:
+                    ids.append(profile_id)
+            profile_ids[(region, system_id)] = ids
+            logger.info(f'{system_id} in {region}: {len(ids) - 1} application profiles')
+    return profile_ids
+
+def model_id_filter(profile_ids, max_length=None):
+    """
+    Build the (ModelId="..." OR ...) filter over the profile IDs, in order. With max_length,
+    the profiles from the first one that would make the filter longer are left out; the
+    first profile (the system profile) is always kept.
+
+    Returns the filter and the left out profile IDs.
+    """
+    kept = profile_ids[:1]
+    for profile_id in profile_ids[1:]:
+        candidate = kept + [profile_id]
+        if max_length is not None and len(model_id_filter(candidate)[0]) > max_length:
+            break
+        kept = candidate
+    return '(' + ' OR '.join(f'ModelId="{profile_id}"' for profile_id in kept) + ')', profile_ids[len(kept):]
+
+def rewrite_dashboard_body(body, profile_ids):
+    """
+    Replace the ModelId filters of SEARCH expressions with filters over the given profile IDs.
+
+    Expressions are matched by the system profile ID that starts their filter. Widgets of a
+    multi-region dashboard carry the region of their metrics, which selects between models
+    with the same system profile ID in different regions.
+
+    Filters are capped so that each expression stays within MAX_SEARCH_EXPRESSION_LENGTH;
+    the profiles left out are logged.
+
+    Returns the rewritten body and the number of changed expressions.
+    """
+    changes = 0
+    # Profiles left out of at least one expression, per (region, system profile ID)
+    left_out = {}
+
+    def rewrite_expression(expression, region):
+        nonlocal changes
+        for (profile_region, system_id), ids in profile_ids.items():
+            if region is not None and profile_region != region:
+                continue
+            pattern = re.compile(r'\(ModelId="' + re.escape(system_id) + r'"(?: OR ModelId="[^"]*")*\)')
+            match = pattern.search(expression)
+            if not match:
+                continue
+            max_length = MAX_SEARCH_EXPRESSION_LENGTH - (len(expression) - len(match.group(0)))
+            model_filter, dropped = model_id_filter(ids, max_length)
+            if dropped and len(dropped) > len(left_out.get((profile_region, system_id), [])):
+                left_out[(profile_region, system_id)] = dropped
+            rewritten = expression[:match.start()] + model_filter + expression[match.end():]
+            if rewritten != expression:
+                changes += 1
+            return rewritten
+        return expression
+
+    def rewrite(value, region):
+        if isinstance(value, list):
+            return [rewrite(item, region) for item in value]
+        if isinstance(value, dict):
+            region = value.get('region', region)
+            return {
+                key: rewrite_expression(item, region) if key == 'expression' and isinstance(item, str) else rewrite(item, region)
+                for key, item in value.items()
+            }
+        return value
+
+    rewritten = rewrite(body, None)
+    for (region, system_id), dropped in left_out.items():
+        logger.warning(f'{system_id} in {region}: left out {len(dropped)} application profiles to keep SEARCH expressions '
+                       f'within {MAX_SEARCH_EXPRESSION_LENGTH} characters: {", ".join(dropped)}')
+    return rewritten, changes
+
+def update_dashboard(cw_client, dashboard_name, profile_ids):
+    """
+    Rewrite the dashboard's SEARCH expressions and put the dashboard if anything changed.
+    Returns the number of changed expressions.
+    """
+    body = json.loads(cw_client.get_dashboard(DashboardName=dashboard_name)['DashboardBody'])
+    rewritten, changes = rewrite_dashboard_body(body, profile_ids)
+    if changes > 0:
+        cw_client.put_dashboard(DashboardName=dashboard_name, DashboardBody=json.dumps(rewritten))
+        logger.info(f'Updated {changes} expressions in dashboard {dashboard_name}')
+    else:
+        logger.info(f'Dashboard {dashboard_name} is up to date')
+    return changes
+
+def handler(event, context):
+    logger.info(f'Event: {json.dumps(event)}')
+
+    is_custom_resource = 'RequestType' in event
+    if is_custom_resource and event['RequestType'] == 'Delete':
+        return {
+            'PhysicalResourceId': event.get('PhysicalResourceId', 'initial-profile-discovery'),
+            'Data': {}
+        }
+
+    properties = event['ResourceProperties'] if is_custom_resource else event
+
+    try:
+        profile_ids = discover_profiles(properties.get('profiles', []))
+        changes = sum(
+            update_dashboard(get_client('cloudwatch'), dashboard_name, profile_ids)
+            for dashboard_name in properties['dashboardNames']
+        )
+    except Exception as e:
+        logger.error(f'Error discovering application profiles: {str(e)}')
+        # A failed discovery must not fail the deployment; the schedule retries it
+        if is_custom_resource:
+            return {
+                'PhysicalResourceId': 'initial-profile-discovery',
+                'Data': {'Error': str(e)[:200]}
+            }
+        raise
+
+    if is_custom_resource:
+        return {
+            'PhysicalResourceId': 'initial-profile-discovery',
+            'Data': {'UpdatedExpressions': changes}
+        }
+    return {'statusCode': 200, 'body': json.dumps({'updatedExpressions': changes})}
@@ -1,4 +1,5 @@
 import json
+import os
 import boto3
 import logging
 import time
@@ -9,32 +10,67 @@ logger = logging.getLogger()
 logger.setLevel(logging.INFO)
 
 # Lambda function to fetch AWS Service Quotas for Bedrock models and publish as CloudWatch metrics
+#
+# Per model it publishes the applied quotas (TokenQuota, RequestQuota), the AWS default
+# quotas (DefaultTokenQuota, DefaultRequestQuota) and the number of open increase requests
+# for each quota (PendingTokenQuotaIncreaseRequests, PendingRequestQuotaIncreaseRequests),
+# so the dashboard can show which models run on increased quotas.
 # 
 # Expected event structure:
-# - For Custom Resource events: event['ResourceProperties']['models']
-# - For EventBridge events: event['models']
+# - For Custom Resource events: event['ResourceProperties']['models'] and optional ['region']
+# - For EventBridge events: event['models'] and optional event['region']
+#
+# With appliedQuotasOnly set, only TokenQuota and RequestQuota are fetched and published. The
+# dashboard schedules this every minute for models with alarms, which divide by the quota and
+# need a quota datapoint within their evaluation periods.
+#
+# The region selects where quotas are read from and where the quota metrics are published,
+# so a single function can refresh quotas for every region shown on a multi-region dashboard.
+# When omitted, the function's own region is used.
 # 
 # Each model object should contain:
-# - modelId: Full model ID with endpoint prefix (e.g., 'us.amazon.nova-micro-v1:0')
+# - modelId: Full model ID with endpoint prefix (e.g., 'us.amazon.nova-micro-v1:0' or 'eu.amazon.nova-micro-v1:0')
 # - tokenQuotaCode: AWS Service Quota code for token limits (e.g., 'L-DC7FF66C')
 # - requestQuotaCode: AWS Service Quota code for request limits (e.g., 'L-3F110E0F')
 #
 # The data structure is generated by the CDK stack using the registry-based approach
 # from lib/bedrock-registries.ts
 
-# Initialize clients outside handler for connection reuse
-sq_client = boto3.client('service-quotas')
-cw_client = boto3.client('cloudwatch')
+# Namespace for the published quota metrics, configured by the CDK construct
+METRIC_NAMESPACE = os.environ.get('METRIC_NAMESPACE', 'Bedrock/Quotas')
+
+# Quota increase request statuses that are still awaiting a decision
+PENDING_REQUEST_STATUSES = ['PENDING', 'CASE_OPENED']
+
+# Clients are cached per region outside the handler for connection reuse
+_clients = {}
+
+def get_clients(region=None):
+    """
+    Return (service-quotas, cloudwatch) clients for a region.
+    None uses the function's own region.
+    """
+    if region not in _clients:
+        _clients[region] = (
+            boto3.client('service-quotas', region_name=region),
+            boto3.client('cloudwatch', region_name=region)
+        )
+    return _clients[region]
 
-def get_specific_quotas(service_code, quota_codes, max_retries=3):
+def get_specific_quotas(sq_client, service_code, quota_codes, max_retries=3, aws_default=False):
     """
     Fetch specific quotas by quota code instead of listing all quotas.
     Much more efficient when we only need a small subset of quotas.
     
     GetServiceQuota rate limit: 5 requests/second with 5 burst
     For ~30 quota codes, this takes ~6 seconds vs ~30+ seconds for ListServiceQuotas
+
+    With aws_default=True the AWS default values are fetched (GetAWSDefaultServiceQuota)
+    instead of the values applied to the account.
     """
-    logger.info(f'Fetching {len(quota_codes)} specific quotas for service: {service_code}')
+    get_quota = sq_client.get_aws_default_service_quota if aws_default else sq_client.get_service_quota
+    kind = 'default' if aws_default else 'applied'
+    logger.info(f'Fetching {len(quota_codes)} specific {kind} quotas for service: {service_code}')
     quotas = {}
     failed_quotas = []
     
@@ -55,7 +91,7 @@ def get_specific_quotas(service_code, quota_codes, max_retries=3):
         for quota_code in batch_codes:
             for attempt in range(max_retries):
                 try:
-                    response = sq_client.get_service_quota(
+                    response = get_quota(
                         ServiceCode=service_code,
                         QuotaCode=quota_code
                     )
@@ -101,14 +137,58 @@ def get_specific_quotas(service_code, quota_codes, max_retries=3):
     success_count = len(quotas)
     failed_count = len(failed_quotas)
     
-    logger.info(f'Quota fetch complete: {success_count} successful, {failed_count} failed in {fetch_time:.2f}s')
+    logger.info(f'{kind.capitalize()} quota fetch complete: {success_count} successful, {failed_count} failed in {fetch_time:.2f}s')
     
     if failed_quotas:
-        logger.warning(f'Failed to fetch quotas: {failed_quotas}')
+        logger.warning(f'Failed to fetch {kind} quotas: {failed_quotas}')
     
     return quotas
 
-def publish_metrics_batch(metrics_data):
+def get_pending_requests(sq_client, service_code, quota_codes):
+    """
+    Count open quota increase requests per quota code.
+    ListRequestedServiceQuotaChangeHistory filters on a single status, so each
+    pending status is listed separately.
+
+    Returns None if the history could not be read, so that no misleading zero
+    counts are published.
+    """
+    wanted = set(quota_codes)
+    pending = {}
+
+    try:
+        paginator = sq_client.get_paginator('list_requested_service_quota_change_history')
+        for status in PENDING_REQUEST_STATUSES:
+            for page in paginator.paginate(ServiceCode=service_code, Status=status):
+                for request in page.get('RequestedQuotas', []):
+                    quota_code = request.get('QuotaCode')
+                    if quota_code in wanted:
+                        pending[quota_code] = pending.get(quota_code, 0) + 1
+    except ClientError as error:
+        logger.error(f'Error listing quota increase requests: {error}')
+        return None
+
+    logger.info(f'Found {sum(pending.values())} pending quota increase requests for {len(pending)} quota codes')
+    return pending
+
+def model_metric(metric_name, model_id, value):
+    """
+    Build a PutMetricData entry for a per-model quota metric.
+    """
+    return {
+        'MetricName': metric_name,
+        'Dimensions': [
+            {
+                'Name': 'ModelId',
+                'Value': model_id
+            }
+        ],
+        'Value': value,
+        'Unit': 'None',
+        'Timestamp': datetime.utcnow()
+    }
+
+def publish_metrics_batch(cw_client, metrics_data):
     """
     Publish metrics in batches to avoid CloudWatch API limits.
     CloudWatch PutMetricData supports up to 20 metrics per call.
@@ -121,7 +201,7 @@ def publish_metrics_batch(metrics_data):
         
         try:
             cw_client.put_metric_data(
-                Namespace='Bedrock/Quotas',
+                Namespace=METRIC_NAMESPACE,
                 MetricData=batch
             )
             logger.info(f'Published batch of {len(batch)} metrics (batch {i//batch_size + 1})')
@@ -147,8 +227,11 @@ def handler(event, context):
             'Data': {}
         }
     
-    # Get models from the appropriate location
-    models = event['ResourceProperties'].get('models', []) if is_custom_resource else event.get('models', [])
+    # Get models and target region from the appropriate location
+    properties = event['ResourceProperties'] if is_custom_resource else event
+    models = properties.get('models', [])
+    region = properties.get('region')
+    applied_only = properties.get('appliedQuotasOnly', False)
     
     if not models:
         logger.warning('No models provided in event')
@@ -160,7 +243,8 @@ def handler(event, context):
         else:
             return {'statusCode': 200, 'body': 'No models to process'}
     
-    logger.info(f'Processing quotas for {len(models)} models')
+    logger.info(f'Processing quotas for {len(models)} models in region: {region or "default"}')
+    sq_client, cw_client = get_clients(region)
     
     try:
         # Extract unique quota codes from all models
@@ -179,7 +263,13 @@ def handler(event, context):
         logger.info(f'Need to fetch {len(quota_codes)} unique quota codes')
         
         # Fetch only the specific quotas we need (much faster than fetching all 960)
-        all_quotas = get_specific_quotas('bedrock', quota_codes)
+        all_quotas = get_specific_quotas(sq_client, 'bedrock', quota_codes)
+        if applied_only:
+            default_quotas = {}
+            pending_requests = None
+        else:
+            default_quotas = get_specific_quotas(sq_client, 'bedrock', quota_codes, aws_default=True)
+            pending_requests = get_pending_requests(sq_client, 'bedrock', quota_codes)
         
         # Track processing statistics
         processed_models = 0
@@ -207,18 +297,7 @@ def handler(event, context):
             if token_quota_code:
                 token_quota = all_quotas.get(token_quota_code)
                 if token_quota:
-                    metrics_to_publish.append({
-                        'MetricName': 'TokenQuota',
-                        'Dimensions': [
-                            {
-                                'Name': 'ModelId',
-                                'Value': model_id
-                            }
-                        ],
-                        'Value': token_quota,
-                        'Unit': 'None',
-                        'Timestamp': datetime.utcnow()
-                    })
+                    metrics_to_publish.append(model_metric('TokenQuota', model_id, token_quota))
                     successful_metrics += 1
                 else:
                     logger.warning(f"Token quota code {token_quota_code} not found for {model_id}")
@@ -229,28 +308,42 @@ def handler(event, context):
             if request_quota_code:
                 request_quota = all_quotas.get(request_quota_code)
                 if request_quota:
-                    metrics_to_publish.append({
-                        'MetricName': 'RequestQuota',
-                        'Dimensions': [
-                            {
-                                'Name': 'ModelId',
-                                'Value': model_id
-                            }
-                        ],
-                        'Value': request_quota,
-                        'Unit': 'None',
-                        'Timestamp': datetime.utcnow()
-                    })
+                    metrics_to_publish.append(model_metric('RequestQuota', model_id, request_quota))
                     successful_metrics += 1
                 else:
                     logger.warning(f"Request quota code {request_quota_code} not found for {model_id}")
             else:
                 logger.warning(f"No request quota code provided for {model_id}")
+
+            # AWS default quotas, to compare against the applied quotas
+            default_token_quota = default_quotas.get(token_quota_code) if token_quota_code else None
+            if default_token_quota:
+                metrics_to_publish.append(model_metric('DefaultTokenQuota', model_id, default_token_quota))
+                successful_metrics += 1
+
+            default_request_quota = default_quotas.get(request_quota_code) if request_quota_code else None
+            if default_request_quota:
+                metrics_to_publish.append(model_metric('DefaultRequestQuota', model_id, default_request_quota))
+                successful_metrics += 1
+
+            # Open increase requests of each quota, published as 0 when there are none
+            if pending_requests is not None:
+                if token_quota_code:
+                    pending_count = pending_requests.get(token_quota_code, 0)
+                    metrics_to_publish.append(model_metric('PendingTokenQuotaIncreaseRequests', model_id, pending_count))
+                    successful_metrics += 1
+                if request_quota_code:
+                    pending_count = pending_requests.get(request_quota_code, 0)
+                    metrics_to_publish.append(model_metric('PendingRequestQuotaIncreaseRequests', model_id, pending_count))
+                    successful_metrics += 1
         
+        # None when the increase request history could not be read
+        pending_total = sum(pending_requests.values()) if pending_requests is not None else None
+
         # Publish all metrics in batches
         if metrics_to_publish:
             logger.info(f'Publishing {len(metrics_to_publish)} metrics in batches')
-            publish_metrics_batch(metrics_to_publish)
+            publish_metrics_batch(cw_client, metrics_to_publish)
         
         # Log processing summary
         logger.info(f'Processing complete: {processed_models} models processed, '
@@ -264,7 +357,9 @@ def handler(event, context):
                     'ProcessedModels': processed_models,
                     'SuccessfulMetrics': successful_metrics,
                     'UniqueQuotaCodesFetched': len(quota_codes),
-                    'QuotasFound': len(all_quotas)
+                    'QuotasFound': len(all_quotas),
+                    'DefaultQuotasFound': len(default_quotas),
+                    'PendingIncreaseRequests': pending_total if pending_total is not None else 'unknown'
                 }
             }
         else:
@@ -275,7 +370,9 @@ def handler(event, context):
                     'processedModels': processed_models,
                     'successfulMetrics': successful_metrics,
                     'uniqueQuotaCodesFetched': len(quota_codes),
-                    'quotasFound': len(all_quotas)
+                    'quotasFound': len(all_quotas),
+                    'defaultQuotasFound': len(default_quotas),
+                    'pendingIncreaseRequests': pending_total
                 })
             }
             
@@ -0,0 +1,128 @@
+import json
+import os
+import boto3
+import logging
+from botocore.exceptions import ClientError
+
+logger = logging.getLogger()
+logger.setLevel(logging.INFO)
+
+# Lambda function to request a Bedrock token quota increase when a model's utilization
+# stays above its automatic increase threshold
+#
+# Invoked by an EventBridge rule when one of the model's quota increase alarms (Initial
+# Reservation or Actual Consumption utilization) enters ALARM.
+# Expected event structure:
+# - modelId: Full model ID with endpoint prefix (e.g., 'us.anthropic.claude-sonnet-4-5-20250929-v1:0')
+# - quotaCode: The model's token quota code (e.g., 'L-F4DDD3EB')
+# - maxValue: Token quota the automatic requests never exceed
+# - increaseFactor: Multiplier applied to the current quota for the requested value
+# - alarmName: Name of the alarm that triggered the request (for the record only)
+#
+# A request is only filed when the quota is below maxValue and no request for the quota
+# is still open, so a flapping alarm cannot file duplicate requests. Each decision is
+# logged as a JSON record and, when NOTIFICATION_TOPIC_ARN is set, published to SNS.
+
+SERVICE_CODE = 'bedrock'
+
+# Quota increase request statuses that are still awaiting a decision
+PENDING_REQUEST_STATUSES = ['PENDING', 'CASE_OPENED']
+
+# SNS topic that receives a record of every decision, configured by the CDK construct
+NOTIFICATION_TOPIC_ARN = os.environ.get('NOTIFICATION_TOPIC_ARN')
+
+# Clients are created on first use outside the handler for connection reuse
+_clients = {}
+
+def get_client(service):
+    if service not in _clients:
+        _clients[service] = boto3.client(service)
+    return _clients[service]
+
+def get_pending_requests(sq_client, quota_code):
+    """
+    Return the open increase requests for a quota code.
+    """
+    pending = []
+    paginator = sq_client.get_paginator('list_requested_service_quota_change_history_by_quota')
+    for page in paginator.paginate(ServiceCode=SERVICE_CODE, QuotaCode=quota_code):
+        pending.extend(
+            request for request in page.get('RequestedQuotas', [])
+            if request.get('Status') in PENDING_REQUEST_STATUSES
+        )
+    return pending
+
+def request_quota_increase(sq_client, model_id, quota_code, max_value, increase_factor):
+    """
+    Request an increase of a token quota to min(current * increase_factor, max_value).
+
+    Returns a record of the decision, whose 'action' is one of:
+    - 'requested': an increase request was filed
+    - 'pending': a request for the quota is already open
+    - 'at-cap': the quota is already at or above max_value
+    """
+    record = {
+        'modelId': model_id,
+        'quotaCode': quota_code,
+        'maxValue': max_value,
+    }
+
+    current_value = sq_client.get_service_quota(
+        ServiceCode=SERVICE_CODE,
+        QuotaCode=quota_code
+    )['Quota']['Value']
+    record['currentValue'] = current_value
+
+    if current_value >= max_value:
+        logger.info(f'Quota {quota_code} for {model_id} is already at the cap ({current_value} >= {max_value})')
+        return {**record, 'action': 'at-cap'}
+
+    pending = get_pending_requests(sq_client, quota_code)
+    if pending:
+        logger.info(f'Quota {quota_code} for {model_id} already has {len(pending)} open increase request(s)')
+        return {**record, 'action': 'pending', 'requestId': pending[0].get('Id'), 'desiredValue': pending[0].get('DesiredValue')}
+
+    desired_value = min(current_value * increase_factor, max_value)
+    try:
+        response = sq_client.request_service_quota_increase(
+            ServiceCode=SERVICE_CODE,
+            QuotaCode=quota_code,
+            DesiredValue=desired_value
+        )
+    except ClientError as error:
+        # Another invocation filed a request between the pending check and this call
+        if error.response['Error']['Code'] == 'ResourceAlreadyExistsException':
+            logger.info(f'Quota {quota_code} for {model_id} already has an open increase request')
+            return {**record, 'action': 'pending', 'desiredValue': desired_value}
+        raise
+
+    requested = response.get('RequestedQuota', {})
+    logger.info(f'Requested increase of quota {quota_code} for {model_id} from {current_value} to {desired_value}')
+    return {**record, 'action': 'requested', 'requestId': requested.get('Id'), 'desiredValue': desired_value}
+
+def handler(event, context):
+    logger.info(f'Event: {json.dumps(event)}')
+
+    try:
+        record = request_quota_increase(
+            get_client('service-quotas'),
+            event['modelId'],
+            event['quotaCode'],
+            float(event['maxValue']),
+            float(event.get('increaseFactor', 2))
+        )
+    except Exception as e:
+        logger.error(f'Error requesting quota increase: {str(e)}')
+        raise
+
+    record['alarmName'] = event.get('alarmName')
+    logger.info(f'Quota increase record: {json.dumps(record)}')
+
+    if NOTIFICATION_TOPIC_ARN:
+        get_client('sns').publish(
+            TopicArn=NOTIFICATION_TOPIC_ARN,
+            Subject=f'Bedrock quota increase {record["action"]}: {record["modelId"]}'[:100],
+            Message=json.dumps(record, indent=2)
+        )
+
+    return record
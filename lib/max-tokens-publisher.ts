@@ -0,0 +1,363 @@
+// MaxTokens Publisher for the Bedrock Runtime SDK
+// Bedrock reserves quota for max_tokens when a request starts, but does not publish the
+// value, so the dashboard's Initial Reservation reads it from the MaxTokens custom metric.
+// This module publishes that metric for Node applications: a middleware on
+// BedrockRuntimeClient reads maxTokens from Converse, ConverseStream, InvokeModel and
+// InvokeModelWithResponseStream requests, and a publisher buffers the values and sends
+// them with PutMetricData as one statistic set per model and minute.
+//
+// In 'emf' mode the publisher instead writes one CloudWatch Embedded Metric Format log
+// line per request to stdout, with no API calls from the request path. CloudWatch Logs
+// extracts the same MaxTokens metric from these lines when they are shipped by Lambda or
+// the CloudWatch agent, so the dashboard reads it the same way in either mode.
+//
+// Usage:
+//   const publisher = new MaxTokensPublisher({ region: 'us-east-1' });
+//   const bedrock = new BedrockRuntimeClient({ region: 'us-east-1' });
+//   bedrock.middlewareStack.use(getMaxTokensPublisherPlugin(publisher));
+//   ...
+//   await publisher.close(); // on shutdown, publishes what is still buffered
+//
+// Values are published with the ModelId dimension the dashboard queries: the model ID
+// or inference profile ID the request was sent to, or the ID of an application
+// inference profile (not its ARN). Additional dimensions are published as a second
+// dimension set, so they never change the ModelId metric.
+
+import { CloudWatchClient, PutMetricDataCommand, type MetricDatum } from '@aws-sdk/client-cloudwatch';
+import type { ServiceInputTypes, ServiceOutputTypes } from '@aws-sdk/client-bedrock-runtime';
+import type { InitializeHandler, InitializeHandlerArguments, HandlerExecutionContext, Pluggable } from '@smithy/types';
+
+/** Namespace of the MaxTokens metric; the dashboard's DEFAULT_METRIC_NAMESPACE */
+export const DEFAULT_MAX_TOKENS_NAMESPACE = 'Bedrock/Quotas';
+
+/** Name of the metric the dashboard adds to the input tokens for Initial Reservation */
+export const MAX_TOKENS_METRIC_NAME = 'MaxTokens';
+
+// PutMetricData accepts up to 1000 metric data items per request
+const MAX_METRIC_DATA_PER_REQUEST = 1000;
+
+/**
+ * How MaxTokens values are published:
+ * - 'put-metric-data': buffered and sent with PutMetricData
+ * - 'emf': written as Embedded Metric Format log lines, one per request
+ */
+export type MaxTokensOutputMode = 'put-metric-data' | 'emf';
+
+/** Non-metric properties of a request, written to EMF log lines */
+export interface MaxTokensRequestProperties {
+  readonly [name: string]: string | number | boolean;
+}
+
+export interface MaxTokensPublisherProps {
+  /**
+   * How values are published
+   * @default 'put-metric-data'
+   */
+  readonly mode?: MaxTokensOutputMode;
+  /** Region to publish to, when no client is given. Must be the region the models are invoked in. */
+  readonly region?: string;
+  /** CloudWatch client to publish with (default: a client for `region`) */
+  readonly client?: CloudWatchClient;
+  /**
+   * Namespace of the MaxTokens metric. Must match the dashboard's `namespace`.
+   * @default 'Bedrock/Quotas'
+   */
+  readonly namespace?: string;
+  /**
+   * Milliseconds between publishes of the buffered values. 0 only publishes on flush(),
+   * close() and when the buffer is full.
+   * @default 10000
+   */
+  readonly flushIntervalMs?: number;
+  /**
+   * Number of buffered requests that triggers a publish
+   * @default 1000
+   */
+  readonly maxBufferedRequests?: number;
+  /** Called when publishing fails; the values being published are dropped (default: logs the error) */
+  readonly onError?: (error: unknown) => void;
+  /**
+   * Dimensions such as the application or environment, published in a second dimension
+   * set with ModelId. The dashboard only queries the ModelId dimension set.
+   */
+  readonly dimensions?: { readonly [name: string]: string };
+  /** Writes an EMF log line in 'emf' mode (default: writes the line to stdout) */
+  readonly writeLine?: (line: string) => void;
+}
+
+/** MaxTokens values of one model in one minute */
+interface BufferedStatistics {
+  readonly modelId: string;
+  readonly timestamp: Date;
+  sampleCount: number;
+  sum: number;
+  minimum: number;
+  maximum: number;
+}
+
+/**
+ * Get the ModelId dimension the dashboard queries for a Bedrock Runtime model ID
+ * @param modelId The modelId of the request: a model ID, inference profile ID, or an ARN
+ * @returns The ID part of ARNs, e.g. 'grjihoh0los8' for an application inference profile ARN,
+ * otherwise the model ID unchanged
+ */
+export function getMaxTokensModelId(modelId: string): string {
+  return modelId.startsWith('arn:') ? modelId.slice(modelId.lastIndexOf('/') + 1) : modelId;
+}
+
+// Request body fields holding the maximum output tokens, per model family
+const INVOKE_MODEL_MAX_TOKENS_PATHS: readonly (readonly string[])[] = [
+  ['max_tokens'],                              // Anthropic Messages, Mistral, Cohere, DeepSeek
+  ['inferenceConfig', 'max_new_tokens'],       // Amazon Nova
+  ['inferenceConfig', 'maxTokens'],
+  ['textGenerationConfig', 'maxTokenCount'],   // Amazon Titan Text
+  ['max_gen_len'],                             // Meta Llama
+  ['max_completion_tokens'],                   // OpenAI
+  ['max_tokens_to_sample'],                    // Anthropic Text Completions
+  ['maxTokens'],                               // AI21 Jurassic
+];
+
+/**
+ * Read the maximum output tokens from an InvokeModel or InvokeModelWithResponseStream body
+ * @param body The request body, as JSON text or bytes
+ * @returns The value, or undefined if the body is not JSON or does not set it
+ */
+export function getInvokeModelMaxTokens(body: unknown): number | undefined {
+  let text: string;
+  if (typeof body === 'string') {
+    text = body;
+  } else if (ArrayBuffer.isView(body)) {
+    text = new TextDecoder().decode(new Uint8Array(body.buffer, body.byteOffset, body.byteLength));
+  } else if (body instanceof ArrayBuffer) {
+    text = new TextDecoder().decode(new Uint8Array(body));
+  } else {
+    return undefined;
+  }
+
+  let request: unknown;
+  try {
+    request = JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+
+  for (const keys of INVOKE_MODEL_MAX_TOKENS_PATHS) {
+    const value = keys.reduce<unknown>((node, key) => (node !== null && typeof node === 'object' ? (node as Record<string, unknown>)[key] : undefined), request);
+    if (typeof value === 'number') {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Read the model and maximum output tokens of a Bedrock Runtime request
+ * @param commandName Name of the command, e.g. 'ConverseCommand'
+ * @param input The command input
+ * @returns The ModelId dimension and value to publish, or undefined if the command is not an
+ * inference command or the request does not set the maximum output tokens
+ */
+export function getRequestMaxTokens(commandName: string | undefined, input: unknown): { modelId: string; maxTokens: number } | undefined {
+  const request = input as { modelId?: string; inferenceConfig?: { maxTokens?: number }; body?: unknown };
+  let maxTokens: number | undefined;
+  switch (commandName) {
+    case 'ConverseCommand':
+    case 'ConverseStreamCommand':
+      maxTokens = request.inferenceConfig?.maxTokens;
+      break;
+    case 'InvokeModelCommand':
+    case 'InvokeModelWithResponseStreamCommand':
+      maxTokens = getInvokeModelMaxTokens(request.body);
+      break;
+    default:
+      return undefined;
+  }
+
+  if (!request.modelId || maxTokens === undefined || !Number.isFinite(maxTokens) || maxTokens <= 0) {
+    return undefined;
+  }
+  return { modelId: getMaxTokensModelId(request.modelId), maxTokens };
+}
+
+/**
+ * Buffers MaxTokens values and publishes them to CloudWatch
+ */
+export class MaxTokensPublisher {
+  readonly mode: MaxTokensOutputMode;
+  private readonly client?: CloudWatchClient;
+  private readonly namespace: string;
+  private readonly dimensions: { readonly [name: string]: string };
+  private readonly writeLine: (line: string) => void;
+  private readonly maxBufferedRequests: number;
+  private readonly onError: (error: unknown) => void;
+  private buffer = new Map<string, BufferedStatistics>();
+  private bufferedRequests = 0;
+  private timer?: NodeJS.Timeout;
+  private pending = new Set<Promise<void>>();
+
+  constructor(props: MaxTokensPublisherProps = {}) {
+    this.mode = props.mode ?? 'put-metric-data';
+    this.namespace = props.namespace ?? DEFAULT_MAX_TOKENS_NAMESPACE;
+    this.dimensions = props.dimensions ?? {};
+    this.writeLine = props.writeLine ?? (line => process.stdout.write(`${line}\n`));
+    this.maxBufferedRequests = props.maxBufferedRequests ?? 1000;
+    this.onError = props.onError ?? (error => console.error(`[MAX_TOKENS] Failed to publish ${MAX_TOKENS_METRIC_NAME} metrics:`, error));
+
+    if ('ModelId' in this.dimensions) {
+      throw new Error('MaxTokens dimensions cannot override ModelId');
+    }
+    if (this.mode === 'emf') {
+      // Lines are written as requests are recorded, so there is nothing to buffer
+      return;
+    }
+
+    this.client = props.client ?? new CloudWatchClient({ region: props.region });
+    const flushIntervalMs = props.flushIntervalMs ?? 10000;
+    if (flushIntervalMs > 0) {
+      this.timer = setInterval(() => void this.flush(), flushIntervalMs);
+      // Buffered values must not keep the process alive
+      this.timer.unref();
+    }
+  }
+
+  /**
+   * Record the maximum output tokens of one request
+   * @param modelId ModelId dimension, see getMaxTokensModelId()
+   * @param maxTokens The request's maximum output tokens
+   * @param properties Properties of the request, written to the log line in 'emf' mode
+   */
+  record(modelId: string, maxTokens: number, properties: MaxTokensRequestProperties = {}): void {
+    if (this.mode === 'emf') {
+      this.writeEmfLine(modelId, maxTokens, properties);
+      return;
+    }
+
+    const minute = Math.floor(Date.now() / 60000) * 60000;
+    const key = `${minute}|${modelId}`;
+    const statistics = this.buffer.get(key);
+    if (statistics) {
+      statistics.sampleCount += 1;
+      statistics.sum += maxTokens;
+      statistics.minimum = Math.min(statistics.minimum, maxTokens);
+      statistics.maximum = Math.max(statistics.maximum, maxTokens);
+    } else {
+      this.buffer.set(key, { modelId, timestamp: new Date(minute), sampleCount: 1, sum: maxTokens, minimum: maxTokens, maximum: maxTokens });
+    }
+
+    this.bufferedRequests += 1;
+    if (this.bufferedRequests >= this.maxBufferedRequests) {
+      void this.flush();
+    }
+  }
+
+  /**
+   * Publish the buffered values. Failures are reported to onError, not thrown.
+   * @returns Resolves when the values buffered so far have been published
+   */
+  async flush(): Promise<void> {
+    if (!this.client) {
+      return;
+    }
+    const client = this.client;
+    const statistics = [...this.buffer.values()];
+    this.buffer = new Map();
+    this.bufferedRequests = 0;
+
+    const additionalDimensions = Object.entries(this.dimensions).map(([Name, Value]) => ({ Name, Value }));
+    const metricData: MetricDatum[] = statistics.flatMap(({ modelId, timestamp, sampleCount, sum, minimum, maximum }) => {
+      const datum: MetricDatum = {
+        MetricName: MAX_TOKENS_METRIC_NAME,
+        Dimensions: [{ Name: 'ModelId', Value: modelId }],
+        Timestamp: timestamp,
+        StatisticValues: { SampleCount: sampleCount, Sum: sum, Minimum: minimum, Maximum: maximum },
+        Unit: 'None',
+      };
+      return additionalDimensions.length > 0
+        ? [datum, { ...datum, Dimensions: [...datum.Dimensions!, ...additionalDimensions] }]
+        : [datum];
+    });
+
+    for (let start = 0; start < metricData.length; start += MAX_METRIC_DATA_PER_REQUEST) {
+      const request = client
+        .send(new PutMetricDataCommand({ Namespace: this.namespace, MetricData: metricData.slice(start, start + MAX_METRIC_DATA_PER_REQUEST) }))
+        .then(() => undefined, error => this.onError(error));
+      this.pending.add(request);
+      void request.finally(() => this.pending.delete(request));
+    }
+    await Promise.all(this.pending);
+  }
+
+  /**
+   * Stop the flush timer and publish the buffered values
+   */
+  async close(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    await this.flush();
+  }
+
+  /**
+   * Write the Embedded Metric Format log line of one request
+   */
+  private writeEmfLine(modelId: string, maxTokens: number, properties: MaxTokensRequestProperties): void {
+    const dimensionSets = [['ModelId']];
+    if (Object.keys(this.dimensions).length > 0) {
+      dimensionSets.push(['ModelId', ...Object.keys(this.dimensions)]);
+    }
+
+    this.writeLine(JSON.stringify({
+      ...properties,
+      ...this.dimensions,
+      ModelId: modelId,
+      [MAX_TOKENS_METRIC_NAME]: maxTokens,
+      _aws: {
+        Timestamp: Date.now(),
+        CloudWatchMetrics: [{
+          Namespace: this.namespace,
+          Dimensions: dimensionSets,
+          Metrics: [{ Name: MAX_TOKENS_METRIC_NAME, Unit: 'None' }],
+        }],
+      },
+    }));
+  }
+}
+
+/**
+ * Create a middleware that records the maximum output tokens of each Bedrock Runtime
+ * request with the publisher, before the request is sent
+ * @param publisher Publisher to record the values with
+ */
+export function maxTokensPublisherMiddleware(publisher: MaxTokensPublisher) {
+  return (next: InitializeHandler<ServiceInputTypes, ServiceOutputTypes>, context: HandlerExecutionContext): InitializeHandler<ServiceInputTypes, ServiceOutputTypes> =>
+    async (args: InitializeHandlerArguments<ServiceInputTypes>) => {
+      // Publishing must never fail the Bedrock request
+      try {
+        const request = getRequestMaxTokens(context.commandName, args.input);
+        if (request) {
+          publisher.record(request.modelId, request.maxTokens, { Operation: context.commandName!.replace(/Command$/, '') });
+        }
+      } catch (error) {
+        console.error(`[MAX_TOKENS] Failed to record ${MAX_TOKENS_METRIC_NAME}:`, error);
+      }
+      return next(args);
+    };
+}
+
+/**
+ * Get a plugin adding the MaxTokens middleware to a BedrockRuntimeClient,
+ * for use with `client.middlewareStack.use()`
+ * @param publisher Publisher to record the values with
+ */
+export function getMaxTokensPublisherPlugin(publisher: MaxTokensPublisher): Pluggable<ServiceInputTypes, ServiceOutputTypes> {
+  return {
+    applyToStack: stack => {
+      stack.add(maxTokensPublisherMiddleware(publisher), {
+        step: 'initialize',
+        name: 'maxTokensPublisherMiddleware',
+        override: true,
+      });
+    },
+  };
+}
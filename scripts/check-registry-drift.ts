@@ -0,0 +1,91 @@
+#!/usr/bin/env ts-node
+/**
+ * Check a Committed Region Registry for Drift Against Live Quotas
+ *
+ * This script loads the region's registry (BEDROCK_MODELS for that region) and checks
+ * every tokenQuotaCode/requestQuotaCode against the region's Bedrock Service Quotas:
+ * the code must exist, and its quota name must be for the same model, endpoint type and
+ * kind (tokens or requests). It also reports models and endpoint types that have quotas
+ * in the region but are not in the registry.
+ *
+ * The JSON report is printed to stdout (or written with --output) and a summary to stderr.
+ *
+ * Exit codes:
+ *   0  No drift
+ *   1  Drift found
+ *   2  The check could not run (e.g. missing credentials or no registry for the region)
+ *
+ * Usage:
+ *   npx ts-node scripts/check-registry-drift.ts [region] [--output <file>] [--allow-unregistered]
+ *
+ * Examples:
+ *   npx ts-node scripts/check-registry-drift.ts us-west-2
+ *   npx ts-node scripts/check-registry-drift.ts us-east-1 --output drift-report.json --allow-unregistered
+ */
+
+import { writeFileSync } from 'fs';
+import { getRegistry } from '../lib/bedrock-registries';
+import { fetchRegionApiData } from './lib/bedrock-api';
+import { detectRegistryDrift } from './lib/registry-drift';
+
+async function main(): Promise<number> {
+  const args = process.argv.slice(2);
+
+  if (args.includes('--help') || args.includes('-h')) {
+    console.log('Usage: npx ts-node scripts/check-registry-drift.ts [region] [--output <file>] [--allow-unregistered]');
+    console.log('\nChecks the region registry against live Bedrock Service Quotas and prints a JSON drift report.');
+    console.log('\nOptions:');
+    console.log('  region                AWS region (defaults to AWS_DEFAULT_REGION or us-east-1)');
+    console.log('  --output <file>       Write the JSON report to a file instead of stdout');
+    console.log('  --allow-unregistered  Report unregistered models without failing the check');
+    console.log('\nExit codes: 0 = no drift, 1 = drift found, 2 = check failed');
+    return 0;
+  }
+
+  const outputIndex = args.indexOf('--output');
+  const outputFile = outputIndex === -1 ? undefined : args[outputIndex + 1];
+  const positional = args.filter((arg, index) => !arg.startsWith('--') && (outputIndex === -1 || index !== outputIndex + 1));
+  const region = positional[0] || process.env.AWS_DEFAULT_REGION || 'us-east-1';
+  const allowUnregistered = args.includes('--allow-unregistered');
+
+  const registry = getRegistry(region);
+  console.error(`Checking the ${region} registry against live Bedrock quotas...`);
+
+  const apiData = await fetchRegionApiData(region);
+  const report = detectRegistryDrift({ region, registry, ...apiData });
+  const output = JSON.stringify({ generatedAt: new Date().toISOString(), ...report }, null, 2);
+
+  if (outputFile) {
+    writeFileSync(outputFile, `${output}\n`);
+    console.error(`Report written to: ${outputFile}`);
+  } else {
+    console.log(output);
+  }
+
+  const { summary } = report;
+  console.error(`\nChecked ${summary.checkedQuotaCodes} quota codes for ${summary.registeredModels} models`);
+  report.issues.forEach(issue => console.error(`  ✗ ${issue.provider}.${issue.modelKey} (${issue.endpointType}): ${issue.message}`));
+  report.unregisteredModels.forEach(model => console.error(
+    `  + ${model.provider}.${model.modelKey} (${model.modelId}): ${model.registered ? 'unregistered endpoint types' : 'not in registry'} ${model.endpointTypes.join(', ')}`
+  ));
+
+  const failed = summary.issues > 0 || (!allowUnregistered && summary.unregisteredModels > 0);
+  if (report.hasDrift) {
+    console.error(`\nDrift found: ${summary.issues} issues, ${summary.unregisteredModels} unregistered models.`);
+    console.error(`Regenerate with: npx ts-node scripts/generate-registry.ts ${region}`);
+  } else {
+    console.error('\nNo drift found.');
+  }
+  return failed ? 1 : 0;
+}
+
+main().then(exitCode => {
+  process.exitCode = exitCode;
+}).catch(error => {
+  console.error('Error checking registry drift:', error);
+  console.error('\nMake sure you have:');
+  console.error('1. AWS credentials configured');
+  console.error('2. Permissions for servicequotas:ListServiceQuotas, bedrock:ListFoundationModels and bedrock:ListInferenceProfiles');
+  console.error('3. A registry for the region in lib/bedrock-registries.ts');
+  process.exitCode = 2;
+});
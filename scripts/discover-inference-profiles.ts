@@ -6,26 +6,46 @@
  * maps them to their corresponding system inference profiles, and generates
  * TypeScript configuration that can be added to the CDK dashboard stack.
  *
+ * With --write, the region's profiles are recorded in application-profiles.json
+ * (other regions in the file are kept), and the stack adds them to the matching
+ * dashboard configs at synth. With --check, the script exits with code 1 if the
+ * file does not match the discovered profiles, e.g. to flag new profiles in CI.
+ * With --tag <key> (repeatable), the values of those tags, such as cost-allocation
+ * tags, are recorded with each profile and can label it on the dashboard.
+ *
  * Usage:
- *   npx ts-node scripts/discover-inference-profiles.ts [region]
+ *   npx ts-node scripts/discover-inference-profiles.ts [region] [--write | --check] [--file <path>] [--tag <key>]
  *
  * Examples:
  *   npx ts-node scripts/discover-inference-profiles.ts
  *   npx ts-node scripts/discover-inference-profiles.ts us-west-2
+ *   npx ts-node scripts/discover-inference-profiles.ts us-east-1 --write
+ *   npx ts-node scripts/discover-inference-profiles.ts us-east-1 --check
+ *   npx ts-node scripts/discover-inference-profiles.ts us-east-1 --write --tag team
  */
 
+import { writeFileSync } from 'fs';
+import { parseArgs } from 'util';
 import {
   BedrockClient,
   ListInferenceProfilesCommand,
+  ListTagsForResourceCommand,
   InferenceProfileSummary,
   InferenceProfileModel,
 } from '@aws-sdk/client-bedrock';
+import {
+  DEFAULT_APPLICATION_PROFILES_FILE,
+  diffApplicationProfiles,
+  loadApplicationProfiles,
+  type RegionApplicationProfiles,
+} from '../lib/application-profiles';
 
 interface ProfileGroup {
   systemProfileId: string;
   applicationProfiles: Array<{
     id: string;
     name: string;
+    tags?: { [key: string]: string };
   }>;
 }
 
@@ -57,6 +77,24 @@ async function getInferenceProfilesByType(
   return profiles;
 }
 
+/**
+ * Fetch the values of the given tag keys of a profile
+ * @returns The tags, or undefined if the profile has none of them
+ */
+async function getProfileTags(
+  client: BedrockClient,
+  profileArn: string,
+  keys: string[]
+): Promise<{ [key: string]: string } | undefined> {
+  const response = await client.send(new ListTagsForResourceCommand({ resourceARN: profileArn }));
+  const tags = Object.fromEntries(
+    (response.tags ?? [])
+      .filter((tag) => tag.key !== undefined && keys.includes(tag.key))
+      .map((tag) => [tag.key!, tag.value ?? ''])
+  );
+  return Object.keys(tags).length > 0 ? tags : undefined;
+}
+
 /**
  * Extract the model ID from a foundation model ARN
  * Example: arn:aws:bedrock:us-east-1::foundation-model/anthropic.claude-sonnet-4-5-20250929-v1:0
@@ -153,12 +191,12 @@ function generateTypeScriptConfig(groups: Map<string, ProfileGroup>): string {
   lines.push('// Generated by: npx ts-node scripts/discover-inference-profiles.ts');
   lines.push('// Add these to your DashboardConfig in lib/cdk-quota-dashboards-stack.ts');
   lines.push('');
-  lines.push('// Example usage in allDashboardConfigs:');
-  lines.push('// {');
+  lines.push('// Example usage in dashboardConfigs:');
+  lines.push('// defineDashboardConfig({');
   lines.push('//   modelConfig: BEDROCK_MODELS.ANTHROPIC.CLAUDE_SONNET_4_5,');
   lines.push("//   endpointType: 'cross-region',");
   lines.push("//   applicationProfileIds: ['profile1', 'profile2'],  // <-- Add this");
-  lines.push('// }');
+  lines.push('// }),');
   lines.push('');
 
   for (const [systemId, group] of groups) {
@@ -178,8 +216,69 @@ function generateTypeScriptConfig(groups: Map<string, ProfileGroup>): string {
   return lines.join('\n');
 }
 
+/**
+ * Convert profile groups to the application profiles file format, sorted for stable diffs
+ */
+function toRegionApplicationProfiles(groups: Map<string, ProfileGroup>): RegionApplicationProfiles {
+  const profiles: { [systemProfileId: string]: ProfileGroup['applicationProfiles'] } = {};
+  [...groups.keys()].sort().forEach(systemId => {
+    profiles[systemId] = [...groups.get(systemId)!.applicationProfiles].sort((a, b) => a.id.localeCompare(b.id));
+  });
+  return profiles;
+}
+
+/**
+ * Record the region's profiles in the application profiles file, keeping other regions
+ */
+function writeProfilesFile(file: string, region: string, profiles: RegionApplicationProfiles): void {
+  const contents = { ...loadApplicationProfiles(file), [region]: profiles };
+  const sorted = Object.fromEntries(Object.keys(contents).sort().map(key => [key, contents[key]]));
+  writeFileSync(file, `${JSON.stringify(sorted, null, 2)}\n`);
+  console.log(`\nApplication profiles for ${region} written to: ${file}`);
+}
+
+/**
+ * Compare the region's profiles with the application profiles file
+ * @returns True if the file is up to date
+ */
+function checkProfilesFile(file: string, region: string, profiles: RegionApplicationProfiles): boolean {
+  const recorded = loadApplicationProfiles(file)?.[region] ?? {};
+  const { added, removed } = diffApplicationProfiles(recorded, profiles);
+
+  const print = (label: string, changes: RegionApplicationProfiles) => {
+    Object.entries(changes).forEach(([systemId, apps]) => {
+      apps.forEach(app => console.log(`  ${label} ${app.id} (${app.name}) -> ${systemId}`));
+    });
+  };
+
+  const upToDate = Object.keys(added).length === 0 && Object.keys(removed).length === 0;
+  if (upToDate) {
+    console.log(`\n${file} is up to date for ${region}.`);
+  } else {
+    console.log(`\n${file} is out of date for ${region}:`);
+    print('+ not on the dashboard:', added);
+    print('- no longer exists:    ', removed);
+    console.log(`\nUpdate it with: npx ts-node scripts/discover-inference-profiles.ts ${region} --write`);
+  }
+  return upToDate;
+}
+
 async function main() {
-  const region = process.argv[2] || process.env.AWS_DEFAULT_REGION || 'us-east-1';
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      write: { type: 'boolean' },
+      check: { type: 'boolean' },
+      file: { type: 'string', default: DEFAULT_APPLICATION_PROFILES_FILE },
+      tag: { type: 'string', multiple: true },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+  if (values.write && values.check) {
+    throw new Error('--write and --check cannot be combined');
+  }
+  const region = positionals[0] || process.env.AWS_DEFAULT_REGION || 'us-east-1';
+  const file = values.file!;
 
   console.log('='.repeat(70));
   console.log('Bedrock Application Inference Profile Discovery');
@@ -196,7 +295,7 @@ async function main() {
   console.log(`  Found ${systemProfiles.length} system profiles`);
   console.log(`  Found ${appProfiles.length} application profiles`);
 
-  if (appProfiles.length === 0) {
+  if (appProfiles.length === 0 && !values.write && !values.check) {
     console.log('\nNo application inference profiles found in this account/region.');
     console.log('Create application profiles using the AWS Console or CLI:');
     console.log('  aws bedrock create-inference-profile \\');
@@ -213,6 +312,18 @@ async function main() {
     [...groups].filter(([, v]) => v.applicationProfiles.length > 0)
   );
 
+  // Record the requested tags of each profile, e.g. a cost-allocation tag naming the team
+  const tagKeys = values.tag ?? [];
+  if (tagKeys.length > 0) {
+    console.log(`\nFetching tags: ${tagKeys.join(', ')}`);
+    for (const group of groupsWithProfiles.values()) {
+      for (const app of group.applicationProfiles) {
+        const arn = appProfiles.find((profile) => profile.inferenceProfileId === app.id)?.inferenceProfileArn;
+        app.tags = arn ? await getProfileTags(client, arn, tagKeys) : undefined;
+      }
+    }
+  }
+
   // Display results
   console.log('\n' + '-'.repeat(70));
   console.log('Profile Groups (System Profile -> Application Profiles)');
@@ -223,16 +334,26 @@ async function main() {
     console.log(`\n${systemId}`);
     console.log(`  Application profiles (${appCount}):`);
     for (const app of group.applicationProfiles) {
-      console.log(`    - ${app.id}: ${app.name}`);
+      const tags = Object.entries(app.tags ?? {}).map(([key, value]) => `${key}=${value}`).join(', ');
+      console.log(`    - ${app.id}: ${app.name}${tags ? ` [${tags}]` : ''}`);
     }
   }
 
-  // Generate TypeScript config
-  console.log('\n' + '='.repeat(70));
-  console.log('CDK Configuration (copy to your stack)');
-  console.log('='.repeat(70));
-  console.log();
-  console.log(generateTypeScriptConfig(groupsWithProfiles));
+  const profiles = toRegionApplicationProfiles(groupsWithProfiles);
+  if (values.write) {
+    writeProfilesFile(file, region, profiles);
+  } else if (values.check) {
+    if (!checkProfilesFile(file, region, profiles)) {
+      process.exitCode = 1;
+    }
+  } else {
+    // Generate TypeScript config
+    console.log('\n' + '='.repeat(70));
+    console.log('CDK Configuration (copy to your stack, or record it with --write)');
+    console.log('='.repeat(70));
+    console.log();
+    console.log(generateTypeScriptConfig(groupsWithProfiles));
+  }
 
   // Summary
   let totalAppProfiles = 0;
@@ -254,11 +375,16 @@ async function main() {
 
 // Show usage if --help is passed
 if (process.argv.includes('--help') || process.argv.includes('-h')) {
-  console.log('Usage: npx ts-node scripts/discover-inference-profiles.ts [region]');
+  console.log('Usage: npx ts-node scripts/discover-inference-profiles.ts [region] [--write | --check] [--file <path>] [--tag <key>]');
   console.log('\nDiscovers application inference profiles and generates CDK configuration.');
   console.log('\nOptional region parameter (defaults to us-east-1 or AWS_DEFAULT_REGION)');
   console.log('\nThe output shows which application profiles share quota with system profiles,');
   console.log('and provides configuration to add to your CDK dashboard stack.');
+  console.log('\nOptions:');
+  console.log('  --write          Record the region\'s profiles in the application profiles file read by the stack');
+  console.log('  --check          Exit with code 1 if the file does not match the discovered profiles');
+  console.log('  --file <path>    Application profiles file (defaults to application-profiles.json)');
+  console.log('  --tag <key>      Record the value of this tag with each profile (repeatable), e.g. a cost-allocation tag');
   process.exit(0);
 }
 
@@ -266,7 +392,7 @@ main().catch((error) => {
   console.error('Error:', error.message);
   console.log('\nMake sure you have:');
   console.log('1. AWS credentials configured');
-  console.log('2. Permissions for bedrock:ListInferenceProfiles');
+  console.log('2. Permissions for bedrock:ListInferenceProfiles (and bedrock:ListTagsForResource with --tag)');
   console.log('3. Bedrock service available in your region');
   process.exit(1);
 });
@@ -0,0 +1,107 @@
+#!/usr/bin/env ts-node
+/**
+ * Generate a Region Registry from Service Quotas and Bedrock APIs
+ *
+ * This script combines the region's Bedrock Service Quotas with its foundation models
+ * and system inference profiles, matches per-minute quota names (e.g. "Cross-region
+ * model inference tokens per minute for Anthropic Claude Sonnet 4.5 V1") to model IDs,
+ * and writes a complete lib/bedrock-registries/<region>.ts file.
+ *
+ * Provider groups, model keys and burndown rates are kept from the region's current
+ * registry, or from the us-east-1 catalogue (BEDROCK_MODELS) for a new region, so that
+ * dashboard configs keep resolving across regions. Models in neither default to a
+ * burndown rate of 1 and are marked for review.
+ *
+ * A new region also needs the geography prefix of its cross-region inference profiles
+ * (--cross-region-prefix), since a region can have profiles of several geographies.
+ *
+ * Usage:
+ *   npx ts-node scripts/generate-registry.ts [region] [--cross-region-prefix <prefix>] [--output <file>] [--stdout]
+ *
+ * Examples:
+ *   npx ts-node scripts/generate-registry.ts
+ *   npx ts-node scripts/generate-registry.ts eu-west-1 --cross-region-prefix eu
+ *   npx ts-node scripts/generate-registry.ts us-west-2 --stdout > /tmp/us-west-2.ts
+ */
+
+import { writeFileSync } from 'fs';
+import * as path from 'path';
+import { BEDROCK_MODELS, getRegistry, getSupportedRegions } from '../lib/bedrock-registries';
+import { fetchRegionApiData } from './lib/bedrock-api';
+import { buildRegistry, renderRegistryFile } from './lib/registry-generator';
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+
+  if (args.includes('--help') || args.includes('-h')) {
+    console.log('Usage: npx ts-node scripts/generate-registry.ts [region] [--cross-region-prefix <prefix>] [--output <file>] [--stdout]');
+    console.log('\nGenerates a Bedrock model registry file from Service Quotas and Bedrock APIs.');
+    console.log('\nOptions:');
+    console.log('  region                          AWS region (defaults to AWS_DEFAULT_REGION or us-east-1)');
+    console.log('  --cross-region-prefix <prefix>  Geography prefix of the cross-region inference profiles, e.g. eu');
+    console.log('                                  (required for a new region, defaults to the one in REGION_REGISTRIES)');
+    console.log('  --output <file>                 Output file (defaults to lib/bedrock-registries/<region>.ts)');
+    console.log('  --stdout                        Print the registry instead of writing a file');
+    process.exit(0);
+  }
+
+  const outputIndex = args.indexOf('--output');
+  const outputArg = outputIndex === -1 ? undefined : args[outputIndex + 1];
+  const prefixIndex = args.indexOf('--cross-region-prefix');
+  const crossRegionPrefix = prefixIndex === -1 ? undefined : args[prefixIndex + 1];
+  const optionValues = [outputIndex, prefixIndex].filter(index => index !== -1).map(index => index + 1);
+  const positional = args.filter((arg, index) => !arg.startsWith('--') && !optionValues.includes(index));
+  const region = positional[0] || process.env.AWS_DEFAULT_REGION || 'us-east-1';
+  const toStdout = args.includes('--stdout');
+  const isRegistered = getSupportedRegions().includes(region);
+  if (!isRegistered && !crossRegionPrefix) {
+    throw new Error(`${region} has no registry yet - pass the geography prefix of its cross-region inference profiles with --cross-region-prefix`);
+  }
+  const log = toStdout ? console.error : console.log;
+
+  log(`Fetching Bedrock quotas, foundation models and inference profiles for region: ${region}...`);
+
+  const { quotas, foundationModels, inferenceProfiles } = await fetchRegionApiData(region);
+  log(`Found ${quotas.length} quotas, ${foundationModels.length} foundation models, ${inferenceProfiles.length} system inference profiles`);
+
+  const result = buildRegistry({
+    region,
+    quotas,
+    foundationModels,
+    inferenceProfiles,
+    crossRegionPrefix,
+    existing: isRegistered ? getRegistry(region) : BEDROCK_MODELS,
+  });
+  const source = renderRegistryFile(region, result.models);
+
+  const newModels = result.models.filter(model => model.isNew);
+  log(`\nGenerated ${result.models.length} models (${newModels.length} new)`);
+  newModels.forEach(model => log(`  + ${model.provider}.${model.modelKey} (${model.modelId}) - check outputTokenBurndownRate`));
+
+  if (result.unmatchedQuotas.length > 0) {
+    log(`\n${result.unmatchedQuotas.length} quotas could not be matched to a foundation model:`);
+    result.unmatchedQuotas.forEach(name => log(`  - ${name}`));
+  }
+
+  if (toStdout) {
+    process.stdout.write(source);
+    return;
+  }
+
+  const outputFile = outputArg ?? path.join(__dirname, '..', 'lib', 'bedrock-registries', `${region}.ts`);
+  writeFileSync(outputFile, source);
+  log(`\nRegistry written to: ${outputFile}`);
+
+  if (!isRegistered) {
+    log(`\nNext: import the file in lib/bedrock-registries.ts and add '${region}' to REGION_REGISTRIES with crossRegionPrefix: '${crossRegionPrefix}'.`);
+  }
+}
+
+main().catch(error => {
+  console.error('Error generating registry:', error);
+  console.log('\nMake sure you have:');
+  console.log('1. AWS credentials configured');
+  console.log('2. Permissions for servicequotas:ListServiceQuotas, bedrock:ListFoundationModels and bedrock:ListInferenceProfiles');
+  console.log('3. Bedrock service available in your region');
+  process.exit(1);
+});
@@ -1,96 +1,83 @@
 #!/usr/bin/env ts-node
-import { 
-  ServiceQuotasClient, 
-  ListServiceQuotasCommand, 
-  ServiceQuota,
-  ListServiceQuotasCommandOutput 
-} from '@aws-sdk/client-service-quotas';
+/**
+ * List Bedrock Service Quotas with Their Default Values
+ *
+ * This script lists the region's Bedrock quotas with the applied value (ListServiceQuotas),
+ * the AWS default value (ListAWSDefaultServiceQuotas), unit, and whether the quota is
+ * adjustable or global, so applied and default quotas can be compared or loaded into a
+ * spreadsheet.
+ *
+ * The listing is printed to stdout (or written with --output) and progress to stderr.
+ *
+ * Usage:
+ *   npx ts-node scripts/get-quota-codes.ts [region] [--format table|json|csv] [--output <file>]
+ *                                          [--name <regex>] [--code <quota-code>]...
+ *
+ * Examples:
+ *   npx ts-node scripts/get-quota-codes.ts
+ *   npx ts-node scripts/get-quota-codes.ts us-west-2 --name "tokens per minute.*Claude"
+ *   npx ts-node scripts/get-quota-codes.ts us-east-1 --format csv --output bedrock-quotas.csv
+ *   npx ts-node scripts/get-quota-codes.ts --format json --code L-F4DDD3EB --code L-4A6BFAB1
+ */
+
 import { writeFileSync } from 'fs';
+import { parseArgs } from 'util';
+import { fetchBedrockQuotas } from './lib/bedrock-api';
+import { buildQuotaRows, filterQuotaRows, formatQuotaRows, QUOTA_OUTPUT_FORMATS, type QuotaOutputFormat } from './lib/quota-report';
+
+const USAGE = 'Usage: npx ts-node scripts/get-quota-codes.ts [region] [--format table|json|csv] [--output <file>] [--name <regex>] [--code <quota-code>]...';
 
-async function getAllBedrockQuotas(region?: string) {
-  const targetRegion = region || process.env.AWS_DEFAULT_REGION || 'us-east-1';
-  const client = new ServiceQuotasClient({ 
-    region: targetRegion 
+async function main(): Promise<void> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      format: { type: 'string', short: 'f', default: 'table' },
+      output: { type: 'string', short: 'o' },
+      name: { type: 'string' },
+      code: { type: 'string', multiple: true },
+      help: { type: 'boolean', short: 'h' },
+    },
   });
-  
-  try {
-    console.log(`Fetching all Bedrock Service Quotas for region: ${targetRegion}...\n`);
-    
-    let allQuotas: ServiceQuota[] = [];
-    let nextToken: string | undefined = undefined;
-    
-    // Paginate through all results
-    do {
-      const response: ListServiceQuotasCommandOutput = await client.send(new ListServiceQuotasCommand({
-        ServiceCode: 'bedrock',
-        NextToken: nextToken,
-        MaxResults: 100,
-      }));
-      
-      if (response.Quotas) {
-        allQuotas = allQuotas.concat(response.Quotas);
-      }
-      
-      nextToken = response.NextToken;
-    } while (nextToken);
-    
-    if (allQuotas.length === 0) {
-      console.log('No quotas found for Bedrock service.');
-      return;
-    }
-    
-    console.log(`Found ${allQuotas.length} total Bedrock quotas\n`);
-    
-    // Display all quotas
-    console.log('All Bedrock Quotas:\n');
-    console.log('Code'.padEnd(15), 'Value'.padEnd(15), 'Name');
-    console.log('-'.repeat(100));
-    
-    allQuotas.forEach(quota => {
-      console.log(
-        (quota.QuotaCode || 'N/A').padEnd(15),
-        (quota.Value?.toString() || 'N/A').padEnd(15),
-        quota.QuotaName || 'N/A'
-      );
-    });
-    
-    // Save to file with timestamp and region
-    const timestamp = new Date().toISOString().split('T')[0].replace(/-/g, '');
-    const regionSuffix = region ? `-${region}` : '';
-    const filename = `bedrock-quota-codes-${timestamp}${regionSuffix}.txt`;
-    
-    let output = `Fetching all Bedrock Service Quotas for region: ${targetRegion}...\n\n`;
-    output += `Found ${allQuotas.length} total quotas\n\n`;
-    output += `All Bedrock Quotas:\n\n`;
-    output += `${'Code'.padEnd(15)} ${'Value'.padEnd(15)} Name\n`;
-    output += `${'-'.repeat(100)}\n`;
-    
-    allQuotas.forEach(quota => {
-      output += `${(quota.QuotaCode || 'N/A').padEnd(15)} ${(quota.Value?.toString() || 'N/A').padEnd(15)} ${quota.QuotaName || 'N/A'}\n`;
-    });
-    
-    writeFileSync(filename, output);
-    console.log(`\nQuotas saved to: ${filename}`);
-    
-  } catch (error) {
-    console.error('Error fetching quotas:', error);
-    console.log('\nMake sure you have:');
-    console.log('1. AWS credentials configured');
-    console.log('2. Permissions for service-quotas:ListServiceQuotas');
-    console.log('3. Bedrock service available in your region');
+
+  if (values.help) {
+    console.log(USAGE);
+    console.log('\nLists Bedrock service quotas with their applied and default values.');
+    console.log('\nOptions:');
+    console.log('  region               AWS region (defaults to AWS_DEFAULT_REGION or us-east-1)');
+    console.log('  --format <format>    Output format: table (default), json or csv');
+    console.log('  --output <file>      Write the listing to a file instead of stdout');
+    console.log('  --name <regex>       Only quotas whose name matches (case-insensitive)');
+    console.log('  --code <quota-code>  Only these quota codes (repeatable)');
+    return;
   }
-}
 
-// Show usage if --help is passed
-if (process.argv.includes('--help') || process.argv.includes('-h')) {
-  console.log('Usage: npx ts-node scripts/get-quota-codes.ts [region]');
-  console.log('\nFetches all AWS Bedrock service quotas and saves them to a timestamped file.');
-  console.log('\nOptional region parameter (defaults to us-east-1 or AWS_DEFAULT_REGION)');
-  console.log('\nOutput file format: bedrock-quota-codes-YYYYMMDD-[region].txt');
-  process.exit(0);
-}
+  const format = values.format as QuotaOutputFormat;
+  if (!QUOTA_OUTPUT_FORMATS.includes(format)) {
+    throw new Error(`Unknown format '${values.format}'. Use one of: ${QUOTA_OUTPUT_FORMATS.join(', ')}`);
+  }
+  const region = positionals[0] || process.env.AWS_DEFAULT_REGION || 'us-east-1';
+
+  console.error(`Fetching all Bedrock Service Quotas for region: ${region}...`);
+
+  const { applied, defaults } = await fetchBedrockQuotas(region);
+  const rows = filterQuotaRows(buildQuotaRows(applied, defaults), { nameRegex: values.name, quotaCodes: values.code });
+  console.error(`Found ${applied.length} applied and ${defaults.length} default quotas, ${rows.length} selected`);
 
-// Get region from command line argument
-const region = process.argv[2];
+  const output = formatQuotaRows(rows, format);
+  if (values.output) {
+    writeFileSync(values.output, output);
+    console.error(`Quotas saved to: ${values.output}`);
+  } else {
+    process.stdout.write(output);
+  }
+}
 
-getAllBedrockQuotas(region);
+main().catch(error => {
+  console.error('Error listing quotas:', error instanceof Error ? error.message : error);
+  console.error('\nMake sure you have:');
+  console.error('1. AWS credentials configured');
+  console.error('2. Permissions for servicequotas:ListServiceQuotas and servicequotas:ListAWSDefaultServiceQuotas');
+  console.error('3. Bedrock service available in your region');
+  console.error(`\n${USAGE}`);
+  process.exit(1);
+});
@@ -0,0 +1,105 @@
+/**
+ * Service Quotas and Bedrock API calls shared by the registry scripts
+ */
+
+import {
+  ServiceQuotasClient,
+  ListServiceQuotasCommand,
+  ListAWSDefaultServiceQuotasCommand,
+  ServiceQuota,
+} from '@aws-sdk/client-service-quotas';
+import {
+  BedrockClient,
+  ListFoundationModelsCommand,
+  ListInferenceProfilesCommand,
+  FoundationModelSummary,
+  InferenceProfileSummary,
+} from '@aws-sdk/client-bedrock';
+
+/** API responses needed to build or check a region registry */
+export interface RegionApiData {
+  readonly quotas: ServiceQuota[];
+  readonly foundationModels: FoundationModelSummary[];
+  readonly inferenceProfiles: InferenceProfileSummary[];
+}
+
+/**
+ * Fetch all Bedrock quotas for the region
+ * @param client Service Quotas client for the region
+ * @param source 'applied' for the account's quota values, 'default' for the AWS default values
+ */
+async function getBedrockQuotas(client: ServiceQuotasClient, source: 'applied' | 'default' = 'applied'): Promise<ServiceQuota[]> {
+  const quotas: ServiceQuota[] = [];
+  let nextToken: string | undefined;
+
+  do {
+    const params = { ServiceCode: 'bedrock', NextToken: nextToken, MaxResults: 100 };
+    const response = source === 'applied'
+      ? await client.send(new ListServiceQuotasCommand(params))
+      : await client.send(new ListAWSDefaultServiceQuotasCommand(params));
+
+    if (response.Quotas) {
+      quotas.push(...response.Quotas);
+    }
+    nextToken = response.NextToken;
+  } while (nextToken);
+
+  return quotas;
+}
+
+/**
+ * Fetch all system-defined inference profiles for the region
+ */
+async function getSystemInferenceProfiles(client: BedrockClient): Promise<InferenceProfileSummary[]> {
+  const profiles: InferenceProfileSummary[] = [];
+  let nextToken: string | undefined;
+
+  do {
+    const response = await client.send(
+      new ListInferenceProfilesCommand({
+        typeEquals: 'SYSTEM_DEFINED',
+        nextToken,
+        maxResults: 100,
+      })
+    );
+
+    if (response.inferenceProfileSummaries) {
+      profiles.push(...response.inferenceProfileSummaries);
+    }
+    nextToken = response.nextToken;
+  } while (nextToken);
+
+  return profiles;
+}
+
+/**
+ * Fetch the region's Bedrock quotas, foundation models and system inference profiles
+ * @param region The AWS region
+ */
+export async function fetchRegionApiData(region: string): Promise<RegionApiData> {
+  const quotasClient = new ServiceQuotasClient({ region });
+  const bedrockClient = new BedrockClient({ region });
+
+  const [quotas, foundationModels, inferenceProfiles] = await Promise.all([
+    getBedrockQuotas(quotasClient),
+    bedrockClient.send(new ListFoundationModelsCommand({})).then(response => response.modelSummaries ?? []),
+    getSystemInferenceProfiles(bedrockClient),
+  ]);
+
+  return { quotas, foundationModels, inferenceProfiles };
+}
+
+/**
+ * Fetch the region's applied and AWS default Bedrock quotas
+ * @param region The AWS region
+ */
+export async function fetchBedrockQuotas(region: string): Promise<{ applied: ServiceQuota[]; defaults: ServiceQuota[] }> {
+  const client = new ServiceQuotasClient({ region });
+
+  const [applied, defaults] = await Promise.all([
+    getBedrockQuotas(client, 'applied'),
+    getBedrockQuotas(client, 'default'),
+  ]);
+
+  return { applied, defaults };
+}
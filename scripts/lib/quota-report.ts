@@ -0,0 +1,121 @@
+/**
+ * Quota listing for scripts/get-quota-codes.ts
+ *
+ * Joins applied quotas (ListServiceQuotas) with the AWS defaults (ListAWSDefaultServiceQuotas)
+ * by quota code, filters them, and formats them as a table, JSON or CSV.
+ */
+
+import type { ServiceQuota } from '@aws-sdk/client-service-quotas';
+
+export type QuotaOutputFormat = 'table' | 'json' | 'csv';
+
+export const QUOTA_OUTPUT_FORMATS: readonly QuotaOutputFormat[] = ['table', 'json', 'csv'];
+
+/** One Bedrock quota with its applied and default values */
+export interface QuotaRow {
+  readonly quotaCode: string;
+  readonly quotaName: string;
+  /** Applied value for the account, if the quota is listed by ListServiceQuotas */
+  readonly value?: number;
+  /** AWS default value, if the quota is listed by ListAWSDefaultServiceQuotas */
+  readonly defaultValue?: number;
+  readonly unit?: string;
+  readonly adjustable?: boolean;
+  readonly globalQuota?: boolean;
+}
+
+export interface QuotaFilter {
+  /** Case-insensitive regular expression matched against the quota name */
+  readonly nameRegex?: string;
+  /** Quota codes to include */
+  readonly quotaCodes?: readonly string[];
+}
+
+/**
+ * Join applied and default quotas by quota code, sorted by quota name
+ * @param applied Quotas from ListServiceQuotas
+ * @param defaults Quotas from ListAWSDefaultServiceQuotas
+ */
+export function buildQuotaRows(applied: readonly ServiceQuota[], defaults: readonly ServiceQuota[]): QuotaRow[] {
+  const defaultsByCode = new Map(defaults.map(quota => [quota.QuotaCode, quota]));
+  const appliedCodes = new Set(applied.map(quota => quota.QuotaCode));
+
+  const rows = applied.map(quota => toRow(quota, defaultsByCode.get(quota.QuotaCode)));
+  // Quotas that are only listed with their defaults
+  defaults
+    .filter(quota => !appliedCodes.has(quota.QuotaCode))
+    .forEach(quota => rows.push({ ...toRow(quota, quota), value: undefined }));
+
+  return rows.sort((a, b) => a.quotaName.localeCompare(b.quotaName));
+}
+
+function toRow(quota: ServiceQuota, defaultQuota?: ServiceQuota): QuotaRow {
+  return {
+    quotaCode: quota.QuotaCode ?? '',
+    quotaName: quota.QuotaName ?? '',
+    value: quota.Value,
+    defaultValue: defaultQuota?.Value,
+    unit: quota.Unit ?? defaultQuota?.Unit,
+    adjustable: quota.Adjustable ?? defaultQuota?.Adjustable,
+    globalQuota: quota.GlobalQuota ?? defaultQuota?.GlobalQuota,
+  };
+}
+
+/**
+ * Keep the rows matching every given filter
+ * @throws Error if nameRegex is not a valid regular expression
+ */
+export function filterQuotaRows(rows: readonly QuotaRow[], filter: QuotaFilter): QuotaRow[] {
+  let nameRegex: RegExp | undefined;
+  try {
+    nameRegex = filter.nameRegex ? new RegExp(filter.nameRegex, 'i') : undefined;
+  } catch (error) {
+    throw new Error(`Invalid name regex '${filter.nameRegex}': ${(error as Error).message}`);
+  }
+  const quotaCodes = filter.quotaCodes && filter.quotaCodes.length > 0 ? new Set(filter.quotaCodes) : undefined;
+
+  return rows.filter(row =>
+    (!nameRegex || nameRegex.test(row.quotaName)) &&
+    (!quotaCodes || quotaCodes.has(row.quotaCode))
+  );
+}
+
+const COLUMNS: ReadonlyArray<[header: string, value: (row: QuotaRow) => string]> = [
+  ['Code', row => row.quotaCode],
+  ['Value', row => row.value?.toString() ?? ''],
+  ['Default', row => row.defaultValue?.toString() ?? ''],
+  ['Unit', row => row.unit ?? ''],
+  ['Adjustable', row => row.adjustable === undefined ? '' : String(row.adjustable)],
+  ['Global', row => row.globalQuota === undefined ? '' : String(row.globalQuota)],
+  ['Name', row => row.quotaName],
+];
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Format quota rows for output
+ * @param rows The quota rows
+ * @param format 'table' for a padded text table, 'json' for an array of rows, 'csv' for a spreadsheet
+ */
+export function formatQuotaRows(rows: readonly QuotaRow[], format: QuotaOutputFormat): string {
+  switch (format) {
+    case 'json':
+      return `${JSON.stringify(rows, null, 2)}\n`;
+    case 'csv':
+      return [COLUMNS.map(([header]) => header), ...rows.map(row => COLUMNS.map(([, value]) => value(row)))]
+        .map(fields => fields.map(csvField).join(','))
+        .join('\n') + '\n';
+    case 'table': {
+      // Pad every column but the last (the name) to its widest value
+      const cells = [COLUMNS.map(([header]) => header), ...rows.map(row => COLUMNS.map(([, value]) => value(row) || 'N/A'))];
+      const widths = COLUMNS.map((_, index) => Math.max(...cells.map(fields => fields[index].length)));
+      const lines = cells.map(fields => fields.map((field, index) =>
+        index === fields.length - 1 ? field : field.padEnd(widths[index])
+      ).join('  '));
+      lines.splice(1, 0, '-'.repeat(100));
+      return lines.join('\n') + '\n';
+    }
+  }
+}
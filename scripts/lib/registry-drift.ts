@@ -0,0 +1,170 @@
+/**
+ * Registry drift detection for scripts/check-registry-drift.ts
+ *
+ * Compares a committed region registry with the region's live Service Quotas, foundation
+ * models and system inference profiles, using the same quota name matching as the
+ * registry generator. Variant entries such as CLAUDE_SONNET_4_6_1M share their base model's
+ * ID and are told apart by the variant suffix the generator gives their keys.
+ *
+ * Everything here is pure so it can be tested offline against recorded API responses.
+ */
+
+import type { EndpointType, ModelRegistry } from '../../lib/bedrock-registries/types';
+import { getQuotaCodes } from '../../lib/bedrock-registries';
+import { buildRegistry, ENDPOINT_PROPERTIES, matchQuotaModel, parseQuotaName, registryKeyVariant, type RegistryGeneratorInput } from './registry-generator';
+
+/** Why a registered quota code no longer fits its registry entry */
+export type DriftIssueType =
+  | 'missing-quota'       // The quota code does not exist in the region
+  | 'endpoint-mismatch'   // The quota is for another endpoint type
+  | 'kind-mismatch'       // A token quota is registered as a request quota, or vice versa
+  | 'model-mismatch';     // The quota is for another model or variant, or for no known model
+
+export interface DriftIssue {
+  readonly type: DriftIssueType;
+  readonly provider: string;
+  readonly modelKey: string;
+  readonly modelId: string;
+  readonly endpointType: EndpointType;
+  readonly quotaCode: string;
+  /** The quota's current name, if the code exists */
+  readonly quotaName?: string;
+  readonly message: string;
+}
+
+/** A model, or an endpoint type of a registered model, that has quotas but is not in the registry */
+export interface UnregisteredModel {
+  /** Provider group and key the generator would use */
+  readonly provider: string;
+  readonly modelKey: string;
+  readonly modelId: string;
+  readonly endpointTypes: EndpointType[];
+  /** True if the model is registered but these endpoint types are not */
+  readonly registered: boolean;
+}
+
+export interface DriftReport {
+  readonly region: string;
+  readonly hasDrift: boolean;
+  readonly summary: {
+    readonly registeredModels: number;
+    readonly checkedQuotaCodes: number;
+    readonly issues: number;
+    readonly unregisteredModels: number;
+  };
+  readonly issues: DriftIssue[];
+  readonly unregisteredModels: UnregisteredModel[];
+}
+
+export interface RegistryDriftInput extends Omit<RegistryGeneratorInput, 'existing'> {
+  /** The committed registry to check */
+  readonly registry: ModelRegistry;
+}
+
+/**
+ * Check a committed registry against the region's live quotas and models
+ * @param input The committed registry and the region's API responses
+ * @returns The drift report; hasDrift is true if any issue or unregistered model was found
+ */
+export function detectRegistryDrift(input: RegistryDriftInput): DriftReport {
+  const quotasByCode = new Map(input.quotas.map(quota => [quota.QuotaCode ?? '', quota]));
+  const issues: DriftIssue[] = [];
+  let registeredModels = 0;
+  let checkedQuotaCodes = 0;
+
+  // Model ID and variant, as named in issue messages
+  const describeModel = (modelId: string | undefined, variant: string | undefined) => variant ? `${modelId} (${variant} variant)` : modelId;
+
+  Object.entries(input.registry).forEach(([provider, models]) => {
+    Object.entries(models).forEach(([modelKey, config]) => {
+      registeredModels++;
+      const variant = registryKeyVariant(modelKey);
+
+      ENDPOINT_PROPERTIES.forEach(([endpointType]) => {
+        const codes = getQuotaCodes(config, endpointType);
+        const registered: Array<['token' | 'request', string | undefined]> = [
+          ['token', codes?.tokenQuotaCode],
+          ['request', codes?.requestQuotaCode],
+        ];
+
+        registered.forEach(([kind, quotaCode]) => {
+          if (!quotaCode) {
+            return;
+          }
+          checkedQuotaCodes++;
+
+          const issue = (type: DriftIssueType, message: string, quotaName?: string) => issues.push({
+            type, provider, modelKey, modelId: config.modelId, endpointType, quotaCode, quotaName, message,
+          });
+
+          const quota = quotasByCode.get(quotaCode);
+          if (!quota) {
+            issue('missing-quota', `${kind} quota ${quotaCode} does not exist in ${input.region}`);
+            return;
+          }
+
+          const quotaName = quota.QuotaName ?? '';
+          const parsed = parseQuotaName(quotaName);
+          if (!parsed) {
+            issue('model-mismatch', `${quotaCode} is not a per-minute model inference quota`, quotaName);
+            return;
+          }
+          if (parsed.endpointType !== endpointType) {
+            issue('endpoint-mismatch', `${quotaCode} is a ${parsed.endpointType} quota, registered as ${endpointType}`, quotaName);
+          }
+          if (parsed.kind !== kind) {
+            issue('kind-mismatch', `${quotaCode} is a ${parsed.kind} quota, registered as the ${kind} quota`, quotaName);
+          }
+
+          const match = matchQuotaModel(parsed.modelName, input.foundationModels);
+          if (!match) {
+            issue('model-mismatch', `${quotaCode} is for '${parsed.modelName}', which matches no foundation model in ${input.region}`, quotaName);
+          } else if (match.model.modelId !== config.modelId || match.variant !== variant) {
+            issue('model-mismatch', `${quotaCode} is for ${describeModel(match.model.modelId, match.variant)}, registered for ${describeModel(config.modelId, variant)}`, quotaName);
+          }
+        });
+      });
+    });
+  });
+
+  // Models and endpoint types the generator would add to the registry
+  const generated = buildRegistry({ ...input, existing: input.registry });
+  const unregisteredModels: UnregisteredModel[] = [];
+  generated.models.forEach(model => {
+    if (model.isNew) {
+      unregisteredModels.push({
+        provider: model.provider,
+        modelKey: model.modelKey,
+        modelId: model.modelId,
+        endpointTypes: model.supportedEndpoints,
+        registered: false,
+      });
+      return;
+    }
+
+    const registeredEndpoints: readonly EndpointType[] = input.registry[model.provider]?.[model.modelKey]?.supportedEndpoints ?? [];
+    const missingEndpoints = model.supportedEndpoints.filter(endpointType => !registeredEndpoints.includes(endpointType));
+    if (missingEndpoints.length > 0) {
+      unregisteredModels.push({
+        provider: model.provider,
+        modelKey: model.modelKey,
+        modelId: model.modelId,
+        endpointTypes: missingEndpoints,
+        registered: true,
+      });
+    }
+  });
+
+  return {
+    region: input.region,
+    hasDrift: issues.length > 0 || unregisteredModels.length > 0,
+    summary: {
+      registeredModels,
+      checkedQuotaCodes,
+      issues: issues.length,
+      unregisteredModels: unregisteredModels.length,
+    },
+    issues,
+    unregisteredModels,
+  };
+}
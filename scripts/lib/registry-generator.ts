@@ -0,0 +1,423 @@
+/**
+ * Registry generation logic for scripts/generate-registry.ts
+ *
+ * Combines Service Quotas (ListServiceQuotas) with Bedrock foundation models
+ * (ListFoundationModels) and system inference profiles (ListInferenceProfiles) into
+ * a region registry, and renders it as a lib/bedrock-registries/<region>.ts file.
+ *
+ * Everything here is pure so it can be tested offline against recorded API responses.
+ */
+
+import type { ServiceQuota } from '@aws-sdk/client-service-quotas';
+import type { FoundationModelSummary, InferenceProfileSummary } from '@aws-sdk/client-bedrock';
+import type { EndpointType, ModelRegistry, QuotaCodes } from '../../lib/bedrock-registries/types';
+import { getCrossRegionPrefix, getProviderName, getQuotaCodes } from '../../lib/bedrock-registries';
+
+/** A per-minute inference quota, parsed from its Service Quotas name */
+export interface ParsedQuotaName {
+  readonly endpointType: EndpointType;
+  readonly kind: 'token' | 'request';
+  /** Model part of the quota name, e.g. 'Anthropic Claude Sonnet 4.5 V1' */
+  readonly modelName: string;
+}
+
+/** A foundation model matched from a quota's model name */
+export interface QuotaModelMatch {
+  readonly model: FoundationModelSummary;
+  /** Variant suffix for quotas that only cover part of a model, e.g. '1M' for 1M context length */
+  readonly variant?: string;
+}
+
+/** One entry of a generated registry */
+export interface GeneratedModel {
+  readonly provider: string;
+  /** Display name of the provider, e.g. 'Anthropic' */
+  readonly providerName: string;
+  readonly modelKey: string;
+  readonly modelId: string;
+  readonly outputTokenBurndownRate: number;
+  /** Kept from the existing registry, which is the only source of this value */
+  readonly cacheReadsCountTowardQuota?: boolean;
+  /** Kept from the existing registry, which is the only source of this value */
+  readonly defaultMaxOutputTokens?: number;
+  readonly supportedEndpoints: EndpointType[];
+  readonly quotas: { readonly [endpointType in EndpointType]?: QuotaCodes };
+  /** True if the model is not in the existing registry, so its burndown rate needs checking */
+  readonly isNew: boolean;
+}
+
+export interface RegistryGeneratorInput {
+  readonly region: string;
+  readonly quotas: ServiceQuota[];
+  readonly foundationModels: FoundationModelSummary[];
+  readonly inferenceProfiles: InferenceProfileSummary[];
+  /** Geography prefix of the region's cross-region inference profiles, defaults to the one declared in REGION_REGISTRIES */
+  readonly crossRegionPrefix?: string;
+  /** The region's current registry, whose provider groups, model keys, burndown rates and default max output tokens are kept */
+  readonly existing?: ModelRegistry;
+}
+
+export interface RegistryGeneratorResult {
+  readonly models: GeneratedModel[];
+  /** Names of per-minute inference quotas that could not be matched to a foundation model */
+  readonly unmatchedQuotas: string[];
+}
+
+// Quota name prefixes for each endpoint type
+const QUOTA_NAME_PATTERN = /^(On-demand|Cross-region|Global cross-region) model inference (tokens|requests) per minute for (.+)$/i;
+
+const ENDPOINT_TYPES_BY_QUOTA_PREFIX: { readonly [prefix: string]: EndpointType } = {
+  'on-demand': 'regional',
+  'cross-region': 'cross-region',
+  'global cross-region': 'global-cross-region',
+};
+
+/** Registry property for each endpoint type, in the order they are written */
+export const ENDPOINT_PROPERTIES: ReadonlyArray<readonly [EndpointType, string]> = [
+  ['regional', 'regional'],
+  ['cross-region', 'crossRegion'],
+  ['global-cross-region', 'globalCrossRegion'],
+];
+
+// Burndown rate for models that are not in the existing registry
+const DEFAULT_BURNDOWN_RATE = 1;
+
+/**
+ * Parse a per-minute model inference quota name
+ * @param quotaName e.g. 'Cross-region model inference tokens per minute for Anthropic Claude Sonnet 4.5 V1'
+ * @returns The parsed name, or null for other Bedrock quotas
+ */
+export function parseQuotaName(quotaName: string): ParsedQuotaName | null {
+  const match = quotaName.trim().match(QUOTA_NAME_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  return {
+    endpointType: ENDPOINT_TYPES_BY_QUOTA_PREFIX[match[1].toLowerCase()],
+    kind: match[2].toLowerCase() === 'tokens' ? 'token' : 'request',
+    modelName: match[3].trim(),
+  };
+}
+
+// Lowercase words, so 'Claude 3.5 Sonnet (v2)' and 'claude 3.5 sonnet v2' compare equal
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9.]+/g, ' ').trim();
+}
+
+/**
+ * Convert a name to an UPPER_SNAKE_CASE registry key
+ * @param name e.g. 'Claude Sonnet 4.5'
+ * @returns e.g. 'CLAUDE_SONNET_4_5'
+ */
+export function toRegistryKey(name: string): string {
+  return name.toUpperCase().replace(/[^A-Z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+}
+
+/**
+ * Get the variant a registry key was generated for, from the suffix toRegistryKey gives it
+ * @param modelKey e.g. 'CLAUDE_SONNET_4_6_1M'
+ * @returns e.g. '1M', or undefined for keys of whole models
+ */
+export function registryKeyVariant(modelKey: string): string | undefined {
+  return modelKey.match(/_(\d+[KM])$/)?.[1];
+}
+
+// Models that can only be used with provisioned throughput have no per-minute quotas
+function isInvokable(model: FoundationModelSummary): boolean {
+  const inferenceTypes: string[] = model.inferenceTypesSupported ?? [];
+  return inferenceTypes.some(type => type !== 'PROVISIONED');
+}
+
+/**
+ * Match the model part of a quota name to a foundation model
+ * The longest "<provider> <model name>" that prefixes the quota's model name wins, so
+ * 'Claude 3.5 Sonnet v2' is not matched to 'Claude 3.5 Sonnet'. Whatever follows is a
+ * version suffix ('V1', ignored) or a context length variant ('1M Context Length').
+ * @param quotaModelName Model part of the quota name
+ * @param foundationModels Foundation models available in the region
+ * @returns The match, or null if no model matches
+ */
+export function matchQuotaModel(quotaModelName: string, foundationModels: FoundationModelSummary[]): QuotaModelMatch | null {
+  const quotaName = normalizeName(quotaModelName);
+  let best: { model: FoundationModelSummary; length: number; residual: string } | null = null;
+
+  for (const model of foundationModels.filter(isInvokable)) {
+    const names = [`${model.providerName ?? ''} ${model.modelName ?? ''}`, model.modelName ?? ''].map(normalizeName);
+    for (const name of names) {
+      if (!name || (quotaName !== name && !quotaName.startsWith(`${name} `))) {
+        continue;
+      }
+      if (!best || name.length > best.length) {
+        best = { model, length: name.length, residual: quotaName.slice(name.length).trim() };
+      }
+    }
+  }
+
+  if (!best) {
+    return null;
+  }
+
+  const { model, residual } = best;
+  if (residual === '' || /^v\d+$/.test(residual)) {
+    return { model };
+  }
+
+  const contextLength = residual.match(/^(?:v\d+ )?(\d+[km]) context( length)?$/);
+  if (contextLength) {
+    return { model, variant: contextLength[1].toUpperCase() };
+  }
+
+  return null;
+}
+
+// Whether an endpoint type can be used for a model in the region
+function isEndpointAvailable(
+  model: FoundationModelSummary,
+  endpointType: EndpointType,
+  profileIds: Set<string>,
+  crossRegionPrefix: string
+): boolean {
+  switch (endpointType) {
+    case 'regional':
+      return (model.inferenceTypesSupported ?? []).includes('ON_DEMAND');
+    case 'cross-region':
+      return profileIds.has(`${crossRegionPrefix}.${model.modelId}`);
+    case 'global-cross-region':
+      return profileIds.has(`global.${model.modelId}`);
+    default:
+      return false;
+  }
+}
+
+// Find the existing registry entry for a model by its quota codes, falling back to
+// a model ID and variant that only one entry uses
+function findExistingEntry(
+  existing: ModelRegistry | undefined,
+  modelId: string,
+  variant: string | undefined,
+  quotaCodes: Set<string>
+): { provider: string; modelKey: string; outputTokenBurndownRate: number; cacheReadsCountTowardQuota?: boolean; defaultMaxOutputTokens?: number } | null {
+  if (!existing) {
+    return null;
+  }
+
+  const entries = Object.entries(existing).flatMap(([provider, models]) =>
+    Object.entries(models).map(([modelKey, config]) => ({ provider, modelKey, config })));
+
+  const byQuotaCode = entries.find(({ config }) => ENDPOINT_PROPERTIES.some(([endpointType]) => {
+    const codes = getQuotaCodes(config, endpointType);
+    return (codes?.tokenQuotaCode && quotaCodes.has(codes.tokenQuotaCode))
+      || (codes?.requestQuotaCode && quotaCodes.has(codes.requestQuotaCode));
+  }));
+  const byModelId = entries.filter(({ modelKey, config }) => config.modelId === modelId && registryKeyVariant(modelKey) === variant);
+  const entry = byQuotaCode ?? (byModelId.length === 1 ? byModelId[0] : undefined);
+
+  return entry
+    ? {
+      provider: entry.provider,
+      modelKey: entry.modelKey,
+      outputTokenBurndownRate: entry.config.outputTokenBurndownRate,
+      cacheReadsCountTowardQuota: entry.config.cacheReadsCountTowardQuota,
+      defaultMaxOutputTokens: entry.config.defaultMaxOutputTokens,
+    }
+    : null;
+}
+
+/**
+ * Build a region registry from Service Quotas and Bedrock API responses
+ * @param input API responses for the region, plus the region's current registry if any
+ * @returns Generated models in registry order, and the quotas that could not be matched
+ */
+export function buildRegistry(input: RegistryGeneratorInput): RegistryGeneratorResult {
+  const crossRegionPrefix = input.crossRegionPrefix ?? getCrossRegionPrefix(input.region);
+  const profileIds = new Set(input.inferenceProfiles.map(profile => profile.inferenceProfileId ?? ''));
+  const unmatchedQuotas: string[] = [];
+
+  // Collect quota codes per model (and variant) and endpoint type
+  const collected = new Map<string, {
+    model: FoundationModelSummary;
+    variant?: string;
+    quotas: { [endpointType in EndpointType]?: { tokenQuotaCode?: string; requestQuotaCode?: string } };
+  }>();
+
+  input.quotas.forEach(quota => {
+    const parsed = parseQuotaName(quota.QuotaName ?? '');
+    if (!parsed || !quota.QuotaCode) {
+      return;
+    }
+
+    const match = matchQuotaModel(parsed.modelName, input.foundationModels);
+    if (!match) {
+      unmatchedQuotas.push(quota.QuotaName!);
+      return;
+    }
+
+    const id = `${match.model.modelId}|${match.variant ?? ''}`;
+    if (!collected.has(id)) {
+      collected.set(id, { model: match.model, variant: match.variant, quotas: {} });
+    }
+    const entry = collected.get(id)!;
+    const codes = entry.quotas[parsed.endpointType] ?? (entry.quotas[parsed.endpointType] = {});
+    codes[parsed.kind === 'token' ? 'tokenQuotaCode' : 'requestQuotaCode'] = quota.QuotaCode;
+  });
+
+  // Provider groups of existing models, so new models from the same provider join them
+  const providersByName = new Map<string, string>();
+  const usedKeys = new Set<string>();
+  const models: GeneratedModel[] = [];
+
+  collected.forEach(({ model, variant, quotas }) => {
+    const modelId = model.modelId!;
+    const supportedEndpoints = ENDPOINT_PROPERTIES
+      .map(([endpointType]) => endpointType)
+      .filter(endpointType => quotas[endpointType] && isEndpointAvailable(model, endpointType, profileIds, crossRegionPrefix));
+    if (supportedEndpoints.length === 0) {
+      return;
+    }
+
+    const quotaCodes = new Set(supportedEndpoints.flatMap(endpointType =>
+      [quotas[endpointType]!.tokenQuotaCode, quotas[endpointType]!.requestQuotaCode].filter((code): code is string => !!code)));
+    const existingEntry = findExistingEntry(input.existing, modelId, variant, quotaCodes);
+
+    let provider: string;
+    let modelKey: string;
+    if (existingEntry) {
+      provider = existingEntry.provider;
+      modelKey = existingEntry.modelKey;
+      providersByName.set(model.providerName ?? '', provider);
+    } else {
+      provider = providersByName.get(model.providerName ?? '') ?? toRegistryKey(model.providerName ?? 'Other');
+      modelKey = toRegistryKey([model.modelName ?? modelId, variant].filter(Boolean).join(' '));
+    }
+
+    // Keys must be unique within a provider group
+    let uniqueKey = modelKey;
+    for (let n = 2; usedKeys.has(`${provider}.${uniqueKey}`); n++) {
+      uniqueKey = `${modelKey}_${n}`;
+    }
+    usedKeys.add(`${provider}.${uniqueKey}`);
+
+    const supportedQuotas: { [endpointType in EndpointType]?: QuotaCodes } = {};
+    supportedEndpoints.forEach(endpointType => {
+      supportedQuotas[endpointType] = quotas[endpointType];
+    });
+
+    models.push({
+      provider,
+      providerName: model.providerName ?? getProviderName(provider),
+      modelKey: uniqueKey,
+      modelId,
+      outputTokenBurndownRate: existingEntry?.outputTokenBurndownRate ?? DEFAULT_BURNDOWN_RATE,
+      cacheReadsCountTowardQuota: existingEntry?.cacheReadsCountTowardQuota,
+      defaultMaxOutputTokens: existingEntry?.defaultMaxOutputTokens,
+      supportedEndpoints,
+      quotas: supportedQuotas,
+      isNew: !existingEntry,
+    });
+  });
+
+  return { models: sortModels(models, input.existing), unmatchedQuotas };
+}
+
+// Keep the existing registry's order, followed by new providers and models alphabetically
+function sortModels(models: GeneratedModel[], existing?: ModelRegistry): GeneratedModel[] {
+  const providerOrder = Object.keys(existing ?? {});
+  const keyOrder = Object.values(existing ?? {}).flatMap(group => Object.keys(group));
+  const rank = (order: string[], value: string) => {
+    const index = order.indexOf(value);
+    return index === -1 ? order.length : index;
+  };
+
+  return [...models].sort((a, b) =>
+    rank(providerOrder, a.provider) - rank(providerOrder, b.provider)
+    || a.provider.localeCompare(b.provider)
+    || rank(keyOrder, a.modelKey) - rank(keyOrder, b.modelKey)
+    || a.modelKey.localeCompare(b.modelKey));
+}
+
+// Render quota codes as a registry object literal
+function renderQuotaCodes(codes: QuotaCodes): string {
+  const parts: string[] = [];
+  if (codes.tokenQuotaCode) {
+    parts.push(`tokenQuotaCode: '${codes.tokenQuotaCode}'`);
+  }
+  if (codes.requestQuotaCode) {
+    parts.push(`requestQuotaCode: '${codes.requestQuotaCode}'`);
+  }
+  return `{ ${parts.join(', ')} }`;
+}
+
+/**
+ * Render a region registry file in the format of lib/bedrock-registries/us-east-1.ts
+ * @param region The AWS region, e.g. 'eu-west-1'
+ * @param models Generated models, in registry order
+ * @returns TypeScript source for lib/bedrock-registries/<region>.ts
+ */
+export function renderRegistryFile(region: string, models: GeneratedModel[]): string {
+  const regionTitle = region.split('-').map(part => part.charAt(0).toUpperCase() + part.slice(1)).join('-');
+  const lines: string[] = [
+    `// Bedrock Model Registry for ${regionTitle} Region`,
+    `// This file contains all quota codes specific to the ${region} region`,
+    `// Generated by: npx ts-node scripts/generate-registry.ts ${region}`,
+    '',
+    "import { createModelConfig } from './types';",
+    "import type { ProviderNames } from './types';",
+    '',
+    '// Re-export helper functions and types for convenience',
+    'export {',
+    '  getQuotaCodes,',
+    '  validateModelEndpointSupport,',
+    '  getSupportedEndpointTypes',
+    "} from './types';",
+    "export type { EndpointType, QuotaCodes, ModelConfig, ModelRegistry, ModelKey, ProviderNames } from './types';",
+    '',
+    '// =============================================================================',
+    `// BEDROCK MODELS REGISTRY FOR ${region.toUpperCase()}`,
+    '// =============================================================================',
+    '',
+    'export const BEDROCK_MODELS = {',
+  ];
+
+  const providers = [...new Set(models.map(model => model.provider))];
+  providers.forEach(provider => {
+    lines.push(`  ${provider}: {`);
+    models.filter(model => model.provider === provider).forEach(model => {
+      const quotaLines = ENDPOINT_PROPERTIES
+        .filter(([endpointType]) => model.quotas[endpointType])
+        .map(([endpointType, property]) => `      ${property}: ${renderQuotaCodes(model.quotas[endpointType]!)}`);
+
+      if (model.isNew) {
+        lines.push('    // New model: check outputTokenBurndownRate against https://docs.aws.amazon.com/bedrock/latest/userguide/quotas-token-burndown.html');
+      }
+      lines.push(
+        `    ${model.modelKey}: createModelConfig({`,
+        `      modelId: '${model.modelId}',`,
+        `      outputTokenBurndownRate: ${model.outputTokenBurndownRate},`,
+        ...(model.cacheReadsCountTowardQuota ? ['      cacheReadsCountTowardQuota: true,'] : []),
+        ...(model.defaultMaxOutputTokens !== undefined ? [`      defaultMaxOutputTokens: ${model.defaultMaxOutputTokens},`] : []),
+        `      supportedEndpoints: [${model.supportedEndpoints.map(endpointType => `'${endpointType}'`).join(', ')}],`,
+        quotaLines.join(',\n'),
+        '    }),',
+        '',
+      );
+    });
+    lines.pop();
+    lines.push('  },', '');
+  });
+
+  lines.push(
+    '} as const;',
+    '',
+    '// =============================================================================',
+    '// PROVIDER DISPLAY NAMES',
+    '// =============================================================================',
+    '',
+    '// Display names of the provider groups in BEDROCK_MODELS',
+    'export const PROVIDER_NAMES: ProviderNames = {',
+    ...providers.map(provider => `  ${provider}: '${models.find(model => model.provider === provider)!.providerName.replace(/'/g, "\\'")}',`),
+    '};',
+    '',
+  );
+  return lines.join('\n');
+}
@@ -0,0 +1,225 @@
+/**
+ * Usage report for scripts/usage-report.ts
+ *
+ * Runs the dashboard's Initial Reservation, Actual Consumption and Invocations utilization
+ * expressions through GetMetricData, and summarizes each model's peak and p95 utilization
+ * as Markdown, CSV or JSON.
+ */
+
+import { GetMetricDataCommand, type CloudWatchClient, type MetricDataQuery, type StandardUnit } from '@aws-sdk/client-cloudwatch';
+import type { IMetric } from 'aws-cdk-lib/aws-cloudwatch';
+import type { ModelUtilization } from '../../lib/bedrock-quota-dashboard';
+
+export type UsageOutputFormat = 'markdown' | 'csv' | 'json';
+
+export const USAGE_OUTPUT_FORMATS: readonly UsageOutputFormat[] = ['markdown', 'csv', 'json'];
+
+/** CloudWatch keeps 1-minute datapoints for 15 days, and the quotas are per minute */
+export const MAX_REPORT_DAYS = 15;
+
+/** Utilization expressions of a model, keyed by their query ID in GetMetricData */
+const UTILIZATION_QUERIES = {
+  reservationPercent: 'reservation',
+  consumptionPercent: 'consumption',
+  requestsPercent: 'requests',
+} as const;
+
+type UtilizationKind = typeof UTILIZATION_QUERIES[keyof typeof UTILIZATION_QUERIES];
+
+/** Peak and p95 of one utilization expression, in percent of the quota */
+export interface UtilizationStats {
+  /** Highest utilization of any minute, if there were datapoints */
+  readonly peak?: number;
+  /** 95th percentile over the minutes with datapoints (nearest rank) */
+  readonly p95?: number;
+  /** Number of minutes with datapoints, i.e. with traffic and a published quota */
+  readonly datapoints: number;
+}
+
+/** Utilization of one model over the report's time range */
+export interface ModelUsage {
+  readonly region: string;
+  readonly modelId: string;
+  readonly group?: string;
+  readonly reservation: UtilizationStats;
+  readonly consumption: UtilizationStats;
+  readonly requests: UtilizationStats;
+}
+
+export interface UsageReport {
+  readonly startTime: string;
+  readonly endTime: string;
+  readonly models: ModelUsage[];
+}
+
+/**
+ * Flatten metrics and the metrics nested in their math expressions into GetMetricData queries.
+ * Only the given metrics return data; nested metrics are shared by ID.
+ * @param metrics Metrics to return, keyed by query ID
+ * @throws Error if an ID is used for two different metrics
+ */
+export function toMetricDataQueries(metrics: { [id: string]: IMetric }): MetricDataQuery[] {
+  const queries = new Map<string, MetricDataQuery>();
+
+  const addQuery = (id: string, metric: IMetric, returnData: boolean) => {
+    const { metricStat, mathExpression, searchExpression } = metric.toMetricConfig();
+    const expression = mathExpression ?? searchExpression;
+    const query: MetricDataQuery = expression
+      ? { Id: id, Expression: expression.expression, ReturnData: returnData }
+      : {
+        Id: id,
+        MetricStat: {
+          Metric: {
+            Namespace: metricStat!.namespace,
+            MetricName: metricStat!.metricName,
+            Dimensions: metricStat!.dimensions?.map(({ name, value }) => ({ Name: name, Value: String(value) })),
+          },
+          Period: metricStat!.period.toSeconds(),
+          Stat: metricStat!.statistic,
+          Unit: metricStat!.unitFilter as StandardUnit | undefined,
+        },
+        ReturnData: returnData,
+      };
+
+    const existing = queries.get(id);
+    if (existing) {
+      if (JSON.stringify(existing) !== JSON.stringify(query)) {
+        throw new Error(`The ID '${id}' is used for two different metrics`);
+      }
+      return;
+    }
+    queries.set(id, query);
+    Object.entries(expression?.usingMetrics ?? {}).forEach(([childId, child]) => addQuery(childId, child, false));
+  };
+
+  Object.entries(metrics).forEach(([id, metric]) => addQuery(id, metric, true));
+  return [...queries.values()];
+}
+
+/**
+ * Summarize utilization values
+ * @param values Utilization of each minute, in any order
+ */
+export function summarizeUtilization(values: readonly number[]): UtilizationStats {
+  if (values.length === 0) {
+    return { datapoints: 0 };
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    peak: sorted[sorted.length - 1],
+    p95: sorted[Math.ceil(0.95 * sorted.length) - 1],
+    datapoints: sorted.length,
+  };
+}
+
+/**
+ * Fetch a model's utilization over a time range
+ * @param client CloudWatch client for the model's region
+ * @param utilization The model's utilization expressions
+ * @param startTime Start of the time range
+ * @param endTime End of the time range
+ * @throws Error if CloudWatch cannot return a result
+ */
+export async function getModelUsage(client: CloudWatchClient, utilization: ModelUtilization, startTime: Date, endTime: Date): Promise<ModelUsage> {
+  const queries = toMetricDataQueries(Object.fromEntries(
+    Object.entries(UTILIZATION_QUERIES).map(([id, kind]) => [id, utilization[kind]])
+  ));
+  const values: Record<UtilizationKind, number[]> = { reservation: [], consumption: [], requests: [] };
+  let nextToken: string | undefined;
+
+  do {
+    const response = await client.send(new GetMetricDataCommand({
+      MetricDataQueries: queries,
+      StartTime: startTime,
+      EndTime: endTime,
+      NextToken: nextToken,
+    }));
+
+    response.MetricDataResults?.forEach(result => {
+      if (result.StatusCode === 'Forbidden' || result.StatusCode === 'InternalError') {
+        const messages = result.Messages?.map(message => message.Value).join('; ');
+        throw new Error(`GetMetricData returned ${result.StatusCode} for ${utilization.modelId}${messages ? `: ${messages}` : ''}`);
+      }
+      const kind = UTILIZATION_QUERIES[result.Id as keyof typeof UTILIZATION_QUERIES];
+      if (kind) {
+        values[kind].push(...(result.Values ?? []));
+      }
+    });
+    nextToken = response.NextToken;
+  } while (nextToken);
+
+  return {
+    region: utilization.region,
+    modelId: utilization.modelId,
+    group: utilization.group,
+    reservation: summarizeUtilization(values.reservation),
+    consumption: summarizeUtilization(values.consumption),
+    requests: summarizeUtilization(values.requests),
+  };
+}
+
+/**
+ * Build the usage report of every model, one GetMetricData request at a time
+ * @param utilization Utilization expressions of the models, in report order
+ * @param getClient Returns the CloudWatch client for a region
+ * @param startTime Start of the time range
+ * @param endTime End of the time range
+ */
+export async function buildUsageReport(
+  utilization: readonly ModelUtilization[],
+  getClient: (region: string) => CloudWatchClient,
+  startTime: Date,
+  endTime: Date
+): Promise<UsageReport> {
+  const models: ModelUsage[] = [];
+  for (const model of utilization) {
+    models.push(await getModelUsage(getClient(model.region), model, startTime, endTime));
+  }
+  return { startTime: startTime.toISOString(), endTime: endTime.toISOString(), models };
+}
+
+const percent = (value?: number) => value === undefined ? '' : value.toFixed(1);
+
+const COLUMNS: ReadonlyArray<[header: string, value: (model: ModelUsage) => string]> = [
+  ['Model', model => model.modelId],
+  ['Region', model => model.region],
+  ['Group', model => model.group ?? ''],
+  ['Peak Reservation (%)', model => percent(model.reservation.peak)],
+  ['p95 Reservation (%)', model => percent(model.reservation.p95)],
+  ['Peak Consumption (%)', model => percent(model.consumption.peak)],
+  ['p95 Consumption (%)', model => percent(model.consumption.p95)],
+  ['Peak Invocations (%)', model => percent(model.requests.peak)],
+  ['p95 Invocations (%)', model => percent(model.requests.p95)],
+];
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Format a usage report for output
+ * @param report The usage report
+ * @param format 'markdown' for a titled table, 'json' for the full report, 'csv' for a spreadsheet
+ */
+export function formatUsageReport(report: UsageReport, format: UsageOutputFormat): string {
+  switch (format) {
+    case 'json':
+      return `${JSON.stringify(report, null, 2)}\n`;
+    case 'csv':
+      return [COLUMNS.map(([header]) => header), ...report.models.map(model => COLUMNS.map(([, value]) => value(model)))]
+        .map(fields => fields.map(csvField).join(','))
+        .join('\n') + '\n';
+    case 'markdown': {
+      const row = (fields: string[]) => `| ${fields.map(field => field.replace(/\|/g, '\\|')).join(' | ')} |`;
+      return [
+        '# Bedrock Quota Usage Report',
+        '',
+        `${report.startTime} to ${report.endTime}. Peak and p95 utilization over the minutes with traffic, in percent of each model's quota.`,
+        '',
+        row(COLUMNS.map(([header]) => header)),
+        row(COLUMNS.map((_, index) => index < 3 ? '---' : '---:')),
+        ...report.models.map(model => row(COLUMNS.map(([, value], index) => value(model) || (index < 3 ? '' : 'N/A')))),
+      ].join('\n') + '\n';
+    }
+  }
+}
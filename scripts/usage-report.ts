@@ -0,0 +1,113 @@
+#!/usr/bin/env ts-node
+/**
+ * Report Peak and p95 Quota Utilization per Model
+ *
+ * This script builds the dashboard stack in memory, the same way `cdk synth` does (from
+ * dashboards.yaml, application-profiles.json or the default configs), and runs each
+ * model's Initial Reservation, Actual Consumption and Invocations utilization expressions
+ * through GetMetricData. It reports the peak and p95 utilization of every model over the
+ * time range, e.g. for a weekly "how close were we to the limit" summary.
+ *
+ * The report is printed to stdout (or written with --output) and progress to stderr.
+ *
+ * Usage:
+ *   npx ts-node scripts/usage-report.ts [region] [--days <1-15>] [--end <ISO time>]
+ *                                       [--format markdown|csv|json] [--output <file>]
+ *
+ * Examples:
+ *   npx ts-node scripts/usage-report.ts
+ *   npx ts-node scripts/usage-report.ts us-west-2 --days 1
+ *   npx ts-node scripts/usage-report.ts us-east-1 --format csv --output weekly-usage.csv
+ *   npx ts-node scripts/usage-report.ts --end 2026-10-19T00:00:00Z --format json
+ */
+
+import { writeFileSync } from 'fs';
+import { parseArgs } from 'util';
+import * as cdk from 'aws-cdk-lib';
+import { CloudWatchClient } from '@aws-sdk/client-cloudwatch';
+import { CdkQuotaDashboardsStack } from '../lib/cdk-quota-dashboards-stack';
+import { buildUsageReport, formatUsageReport, MAX_REPORT_DAYS, USAGE_OUTPUT_FORMATS, type UsageOutputFormat } from './lib/usage-report';
+
+const USAGE = 'Usage: npx ts-node scripts/usage-report.ts [region] [--days <1-15>] [--end <ISO time>] [--format markdown|csv|json] [--output <file>]';
+
+async function main(): Promise<void> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      days: { type: 'string', short: 'd', default: '7' },
+      end: { type: 'string' },
+      format: { type: 'string', short: 'f', default: 'markdown' },
+      output: { type: 'string', short: 'o' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    console.log('\nReports the peak and p95 quota utilization of every dashboard model.');
+    console.log('\nOptions:');
+    console.log('  region             AWS region of the dashboard stack (defaults to AWS_DEFAULT_REGION or us-east-1)');
+    console.log(`  --days <days>      Length of the time range, 1 to ${MAX_REPORT_DAYS} (default 7)`);
+    console.log('  --end <ISO time>   End of the time range (default now)');
+    console.log('  --format <format>  Output format: markdown (default), csv or json');
+    console.log('  --output <file>    Write the report to a file instead of stdout');
+    return;
+  }
+
+  const format = values.format as UsageOutputFormat;
+  if (!USAGE_OUTPUT_FORMATS.includes(format)) {
+    throw new Error(`Unknown format '${values.format}'. Use one of: ${USAGE_OUTPUT_FORMATS.join(', ')}`);
+  }
+  const days = Number(values.days);
+  if (!Number.isInteger(days) || days < 1 || days > MAX_REPORT_DAYS) {
+    throw new Error(`--days must be a whole number from 1 to ${MAX_REPORT_DAYS}, got '${values.days}'`);
+  }
+  const endTime = values.end ? new Date(values.end) : new Date();
+  if (Number.isNaN(endTime.getTime())) {
+    throw new Error(`Invalid --end time '${values.end}'`);
+  }
+  // Whole minutes, matching the 1-minute quota periods
+  endTime.setUTCSeconds(0, 0);
+  const startTime = new Date(endTime.getTime() - days * 24 * 60 * 60 * 1000);
+  const region = positionals[0] || process.env.AWS_DEFAULT_REGION || 'us-east-1';
+
+  // Synth-time messages go to stderr, so that stdout only carries the report
+  const log = console.log;
+  console.log = console.error;
+  let stack: CdkQuotaDashboardsStack;
+  try {
+    stack = new CdkQuotaDashboardsStack(new cdk.App(), 'UsageReport', { env: { region } });
+  } finally {
+    console.log = log;
+  }
+
+  const { utilization } = stack.quotaDashboard;
+  console.error(`Fetching utilization of ${utilization.length} models from ${startTime.toISOString()} to ${endTime.toISOString()}...`);
+
+  const clients = new Map<string, CloudWatchClient>();
+  const getClient = (clientRegion: string) => {
+    if (!clients.has(clientRegion)) {
+      clients.set(clientRegion, new CloudWatchClient({ region: clientRegion }));
+    }
+    return clients.get(clientRegion)!;
+  };
+  const report = await buildUsageReport(utilization, getClient, startTime, endTime);
+
+  const output = formatUsageReport(report, format);
+  if (values.output) {
+    writeFileSync(values.output, output);
+    console.error(`Report saved to: ${values.output}`);
+  } else {
+    process.stdout.write(output);
+  }
+}
+
+main().catch(error => {
+  console.error('Error building usage report:', error instanceof Error ? error.message : error);
+  console.error('\nMake sure you have:');
+  console.error('1. AWS credentials configured');
+  console.error('2. Permissions for cloudwatch:GetMetricData');
+  console.error('3. The dashboard stack deployed in the region, so that quota metrics are published');
+  console.error(`\n${USAGE}`);
+  process.exit(1);
+});
@@ -0,0 +1,127 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as cdk from 'aws-cdk-lib';
+import { BEDROCK_MODELS } from '../lib/bedrock-registries';
+import { applyApplicationProfiles, diffApplicationProfiles, loadApplicationProfiles, type ApplicationProfilesFile } from '../lib/application-profiles';
+import { CdkQuotaDashboardsStack, defineDashboardConfig } from '../lib/cdk-quota-dashboards-stack';
+
+const SONNET_PROFILE = 'us.anthropic.claude-sonnet-4-5-20250929-v1:0';
+
+const profiles: ApplicationProfilesFile = {
+    'us-east-1': {
+        [SONNET_PROFILE]: [
+            { id: 'grjihoh0los8', name: 'team-a-chatbot' },
+            { id: 'cypje2y15yrd', name: 'team-b-batch', tags: { team: 'team-b' } },
+        ],
+    },
+    'us-west-2': {
+        'us.anthropic.claude-haiku-4-5-20251001-v1:0': [{ id: 'wqwinsplsugw', name: 'team-c' }],
+    },
+};
+
+describe('Application Profiles', () => {
+    let tempDir: string;
+
+    beforeAll(() => {
+        tempDir = mkdtempSync(path.join(os.tmpdir(), 'application-profiles-'));
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    });
+
+    afterAll(() => {
+        rmSync(tempDir, { recursive: true, force: true });
+        jest.restoreAllMocks();
+    });
+
+    function writeProfilesFile(name: string, contents: string): string {
+        const file = path.join(tempDir, name);
+        writeFileSync(file, contents);
+        return file;
+    }
+
+    describe('loadApplicationProfiles', () => {
+        test('should return undefined if the file does not exist', () => {
+            expect(loadApplicationProfiles(path.join(tempDir, 'missing.json'))).toBeUndefined();
+        });
+
+        test('should load a valid file', () => {
+            const file = writeProfilesFile('valid.json', JSON.stringify(profiles));
+
+            expect(loadApplicationProfiles(file)).toEqual(profiles);
+        });
+
+        test('should reject invalid JSON and unexpected structures', () => {
+            expect(() => loadApplicationProfiles(writeProfilesFile('syntax.json', '{ "us-east-1": '))).toThrow(/Invalid application profiles file/);
+            expect(() => loadApplicationProfiles(writeProfilesFile('shape.json', JSON.stringify({
+                'us-east-1': { [SONNET_PROFILE]: ['grjihoh0los8'] },
+            })))).toThrow(`'us-east-1' -> '${SONNET_PROFILE}': expected an array of { "id": string, "name": string, "tags"?: { [key]: string } }`);
+            expect(() => loadApplicationProfiles(writeProfilesFile('tags.json', JSON.stringify({
+                'us-east-1': { [SONNET_PROFILE]: [{ id: 'grjihoh0los8', name: 'team-a', tags: { team: 1 } }] },
+            })))).toThrow(/Invalid application profiles file/);
+        });
+    });
+
+    describe('applyApplicationProfiles', () => {
+        test('should add recorded profiles to the config of their system profile', () => {
+            const configs = applyApplicationProfiles([
+                defineDashboardConfig({ modelConfig: BEDROCK_MODELS.ANTHROPIC.CLAUDE_SONNET_4_5, endpointType: 'cross-region', applicationProfileIds: ['cypje2y15yrd'] }),
+                defineDashboardConfig({ modelConfig: BEDROCK_MODELS.ANTHROPIC.CLAUDE_SONNET_4_5, endpointType: 'global-cross-region' }),
+            ], 'us-east-1', profiles);
+
+            expect(configs[0].applicationProfileIds).toEqual(['cypje2y15yrd', 'grjihoh0los8']);
+            expect(configs[1].applicationProfileIds).toBeUndefined();
+        });
+
+        test('should label recorded profiles by name or tag, keeping labels set in code', () => {
+            const config = defineDashboardConfig({
+                modelConfig: BEDROCK_MODELS.ANTHROPIC.CLAUDE_SONNET_4_5,
+                endpointType: 'cross-region',
+                applicationProfileLabels: { grjihoh0los8: 'Chatbot' },
+            });
+
+            expect(applyApplicationProfiles([config], 'us-east-1', profiles)[0].applicationProfileLabels).toEqual({
+                grjihoh0los8: 'Chatbot',
+                cypje2y15yrd: 'team-b-batch',
+            });
+            expect(applyApplicationProfiles([config], 'us-east-1', profiles, 'team')[0].applicationProfileLabels).toEqual({
+                grjihoh0los8: 'Chatbot',
+                cypje2y15yrd: 'team-b',
+            });
+        });
+
+        test('should only use the profiles of the given region', () => {
+            const configs = applyApplicationProfiles([
+                defineDashboardConfig({ modelConfig: BEDROCK_MODELS.ANTHROPIC.CLAUDE_HAIKU_4_5, endpointType: 'cross-region' }),
+            ], 'us-east-1', profiles);
+
+            expect(configs[0].applicationProfileIds).toBeUndefined();
+        });
+    });
+
+    test('should report added and removed profiles', () => {
+        const changes = diffApplicationProfiles(profiles['us-east-1'], {
+            [SONNET_PROFILE]: [{ id: 'grjihoh0los8', name: 'team-a-chatbot' }],
+            'global.anthropic.claude-sonnet-4-5-20250929-v1:0': [{ id: 'n3wpr0f1le00', name: 'team-d' }],
+        });
+
+        expect(changes).toEqual({
+            added: { 'global.anthropic.claude-sonnet-4-5-20250929-v1:0': [{ id: 'n3wpr0f1le00', name: 'team-d' }] },
+            removed: { [SONNET_PROFILE]: [{ id: 'cypje2y15yrd', name: 'team-b-batch', tags: { team: 'team-b' } }] },
+        });
+        expect(diffApplicationProfiles(profiles['us-east-1'], profiles['us-east-1'])).toEqual({ added: {}, removed: {} });
+    });
+
+    test('should aggregate recorded profiles on the stack dashboard', () => {
+        const app = new cdk.App();
+        const stack = new CdkQuotaDashboardsStack(app, 'TestStack', {
+            env: { account: '123456789012', region: 'us-east-1' },
+            dashboardConfigs: [defineDashboardConfig({ modelConfig: BEDROCK_MODELS.ANTHROPIC.CLAUDE_SONNET_4_5, endpointType: 'cross-region' })],
+            applicationProfilesFile: writeProfilesFile('stack.json', JSON.stringify(profiles)),
+        });
+
+        const body = JSON.stringify(app.synth().getStackArtifact(stack.artifactId).template);
+        expect(body).toContain('(3 profiles aggregated)');
+        expect(body).toContain('grjihoh0los8');
+    });
+});
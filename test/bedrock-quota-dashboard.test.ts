@@ -0,0 +1,847 @@
+import * as cdk from 'aws-cdk-lib';
+import * as events from 'aws-cdk-lib/aws-events';
+import { Annotations, Match, Template } from 'aws-cdk-lib/assertions';
+import { BEDROCK_MODELS } from '../lib/bedrock-registries';
+import { BedrockQuotaDashboard, defineDashboardConfig, getFullModelId, type BedrockQuotaDashboardProps } from '../lib/bedrock-quota-dashboard';
+
+function synthDashboard(props: BedrockQuotaDashboardProps, region: string = 'us-east-1'): Template {
+    const app = new cdk.App();
+    const stack = new cdk.Stack(app, 'TestStack', { env: { account: '123456789012', region } });
+    new BedrockQuotaDashboard(stack, 'QuotaDashboard', props);
+    return Template.fromStack(stack);
+}
+
+function synthDashboardStack(props: BedrockQuotaDashboardProps): cdk.Stack {
+    const app = new cdk.App();
+    const stack = new cdk.Stack(app, 'TestStack', { env: { account: '123456789012', region: 'us-east-1' } });
+    new BedrockQuotaDashboard(stack, 'QuotaDashboard', props);
+    return stack;
+}
+
+function dashboardBody(template: Template): string {
+    const dashboards = template.findResources('AWS::CloudWatch::Dashboard');
+    return JSON.stringify(Object.values(dashboards)[0].Properties.DashboardBody);
+}
+
+describe('BedrockQuotaDashboard', () => {
+    beforeAll(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    });
+
+    afterAll(() => {
+        jest.restoreAllMocks();
+    });
+
+    test('should create a dashboard with the configured name', () => {
+        const template = synthDashboard({
+            dashboardConfigs: [{ modelConfig: BEDROCK_MODELS.AMAZON.NOVA_PREMIER_V1, endpointType: 'cross-region' }],
+            dashboardName: 'TeamQuotas',
+        });
+
+        template.resourceCountIs('AWS::CloudWatch::Dashboard', 1);
+        template.hasResourceProperties('AWS::CloudWatch::Dashboard', { DashboardName: 'TeamQuotas' });
+    });
+
+    test('should only include the configured models', () => {
+        const body = dashboardBody(synthDashboard({
+            dashboardConfigs: [{ modelConfig: BEDROCK_MODELS.ANTHROPIC.CLAUDE_HAIKU_4_5, endpointType: 'cross-region' }],
+        }));
+
+        expect(body).toContain('us.anthropic.claude-haiku-4-5-20251001-v1:0');
+        expect(body).not.toContain('amazon.nova');
+    });
+
+    test('should use the configured namespace for custom metrics', () => {
+        const template = synthDashboard({
+            dashboardConfigs: [{ modelConfig: BEDROCK_MODELS.AMAZON.NOVA_PREMIER_V1, endpointType: 'cross-region' }],
+            namespace: 'Team/Quotas',
+        });
+
+        expect(dashboardBody(template)).toContain('Team/Quotas');
+        template.hasResourceProperties('AWS::Lambda::Function', {
+            Environment: { Variables: { METRIC_NAMESPACE: 'Team/Quotas' } },
+        });
+    });
+
+    test('should use the configured refresh schedule', () => {
+        const template = synthDashboard({
+            dashboardConfigs: [{ modelConfig: BEDROCK_MODELS.AMAZON.NOVA_PREMIER_V1, endpointType: 'cross-region' }],
+            refreshSchedule: events.Schedule.rate(cdk.Duration.hours(6)),
+        });
+
+        template.hasResourceProperties('AWS::Events::Rule', { ScheduleExpression: 'rate(6 hours)' });
+    });
+
+    test('should reject unsupported model/endpoint combinations', () => {
+        expect(() => synthDashboard({
+            dashboardConfigs: [{ modelConfig: BEDROCK_MODELS.AMAZON.NOVA_PREMIER_V1, endpointType: 'regional' }],
+        })).toThrow(/does not support endpoint type 'regional'/);
+    });
+
+    test('should reject models that are not available in the deployment region', () => {
+        expect(() => synthDashboard({
+            dashboardConfigs: [{ modelConfig: BEDROCK_MODELS.AMAZON.NOVA_MICRO_V1, endpointType: 'regional' }],
+        }, 'us-west-2')).toThrow(/does not support endpoint type 'regional'/);
+
+        expect(() => synthDashboard({
+            dashboardConfigs: [{ modelConfig: BEDROCK_MODELS.ANTHROPIC.CLAUDE_SONNET_4_6, endpointType: 'cross-region' }],
+        }, 'us-west-2')).toThrow(/not available in the us-west-2 registry/);
+    });
+
+    test('should fail synthesis for regions without a registry', () => {
+        expect(() => synthDashboard({
+            dashboardConfigs: [{ modelConfig: BEDROCK_MODELS.AMAZON.NOVA_PREMIER_V1, endpointType: 'cross-region' }],
+        }, 'eu-central-1')).toThrow(/No Bedrock model registry found for region 'eu-central-1'/);
+    });
+
+    test('should require an explicit stack region', () => {
+        const stack = new cdk.Stack(new cdk.App(), 'AgnosticStack');
+        expect(() => new BedrockQuotaDashboard(stack, 'QuotaDashboard', {
+            dashboardConfigs: [{ modelConfig: BEDROCK_MODELS.AMAZON.NOVA_PREMIER_V1, endpointType: 'cross-region' }],
+        })).toThrow(/requires a stack with an explicit region/);
+    });
+
+    describe('defineDashboardConfig', () => {
+        test('should accept endpoint types the model supports', () => {
+            const config = defineDashboardConfig({ modelConfig: BEDROCK_MODELS.AMAZON.NOVA_MICRO_V1, endpointType: 'regional' });
+
+            expect(getFullModelId(config.modelConfig, config.endpointType, 'us-east-1')).toBe('amazon.nova-micro-v1:0');
+        });
+
+        test('should prefix cross-region model IDs with the region\'s declared geography', () => {
+            const config = defineDashboardConfig({ modelConfig: BEDROCK_MODELS.ANTHROPIC.CLAUDE_SONNET_4_5, endpointType: 'cross-region' });
+
+            expect(getFullModelId(config.modelConfig, config.endpointType, 'us-west-2')).toBe('us.anthropic.claude-sonnet-4-5-20250929-v1:0');
+            expect(() => getFullModelId(config.modelConfig, config.endpointType, 'ap-southeast-1')).toThrow(/No cross-region inference profile prefix known for region 'ap-southeast-1'/);
+            expect(getFullModelId(config.modelConfig, 'global-cross-region', 'eu-west-1')).toBe('global.anthropic.claude-sonnet-4-5-20250929-v1:0');
+        });
+
+        test('should reject unsupported endpoint types at compile time', () => {
+            // @ts-expect-error - Claude Haiku 4.5 has no regional endpoint
+            const config = defineDashboardConfig({ modelConfig: BEDROCK_MODELS.ANTHROPIC.CLAUDE_HAIKU_4_5, endpointType: 'regional' });
+
+            // The synth-time validation still catches configs that bypass the type check
+            expect(() => synthDashboard({ dashboardConfigs: [config] })).toThrow(/does not support endpoint type 'regional'/);
+        });
+    });
+
+    describe('utilization widgets', () => {
+        test('should add a utilization percentage widget per model', () => {
+            const body = dashboardBody(synthDashboard({
+                dashboardConfigs: [{ modelConfig: BEDROCK_MODELS.ANTHROPIC.CLAUDE_HAIKU_4_5, endpointType: 'cross-region' }],
+            }));
+
+            expect(body).toContain('us.anthropic.claude-haiku-4-5-20251001-v1:0 - Quota Utilization (%)');
+            expect(body).toContain('100 * reservation / tokenQuotaLimit');
+            expect(body).toContain('100 * requests / requestQuotaLimit');
+        });
+
+        test('should show alarm thresholds on the utilization widget', () => {
+            const body = dashboardBody(synthDashboard({
+                dashboardConfigs: [{ modelConfig: BEDROCK_MODELS.AMAZON.NOVA_PREMIER_V1, endpointType: 'cross-region' }],
+                alarms: { warningPercent: 65 },
+            }));
+
+            expect(body).toContain('\\"value\\":65,\\"label\\":\\"Warning\\"');
+        });
+
+        test('should overlay throttles and errors against the reservation', () => {
+            const body = dashboardBody(synthDashboard({
+                dashboardConfigs: [{ modelConfig: BEDROCK_MODELS.AMAZON.NOVA_PREMIER_V1, endpointType: 'cross-region' }],
+            }));
+
+            expect(body).toContain('us.amazon.nova-premier-v1:0 - Throttles & Errors vs Reservation');
+            ['InvocationThrottles', 'InvocationClientErrors', 'InvocationServerErrors', 'InvocationLatency'].forEach(metricName => {
+                expect(body).toContain(`\\"${metricName}\\"`);
+            });
+        });
+
+        test('should aggregate throttles, errors and latency across application profiles', () => {
+            const body = dashboardBody(synthDashboard({
+                dashboardConfigs: [{
+                    modelConfig: BEDROCK_MODELS.ANTHROPIC.CLAUDE_HAIKU_4_5,
+                    endpointType: 'cross-region',
+                    applicationProfileIds: ['abc123'],
+                }],
+            }));
+
+            expect(body).toContain('FILL(throttles, 0) + FILL(throttles_1, 0)');
+            expect(body).toContain('FILL(serverErrors, 0) + FILL(serverErrors_1, 0)');
+            expect(body).toContain('(FILL(latency, 0) * FILL(invocations, 0) + FILL(latency_1, 0) * FILL(invocations_1, 0)) / (invocations + invocations_1)');
+        });
+
+        test('should break consumption down by profile when requested', () => {
+            const body = dashboardBody(synthDashboard({
+                dashboardConfigs: [{
+                    modelConfig: BEDROCK_MODELS.ANTHROPIC.CLAUDE_HAIKU_4_5,
+                    endpointType: 'cross-region',
+                    applicationProfileIds: ['abc123', 'def456'],
+                    applicationProfileLabels: { abc123: 'team-a-chatbot' },
+                    profileBreakdown: true,
+                }],
+            }));
+
+            expect(body).toContain('us.anthropic.claude-haiku-4-5-20251001-v1:0 - Actual Consumption by Profile (% of quota)');
+            expect(body).toContain('\\"stacked\\":true');
+            expect(body).toContain('100 * (FILL(inputTokens_1, 0) + FILL(cacheWriteTokens_1, 0) + FILL(outputTokens_1, 0) * 5) / tokenQuotaLimit');
+            expect(body).toContain('\\"label\\":\\"us.anthropic.claude-haiku-4-5-20251001-v1:0 (system profile)\\"');
+            expect(body).toContain('\\"label\\":\\"team-a-chatbot\\"');
+            expect(body).toContain('\\"label\\":\\"def456\\"');
+        });
+
+        test('should not break down models without application profiles', () => {
+            const body = dashboardBody(synthDashboard({
+                dashboardConfigs: [{ modelConfig: BEDROCK_MODELS.ANTHROPIC.CLAUDE_HAIKU_4_5, endpointType: 'cross-region', profileBreakdown: true }],
+            }));
+
+            expect(body).not.toContain('by Profile');
+        });
+
+        test('should show cache reads and the cache hit ratio without counting them toward quota', () => {
+            const body = dashboardBody(synthDashboard({
+                dashboardConfigs: [{ modelConfig: BEDROCK_MODELS.ANTHROPIC.CLAUDE_HAIKU_4_5, endpointType: 'cross-region' }],
+            }));
+
+            expect(body).toContain('\\"CacheReadInputTokenCount\\"');
+            expect(body).toContain('100 * FILL(cacheReads, 0) / (FILL(uncachedInput, 0) + FILL(cacheReads, 0) + FILL(cacheWrites, 0))');
+            expect(body).toContain('inputTokens + cacheWriteTokens + maxTokens');
+        });
+
+        test('should count cache reads toward quota when the registry says so', () => {
+            const modelConfig = BEDROCK_MODELS.AMAZON.NOVA_PRO_V1;
+            expect(modelConfig.cacheReadsCountTowardQuota).toBe(true);
+
+            const body = dashboardBody(synthDashboard({
+                dashboardConfigs: [
+                    { modelConfig, endpointType: 'regional' },
+                    { modelConfig, endpointType: 'cross-region', applicationProfileIds: ['abc123'] },
+                ],
+            }));
+
+            expect(body).toContain('inputTokens + cacheWriteTokens + cacheReadTokens + maxTokens');
+            expect(body).toContain('(inputTokens + inputTokens_1) + (cacheWriteTokens + cacheWriteTokens_1) + (cacheReadTokens + cacheReadTokens_1) + ((outputTokens + outputTokens_1) * 1)');
+        });
+
+        test('should place a fleet overview with every model above the model widgets', () => {
+            const body = dashboardBody(synthDashboard({
+                dashboardConfigs: [
+                    { modelConfig: BEDROCK_MODELS.AMAZON.NOVA_PREMIER_V1, endpointType: 'cross-region' },
+                    { modelConfig: BEDROCK_MODELS.ANTHROPIC.CLAUDE_HAIKU_4_5, endpointType: 'cross-region', applicationProfileIds: ['abc123'] },
+                ],
+            }));
+
+            expect(body.indexOf('# Fleet Overview')).toBeLessThan(body.indexOf('# Amazon'));
+            expect(body).toContain('Peak Initial Reservation (% of token quota)');
+            expect(body).toContain('MAX(m0)');
+            expect(body).toContain('MAX(m1)');
+            expect(body).toContain('(m1_inputTokens + m1_inputTokens_1)');
+        });
+
+        test('should group models under provider banners whatever the config order', () => {
+            const body = dashboardBody(synthDashboard({
+                dashboardConfigs: [
+                    { modelConfig: BEDROCK_MODELS.ANTHROPIC.CLAUDE_HAIKU_4_5, endpointType: 'cross-region' },
+                    { modelConfig: BEDROCK_MODELS.AMAZON.NOVA_PREMIER_V1, endpointType: 'cross-region' },
+                    { modelConfig: BEDROCK_MODELS.ANTHROPIC.CLAUDE_SONNET_4_5, endpointType: 'cross-region' },
+                ],
+            }));
+
+            expect(body.match(/# Anthropic/g)).toHaveLength(1);
+            expect(body.indexOf('# Amazon')).toBeLessThan(body.indexOf('us.amazon.nova-premier-v1:0 - Initial Reservation'));
+            expect(body.indexOf('us.amazon.nova-premier-v1:0 - Initial Reservation')).toBeLessThan(body.indexOf('# Anthropic'));
+            expect(body.indexOf('# Anthropic')).toBeLessThan(body.indexOf('us.anthropic.claude-haiku-4-5-20251001-v1:0 - Initial Reservation'));
+            expect(body.indexOf('us.anthropic.claude-haiku-4-5-20251001-v1:0 - Initial Reservation'))
+                .toBeLessThan(body.indexOf('us.anthropic.claude-sonnet-4-5-20250929-v1:0 - Initial Reservation'));
+        });
+
+        test('should compare applied quotas with AWS defaults and show pending increase requests', () => {
+            const template = synthDashboard({
+                dashboardConfigs: [{ modelConfig: BEDROCK_MODELS.ANTHROPIC.CLAUDE_HAIKU_4_5, endpointType: 'cross-region' }],
+            });
+            const body = dashboardBody(template);
+
+            ['DefaultTokenQuota', 'DefaultRequestQuota', 'PendingTokenQuotaIncreaseRequests', 'PendingRequestQuotaIncreaseRequests'].forEach(metricName => {
+                expect(body).toContain(`\\"${metricName}\\"`);
+            });
+            expect(body).toContain('AWS Default Quota (Tokens)');
+            expect(body).toContain('Token Quota (× AWS default)');
+            expect(body).toContain('m0_tokenQuotaLimit / m0_defaultTokenQuotaLimit');
+            expect(body).toContain('Pending Token Quota Increase Requests');
+            expect(body).toContain('Pending Request Quota Increase Requests');
+
+            template.hasResourceProperties('AWS::IAM::Policy', {
+                PolicyDocument: {
+                    Statement: Match.arrayWith([Match.objectLike({
+                        Action: Match.arrayWith(['servicequotas:GetAWSDefaultServiceQuota', 'servicequotas:ListRequestedServiceQuotaChangeHistory']),
+                    })]),
+                },
+            });
+        });
+    });
+
+    describe('MaxTokens estimate', () => {
+        const estimate = (id: string, defaultMaxTokens: number) =>
+            `IF(FILL(maxTokens${id}, 0) > 0, FILL(maxTokens${id}, 0), FILL(invocations${id}, 0) * ${defaultMaxTokens})`;
+
+        test('should not estimate missing MaxTokens by default', () => {
+            const body = dashboardBody(synthDashboard({
+                dashboardConfigs: [{ modelConfig: BEDROCK_MODELS.ANTHROPIC.CLAUDE_SONNET_4_5, endpointType: 'cross-region' }],
+            }));
+
+            expect(body).toContain('inputTokens + cacheWriteTokens + maxTokens');
+            expect(body).not.toContain('estimated');
+        });
+
+        test('should estimate missing MaxTokens from invocations and the registry default', () => {
+            const body = dashboardBody(synthDashboard({
+                dashboardConfigs: [
+                    { modelConfig: BEDROCK_MODELS.ANTHROPIC.CLAUDE_SONNET_4_5, endpointType: 'cross-region' },
+                    { modelConfig: BEDROCK_MODELS.ANTHROPIC.CLAUDE_HAIKU_4_5, endpointType: 'global-cross-region', applicationProfileIds: ['abc123'] },
+                ],
+                estimateMissingMaxTokens: true,
+            }));
+
+            expect(body).toContain(`inputTokens + cacheWriteTokens + ${estimate('', 64000)}`);
+            expect(body).toContain('Initial Reservation (estimated where MaxTokens is missing)');
+            expect(body).toContain(`(inputTokens + inputTokens_1) + (cacheWriteTokens + cacheWriteTokens_1) + (${estimate('', 64000)} + ${estimate('_1', 64000)})`);
+            expect(body).toContain('Initial Reservation (2 profiles, estimated where MaxTokens is missing)');
+            expect(body).toContain('us.anthropic.claude-sonnet-4-5-20250929-v1:0 - Initial Reservation (estimated)');
+        });
+
+        test('should use the config default, and skip models without one', () => {
+            const warn = jest.spyOn(console, 'warn');
+            const body = dashboardBody(synthDashboard({
+                dashboardConfigs: [
+                    { modelConfig: BEDROCK_MODELS.ANTHROPIC.CLAUDE_SONNET_4_5, endpointType: 'cross-region', defaultMaxTokens: 4096 },
+                    { modelConfig: BEDROCK_MODELS.AMAZON.NOVA_LITE_V1, endpointType: 'regional' },
+                ],
+                estimateMissingMaxTokens: true,
+            }));
+
+            expect(body).toContain(estimate('', 4096));
+            expect(body).not.toContain('64000');
+            expect(body).toContain('amazon.nova-lite-v1:0 - Initial Reservation\\"');
+            expect(warn).toHaveBeenCalledWith(expect.stringMatching(/^\[MAX_TOKENS_ESTIMATE\] amazon\.nova-lite-v1:0: No defaultMaxOutputTokens/));
+        });
+
+        test('should estimate SEARCH expressions of discovered profiles', () => {
+            const body = dashboardBody(synthDashboard({
+                dashboardConfigs: [{ modelConfig: BEDROCK_MODELS.ANTHROPIC.CLAUDE_HAIKU_4_5, endpointType: 'cross-region', defaultMaxTokens: 8000 }],
+                applicationProfileDiscovery: {},
+            }));
+
+            expect(body).toContain(`(inputTokens) + (cacheWriteTokens) + (${estimate('', 8000)})`);
+        });
+
+        test('should reject invalid config defaults', () => {
+            expect(() => synthDashboard({
+                dashboardConfigs: [{ modelConfig: BEDROCK_MODELS.ANTHROPIC.CLAUDE_SONNET_4_5, endpointType: 'cross-region', defaultMaxTokens: 0 }],
+            })).toThrow('Config 0: defaultMaxTokens must be a positive integer, got 0');
+        });
+    });
+
+    describe('max_tokens analysis', () => {
+        test('should not add the analysis widgets by default', () => {
+            const body = dashboardBody(synthDashboard({
+                dashboardConfigs: [{ modelConfig: BEDROCK_MODELS.ANTHROPIC.CLAUDE_SONNET_4_5, endpointType: 'cross-region' }],
+            }));
+
+            expect(body).not.toContain('Recommended max_tokens');
+        });
+
+        test('should compare reserved with actual output and recommend a max_tokens within the quota', () => {
+            const body = dashboardBody(synthDashboard({
+                dashboardConfigs: [{ modelConfig: BEDROCK_MODELS.ANTHROPIC.CLAUDE_SONNET_4_5, endpointType: 'cross-region', maxTokensAnalysis: true }],
+            }));
+
+            expect(body).toContain('us.anthropic.claude-sonnet-4-5-20250929-v1:0 - Reserved vs Actual Output per Request');
+            expect(body).toContain('IF(requests > 0, reserved / requests, 0)');
+            expect(body).toContain('IF(requests > 0, output / requests, 0)');
+            expect(body).toContain('IF(reserved > 0, 100 * (reserved - output) / reserved, 0)');
+            expect(body).toContain('IF(tokenQuotaLimit > quotaInput, (tokenQuotaLimit - quotaInput) / requests, 0)');
+            expect(body).toContain('FLOOR(MIN(withinQuota))');
+            expect(body).toContain('Recommended max_tokens (busiest minute)');
+        });
+
+        test('should sum application profiles and use the MaxTokens estimate', () => {
+            const body = dashboardBody(synthDashboard({
+                dashboardConfigs: [{
+                    modelConfig: BEDROCK_MODELS.ANTHROPIC.CLAUDE_HAIKU_4_5,
+                    endpointType: 'cross-region',
+                    applicationProfileIds: ['abc123'],
+                    maxTokensAnalysis: true,
+                    defaultMaxTokens: 4096,
+                }],
+            }));
+
+            expect(body).toContain('Average max_tokens (estimated where MaxTokens is missing)');
+            expect(body).toContain('Reserved vs Actual Output per Request (2 profiles aggregated)');
+            expect(body).toContain('(inputTokens + inputTokens_1) + (cacheWriteTokens + cacheWriteTokens_1)');
+        });
+    });
+
+    describe('multi-region', () => {
+        const props: BedrockQuotaDashboardProps = {
+            dashboardConfigs: [{ modelConfig: BEDROCK_MODELS.ANTHROPIC.CLAUDE_SONNET_4_5, endpointType: 'cross-region' }],
+            regions: ['us-east-1', 'us-west-2'],
+        };
+
+        test('should render a section per region with cross-region metrics', () => {
+            const body = dashboardBody(synthDashboard(props));
+
+            expect(body).toContain('# Region: us-east-1');
+            expect(body).toContain('# Region: us-west-2');
+            expect(body).toContain('\\"region\\":\\"us-west-2\\"');
+        });
+
+        test('should fan out the quota refresh per region', () => {
+            const template = synthDashboard(props);
+
+            const rules = Object.values(template.findResources('AWS::Events::Rule'));
+            const inputs = rules[0].Properties.Targets.map((target: any) => JSON.parse(target.Input).region);
+            expect(inputs).toEqual(['us-east-1', 'us-west-2']);
+            template.resourcePropertiesCountIs('AWS::CloudFormation::CustomResource', { region: 'us-west-2' }, 1);
+            template.resourceCountIs('AWS::CloudFormation::CustomResource', 2);
+        });
+
+        test('should use each region\'s quota codes', () => {
+            const template = synthDashboard({
+                dashboardConfigs: [{ modelConfig: BEDROCK_MODELS.AMAZON.NOVA_MICRO_V1, endpointType: 'cross-region' }],
+                regions: ['us-east-1', 'us-west-2'],
+            });
+
+            template.resourcePropertiesCountIs('AWS::CloudFormation::CustomResource', {
+                region: 'us-west-2',
+                models: [{ modelId: 'us.amazon.nova-micro-v1:0', tokenQuotaCode: 'L-DC7FF66C', requestQuotaCode: 'L-3F110E0F' }],
+            }, 1);
+        });
+
+        test('should require models to be available in every region', () => {
+            expect(() => synthDashboard({
+                dashboardConfigs: [{ modelConfig: BEDROCK_MODELS.ANTHROPIC.CLAUDE_SONNET_4_6, endpointType: 'cross-region' }],
+                regions: ['us-east-1', 'us-west-2'],
+            })).toThrow(/not available in the us-west-2 registry/);
+        });
+    });
+
+    describe('utilization alarms', () => {
+        test('should not create alarms by default', () => {
+            const template = synthDashboard({
+                dashboardConfigs: [{ modelConfig: BEDROCK_MODELS.AMAZON.NOVA_PREMIER_V1, endpointType: 'cross-region' }],
+            });
+
+            template.resourceCountIs('AWS::CloudWatch::Alarm', 0);
+            template.resourceCountIs('AWS::SNS::Topic', 0);
+            template.resourcePropertiesCountIs('AWS::Events::Rule', { ScheduleExpression: 'rate(1 minute)' }, 0);
+        });
+
+        test('should publish the quotas alarms divide by within every evaluation window', () => {
+            const template = synthDashboard({
+                dashboardConfigs: [
+                    { modelConfig: BEDROCK_MODELS.AMAZON.NOVA_PREMIER_V1, endpointType: 'cross-region' },
+                    { modelConfig: BEDROCK_MODELS.ANTHROPIC.CLAUDE_HAIKU_4_5, endpointType: 'cross-region', alarms: false },
+                ],
+                alarms: { evaluationPeriods: 1 },
+            });
+
+            // FILL(quota, REPEAT) needs a quota datapoint within the evaluated periods
+            const refreshSeconds = 60;
+            const [refresh] = Object.values(template.findResources('AWS::Events::Rule', {
+                Properties: { ScheduleExpression: 'rate(1 minute)' },
+            }));
+            expect(JSON.parse(refresh.Properties.Targets[0].Input)).toEqual({
+                source: 'aws.events',
+                region: 'us-east-1',
+                models: [{ modelId: 'us.amazon.nova-premier-v1:0', tokenQuotaCode: expect.any(String), requestQuotaCode: expect.any(String) }],
+                appliedQuotasOnly: true,
+            });
+
+            const alarms = Object.values(template.findResources('AWS::CloudWatch::Alarm'));
+            expect(alarms).toHaveLength(6);
+            alarms.forEach(alarm => {
+                const quotaMetrics = alarm.Properties.Metrics.filter((metric: any) => ['TokenQuota', 'RequestQuota'].includes(metric.MetricStat?.Metric.MetricName));
+                expect(quotaMetrics).toHaveLength(1);
+                expect(quotaMetrics[0].MetricStat.Period * alarm.Properties.EvaluationPeriods).toBeGreaterThanOrEqual(refreshSeconds);
+            });
+        });
+
+        test('should create warning and critical alarms per utilization metric', () => {
+            const template = synthDashboard({
+                dashboardConfigs: [{ modelConfig: BEDROCK_MODELS.AMAZON.NOVA_PREMIER_V1, endpointType: 'cross-region' }],
+                alarms: { warningPercent: 60 },
+            });
+
+            template.resourceCountIs('AWS::CloudWatch::Alarm', 6);
+            template.resourcePropertiesCountIs('AWS::CloudWatch::Alarm', { Threshold: 60 }, 3);
+            template.resourcePropertiesCountIs('AWS::CloudWatch::Alarm', { Threshold: 90 }, 3);
+        });
+
+        test('should apply per-config overrides', () => {
+            const template = synthDashboard({
+                dashboardConfigs: [
+                    { modelConfig: BEDROCK_MODELS.AMAZON.NOVA_PREMIER_V1, endpointType: 'cross-region', alarms: false },
+                    { modelConfig: BEDROCK_MODELS.ANTHROPIC.CLAUDE_HAIKU_4_5, endpointType: 'cross-region', alarms: { criticalPercent: 95 } },
+                ],
+                alarms: {},
+            });
+
+            template.resourceCountIs('AWS::CloudWatch::Alarm', 6);
+            template.resourcePropertiesCountIs('AWS::CloudWatch::Alarm', { Threshold: 95 }, 3);
+        });
+
+        test('should notify a created topic with email and HTTPS subscriptions', () => {
+            const template = synthDashboard({
+                dashboardConfigs: [{ modelConfig: BEDROCK_MODELS.AMAZON.NOVA_PREMIER_V1, endpointType: 'cross-region' }],
+                alarms: {},
+                alarmEmailAddresses: ['oncall@example.com'],
+                alarmHttpsEndpoints: ['https://hooks.example.com/bedrock'],
+            });
+
+            template.resourceCountIs('AWS::SNS::Topic', 1);
+            template.hasResourceProperties('AWS::SNS::Subscription', { Protocol: 'email', Endpoint: 'oncall@example.com' });
+            template.hasResourceProperties('AWS::SNS::Subscription', { Protocol: 'https', Endpoint: 'https://hooks.example.com/bedrock' });
+            const alarms = Object.values(template.findResources('AWS::CloudWatch::Alarm'));
+            alarms.forEach(alarm => expect(alarm.Properties.AlarmActions).toHaveLength(1));
+        });
+
+        test('should only create alarms for the stack region', () => {
+            const template = synthDashboard({
+                dashboardConfigs: [{ modelConfig: BEDROCK_MODELS.ANTHROPIC.CLAUDE_SONNET_4_5, endpointType: 'cross-region' }],
+                regions: ['us-east-1', 'us-west-2'],
+                alarms: {},
+            });
+
+            template.resourceCountIs('AWS::CloudWatch::Alarm', 6);
+        });
+
+        test('should create every alarm for a model with application profiles', () => {
+            const template = synthDashboard({
+                dashboardConfigs: [{
+                    modelConfig: BEDROCK_MODELS.ANTHROPIC.CLAUDE_SONNET_4_5,
+                    endpointType: 'cross-region',
+                    applicationProfileIds: ['profile-a', 'profile-b'],
+                }],
+                alarms: {},
+            });
+
+            template.resourceCountIs('AWS::CloudWatch::Alarm', 6);
+        });
+
+        test('should warn in the synth output about alarms over the metric limit', () => {
+            const stack = synthDashboardStack({
+                dashboardConfigs: [{
+                    modelConfig: BEDROCK_MODELS.ANTHROPIC.CLAUDE_SONNET_4_5,
+                    endpointType: 'cross-region',
+                    applicationProfileIds: ['profile-a', 'profile-b'],
+                }],
+                alarms: {},
+                estimateMissingMaxTokens: true,
+            });
+
+            // The estimated Initial Reservation adds each profile's invocations: 4 metrics per profile plus the quota
+            const template = Template.fromStack(stack);
+            template.resourceCountIs('AWS::CloudWatch::Alarm', 4);
+            expect(Object.values(template.findResources('AWS::CloudWatch::Alarm'))
+                .some(alarm => alarm.Properties.AlarmDescription.includes('Initial Reservation'))).toBe(false);
+            Annotations.fromStack(stack).hasWarning(
+                '/TestStack/QuotaDashboard/UtilizationAlarms-us-east-1-0',
+                Match.stringLikeRegexp("Initial Reservation alarms for 'us.anthropic.claude-sonnet-4-5-20250929-v1:0' are not created - the expression uses 13 metrics")
+            );
+        });
+    });
+
+    describe('automatic quota increase', () => {
+        test('should not create the quota increase function by default', () => {
+            const template = synthDashboard({
+                dashboardConfigs: [{ modelConfig: BEDROCK_MODELS.ANTHROPIC.CLAUDE_SONNET_4_5, endpointType: 'cross-region' }],
+            });
+
+            template.resourcePropertiesCountIs('AWS::Lambda::Function', { Handler: 'quota-increase-lambda.handler' }, 0);
+        });
+
+        test('should request an increase of the token quota on sustained high utilization', () => {
+            const template = synthDashboard({
+                dashboardConfigs: [
+                    { modelConfig: BEDROCK_MODELS.AMAZON.NOVA_PREMIER_V1, endpointType: 'cross-region' },
+                    {
+                        modelConfig: BEDROCK_MODELS.ANTHROPIC.CLAUDE_SONNET_4_5,
+                        endpointType: 'cross-region',
+                        quotaIncrease: { maxTokenQuota: 2000000, thresholdPercent: 85 },
+                    },
+                ],
+            });
+
+            // One alarm per signal, both filing requests through the same rule
+            template.resourceCountIs('AWS::CloudWatch::Alarm', 2);
+            ['100 * reservation / tokenQuotaLimit', '100 * consumption / tokenQuotaLimit'].forEach(expression => {
+                template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+                    Threshold: 85,
+                    EvaluationPeriods: 15,
+                    Metrics: Match.arrayWith([Match.objectLike({ Expression: expression, ReturnData: true })]),
+                });
+            });
+            template.resourcePropertiesCountIs('AWS::Lambda::Function', { Handler: 'quota-increase-lambda.handler' }, 1);
+
+            const rule = Object.values(template.findResources('AWS::Events::Rule'))
+                .find(resource => resource.Properties.EventPattern?.['detail-type']?.[0] === 'CloudWatch Alarm State Change');
+            expect(rule?.Properties.EventPattern.detail).toEqual({ state: { value: ['ALARM'] } });
+            expect(rule?.Properties.EventPattern.resources).toHaveLength(2);
+            expect(rule?.Properties.Targets[0].InputTransformer.InputTemplate).toContain(
+                '"modelId":"us.anthropic.claude-sonnet-4-5-20250929-v1:0","quotaCode":"L-F4DDD3EB","maxValue":2000000,"increaseFactor":2'
+            );
+
+            template.hasResourceProperties('AWS::IAM::Policy', {
+                PolicyDocument: {
+                    Statement: Match.arrayWith([Match.objectLike({
+                        Action: Match.arrayWith(['servicequotas:RequestServiceQuotaIncrease']),
+                    })]),
+                },
+            });
+        });
+
+        test('should publish the token quota within the quota increase evaluation window', () => {
+            const template = synthDashboard({
+                dashboardConfigs: [{
+                    modelConfig: BEDROCK_MODELS.ANTHROPIC.CLAUDE_SONNET_4_5,
+                    endpointType: 'cross-region',
+                    quotaIncrease: { maxTokenQuota: 2000000, evaluationPeriods: 1 },
+                }],
+            });
+
+            const [refresh] = Object.values(template.findResources('AWS::Events::Rule', {
+                Properties: { ScheduleExpression: 'rate(1 minute)' },
+            }));
+            expect(JSON.parse(refresh.Properties.Targets[0].Input)).toMatchObject({
+                models: [{ modelId: 'us.anthropic.claude-sonnet-4-5-20250929-v1:0', tokenQuotaCode: 'L-F4DDD3EB' }],
+                appliedQuotasOnly: true,
+            });
+
+            const alarms = Object.values(template.findResources('AWS::CloudWatch::Alarm'));
+            expect(alarms).toHaveLength(2);
+            alarms.forEach(alarm => {
+                const tokenQuota = alarm.Properties.Metrics.find((metric: any) => metric.MetricStat?.Metric.MetricName === 'TokenQuota');
+                expect(tokenQuota.MetricStat.Period).toBe(60);
+                expect(tokenQuota.MetricStat.Period * alarm.Properties.EvaluationPeriods).toBeGreaterThanOrEqual(60);
+            });
+        });
+
+        test('should record requests on the alarm topic', () => {
+            const template = synthDashboard({
+                dashboardConfigs: [{
+                    modelConfig: BEDROCK_MODELS.ANTHROPIC.CLAUDE_SONNET_4_5,
+                    endpointType: 'cross-region',
+                    quotaIncrease: { maxTokenQuota: 2000000 },
+                }],
+                alarmEmailAddresses: ['oncall@example.com'],
+            });
+
+            template.hasResourceProperties('AWS::Lambda::Function', {
+                Handler: 'quota-increase-lambda.handler',
+                Environment: { Variables: { NOTIFICATION_TOPIC_ARN: Match.anyValue() } },
+            });
+        });
+
+        test('should trigger on the signals within the alarm metric limit for a model with application profiles', () => {
+            const stack = synthDashboardStack({
+                dashboardConfigs: [{
+                    modelConfig: BEDROCK_MODELS.ANTHROPIC.CLAUDE_SONNET_4_5,
+                    endpointType: 'cross-region',
+                    applicationProfileIds: ['profile-a', 'profile-b'],
+                    quotaIncrease: { maxTokenQuota: 2000000 },
+                }],
+                estimateMissingMaxTokens: true,
+            });
+
+            // The estimated Initial Reservation needs 13 metrics; Actual Consumption needs 10
+            const template = Template.fromStack(stack);
+            template.resourceCountIs('AWS::CloudWatch::Alarm', 1);
+            template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+                AlarmDescription: Match.stringLikeRegexp('Actual Consumption at or above 80% of the token quota'),
+                Metrics: Match.arrayWith([Match.objectLike({ Expression: '100 * consumption / tokenQuotaLimit' })]),
+            });
+            Annotations.fromStack(stack).hasWarning(
+                '/TestStack/QuotaDashboard/QuotaIncrease-0',
+                Match.stringLikeRegexp('Initial Reservation does not trigger quota increases')
+            );
+        });
+
+        test('should fail synth when no signal fits within the alarm metric limit', () => {
+            expect(() => synthDashboard({
+                dashboardConfigs: [{
+                    modelConfig: BEDROCK_MODELS.ANTHROPIC.CLAUDE_SONNET_4_5,
+                    endpointType: 'cross-region',
+                    applicationProfileIds: ['profile-a', 'profile-b', 'profile-c'],
+                    quotaIncrease: { maxTokenQuota: 2000000 },
+                }],
+            })).toThrow(/the utilization expressions use 13 and 13 metrics, alarms support at most 10/);
+        });
+
+        test('should reject invalid settings', () => {
+            expect(() => synthDashboard({
+                dashboardConfigs: [{
+                    modelConfig: BEDROCK_MODELS.ANTHROPIC.CLAUDE_SONNET_4_5,
+                    endpointType: 'cross-region',
+                    quotaIncrease: { maxTokenQuota: 2000000, increaseFactor: 1 },
+                }],
+            })).toThrow(/increaseFactor must be greater than 1/);
+        });
+    });
+
+    describe('application profile discovery', () => {
+        const sonnetProfile = 'us.anthropic.claude-sonnet-4-5-20250929-v1:0';
+
+        test('should not create the discovery function by default', () => {
+            const template = synthDashboard({
+                dashboardConfigs: [{ modelConfig: BEDROCK_MODELS.ANTHROPIC.CLAUDE_SONNET_4_5, endpointType: 'cross-region' }],
+            });
+
+            template.resourcePropertiesCountIs('AWS::Lambda::Function', { Handler: 'profile-discovery-lambda.handler' }, 0);
+            expect(dashboardBody(template)).not.toContain('SEARCH(');
+        });
+
+        test('should sum the profiles of each model with rewritable SEARCH expressions', () => {
+            // Unescape the nested JSON of the dashboard body to compare the expressions
+            const body = dashboardBody(synthDashboard({
+                dashboardConfigs: [{ modelConfig: BEDROCK_MODELS.ANTHROPIC.CLAUDE_SONNET_4_5, endpointType: 'cross-region', applicationProfileIds: ['grjihoh0los8'] }],
+                applicationProfileDiscovery: {},
+            })).replace(/\\/g, '');
+
+            const modelIdFilter = `(ModelId="${sonnetProfile}" OR ModelId="grjihoh0los8")`;
+            expect(body).toContain(`SUM(SEARCH('{AWS/Bedrock,ModelId} MetricName="InputTokenCount" ${modelIdFilter}', 'Sum', 60))`);
+            expect(body).toContain(`SUM(SEARCH('{Bedrock/Quotas,ModelId} MetricName="MaxTokens" ${modelIdFilter}', 'Sum', 60))`);
+            expect(body).toContain(`AVG(SEARCH('{AWS/Bedrock,ModelId} MetricName="InvocationLatency" ${modelIdFilter}', 'Average', 60))`);
+            expect(body).toContain('(discovered profiles aggregated)');
+        });
+
+        test('should query each region\'s profiles in the fleet overview', () => {
+            const template = synthDashboard({
+                dashboardConfigs: [{ modelConfig: BEDROCK_MODELS.ANTHROPIC.CLAUDE_SONNET_4_5, endpointType: 'cross-region' }],
+                regions: ['us-east-1', 'us-west-2'],
+                applicationProfileDiscovery: {},
+            });
+            const { DashboardBody } = Object.values(template.findResources('AWS::CloudWatch::Dashboard'))[0].Properties;
+            const body = JSON.parse(DashboardBody['Fn::Join'][1].filter((part: unknown) => typeof part === 'string').join(''));
+
+            const overview = body.widgets.find((widget: any) => widget.properties.title?.startsWith('Peak Initial Reservation'));
+            const searches = overview.properties.metrics
+                .map((row: any[]) => row[row.length - 1])
+                .filter((options: any) => options.expression?.startsWith('SUM(SEARCH('));
+            expect(searches.map((options: any) => [options.id, options.region])).toEqual([
+                ['m0_inputTokens', undefined],
+                ['m0_cacheWriteTokens', undefined],
+                ['m0_maxTokens', undefined],
+                ['m1_inputTokens', 'us-west-2'],
+                ['m1_cacheWriteTokens', 'us-west-2'],
+                ['m1_maxTokens', 'us-west-2'],
+            ]);
+        });
+
+        test('should keep alarms on the configured profiles', () => {
+            const template = synthDashboard({
+                dashboardConfigs: [{ modelConfig: BEDROCK_MODELS.ANTHROPIC.CLAUDE_SONNET_4_5, endpointType: 'cross-region', applicationProfileIds: ['grjihoh0los8'] }],
+                alarms: {},
+                applicationProfileDiscovery: {},
+            });
+
+            const alarms = JSON.stringify(template.findResources('AWS::CloudWatch::Alarm'));
+            expect(alarms).not.toContain('SEARCH(');
+            expect(alarms).toContain('grjihoh0los8');
+        });
+
+        test('should discover profiles on a schedule and after each deployment', () => {
+            const template = synthDashboard({
+                dashboardConfigs: [{ modelConfig: BEDROCK_MODELS.ANTHROPIC.CLAUDE_SONNET_4_5, endpointType: 'cross-region' }],
+                applicationProfileDiscovery: { schedule: events.Schedule.rate(cdk.Duration.minutes(15)) },
+            });
+
+            template.resourcePropertiesCountIs('AWS::Lambda::Function', { Handler: 'profile-discovery-lambda.handler' }, 1);
+            const rule = Object.values(template.findResources('AWS::Events::Rule'))
+                .find(resource => resource.Properties.ScheduleExpression === 'rate(15 minutes)');
+            expect(JSON.stringify(rule?.Properties.Targets[0].Input)).toContain(
+                `\\"profiles\\":[{\\"region\\":\\"us-east-1\\",\\"systemProfileId\\":\\"${sonnetProfile}\\",\\"applicationProfileIds\\":[]}]`
+            );
+            template.hasResource('AWS::CloudFormation::CustomResource', {
+                Properties: Match.objectLike({ bodyHash: Match.stringLikeRegexp('^[0-9a-f]{64}$') }),
+                DependsOn: Match.arrayWith([Match.stringLikeRegexp('BedrockQuotaDashboard')]),
+            });
+            template.hasResourceProperties('AWS::IAM::Policy', {
+                PolicyDocument: {
+                    Statement: Match.arrayWith([Match.objectLike({
+                        Action: ['cloudwatch:GetDashboard', 'cloudwatch:PutDashboard'],
+                    })]),
+                },
+            });
+        });
+    });
+
+    describe('dashboard groups', () => {
+        function groupedBodies(template: Template): { [dashboardName: string]: string } {
+            return Object.fromEntries(Object.values(template.findResources('AWS::CloudWatch::Dashboard'))
+                .map(resource => [resource.Properties.DashboardName, JSON.stringify(resource.Properties.DashboardBody)]));
+        }
+
+        test('should create a dashboard per group and an index linking to them', () => {
+            const template = synthDashboard({
+                dashboardConfigs: [
+                    { modelConfig: BEDROCK_MODELS.ANTHROPIC.CLAUDE_SONNET_4_5, endpointType: 'cross-region', group: 'team-a' },
+                    { modelConfig: BEDROCK_MODELS.ANTHROPIC.CLAUDE_HAIKU_4_5, endpointType: 'cross-region', group: 'Team B' },
+                    { modelConfig: BEDROCK_MODELS.AMAZON.NOVA_PREMIER_V1, endpointType: 'cross-region' },
+                ],
+                dashboardName: 'Quotas',
+            });
+
+            const bodies = groupedBodies(template);
+            expect(Object.keys(bodies).sort()).toEqual(['Quotas', 'Quotas-Team-B', 'Quotas-Ungrouped', 'Quotas-team-a']);
+            expect(bodies['Quotas-team-a']).toContain('us.anthropic.claude-sonnet-4-5-20250929-v1:0');
+            expect(bodies['Quotas-team-a']).not.toContain('claude-haiku');
+            expect(bodies['Quotas-Ungrouped']).toContain('us.amazon.nova-premier-v1:0');
+
+            // The index lists every group and shows the overview of all models, without their graphs
+            expect(bodies.Quotas).toContain('| [Team B](https://console.aws.amazon.com/cloudwatch/home?region=us-east-1#dashboards:name=Quotas-Team-B) | 1 |');
+            expect(bodies.Quotas).toContain('Fleet Overview');
+            expect(bodies.Quotas).toContain('us.amazon.nova-premier-v1:0');
+            expect(bodies.Quotas).not.toContain('Quota Utilization (%)');
+        });
+
+        test('should list each config once in the index overview, keeping variants of the same model', () => {
+            const template = synthDashboard({
+                dashboardConfigs: [
+                    { modelConfig: BEDROCK_MODELS.ANTHROPIC.CLAUDE_SONNET_4_6, endpointType: 'global-cross-region', group: 'team-a' },
+                    { modelConfig: BEDROCK_MODELS.ANTHROPIC.CLAUDE_SONNET_4_6, endpointType: 'global-cross-region', group: 'team-b' },
+                    { modelConfig: BEDROCK_MODELS.ANTHROPIC.CLAUDE_SONNET_4_6_1M, endpointType: 'global-cross-region', group: 'team-b' },
+                ],
+                dashboardName: 'Quotas',
+            });
+
+            // Both Sonnet 4.6 configs share the model ID global.anthropic.claude-sonnet-4-6
+            const { Quotas: index } = groupedBodies(template);
+            expect(index).toContain('MAX(m0)');
+            expect(index).toContain('MAX(m1)');
+            expect(index).not.toContain('MAX(m2)');
+        });
+
+        test('should reject groups with the same dashboard name', () => {
+            expect(() => synthDashboard({
+                dashboardConfigs: [
+                    { modelConfig: BEDROCK_MODELS.ANTHROPIC.CLAUDE_SONNET_4_5, endpointType: 'cross-region', group: 'team a' },
+                    { modelConfig: BEDROCK_MODELS.ANTHROPIC.CLAUDE_HAIKU_4_5, endpointType: 'cross-region', group: 'team/a' },
+                ],
+            })).toThrow(/Dashboard groups 'team a' and 'team\/a' both map to the dashboard name 'BedrockQuotaConsumptionByModel-team-a'/);
+        });
+
+        test('should discover profiles for every dashboard', () => {
+            const template = synthDashboard({
+                dashboardConfigs: [
+                    { modelConfig: BEDROCK_MODELS.ANTHROPIC.CLAUDE_SONNET_4_5, endpointType: 'cross-region', group: 'team-a' },
+                ],
+                applicationProfileDiscovery: {},
+            });
+
+            const discovery = Object.values(template.findResources('AWS::CloudFormation::CustomResource'))
+                .find(resource => resource.Properties.dashboardNames);
+            expect(discovery?.Properties.dashboardNames).toHaveLength(2);
+            Object.values(groupedBodies(template)).forEach(body => expect(body).toContain('SEARCH('));
+        });
+    });
+});
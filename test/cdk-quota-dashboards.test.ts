@@ -1,4 +1,4 @@
-import { BEDROCK_MODELS, getQuotaCodes, validateModelEndpointSupport, getSupportedEndpointTypes } from '../lib/bedrock-registries';
+import { BEDROCK_MODELS, getQuotaCodes, validateModelEndpointSupport, getSupportedEndpointTypes, getRegistry, getSupportedRegions, findModelKey, resolveModelConfig, getCrossRegionPrefix, getProviderName, PROVIDER_NAMES } from '../lib/bedrock-registries';
 
 describe('Registry Helper Functions', () => {
     describe('getQuotaCodes', () => {
@@ -121,4 +121,46 @@ describe('Registry Helper Functions', () => {
             });
         });
     });
+
+    describe('Region Registries', () => {
+        test('should provide registries for us-east-1 and us-west-2', () => {
+            expect(getSupportedRegions()).toEqual(expect.arrayContaining(['us-east-1', 'us-west-2']));
+            expect(getRegistry('us-west-2').ANTHROPIC.CLAUDE_SONNET_4_5).toBeDefined();
+        });
+
+        test('should throw for regions without a registry', () => {
+            expect(() => getRegistry('eu-central-1')).toThrow(/No Bedrock model registry found for region 'eu-central-1'/);
+        });
+
+        test('should locate models by provider and model key', () => {
+            expect(findModelKey(BEDROCK_MODELS.ANTHROPIC.CLAUDE_SONNET_4_6_1M)).toEqual({ provider: 'ANTHROPIC', modelKey: 'CLAUDE_SONNET_4_6_1M' });
+        });
+
+        test('should name every provider group', () => {
+            expect(Object.keys(PROVIDER_NAMES)).toEqual(Object.keys(BEDROCK_MODELS));
+            expect(getProviderName('AI21')).toBe('AI21 Labs');
+            expect(getProviderName('ACME_LABS')).toBe('Acme Labs');
+        });
+
+        test('should resolve models against the target region registry', () => {
+            const resolved = resolveModelConfig('us-west-2', BEDROCK_MODELS.AMAZON.NOVA_MICRO_V1);
+            expect(resolved).toBe(getRegistry('us-west-2').AMAZON.NOVA_MICRO_V1);
+            expect(resolved?.supportedEndpoints).toEqual(['cross-region']);
+        });
+
+        test('should return null for models missing from the target region', () => {
+            expect(resolveModelConfig('us-west-2', BEDROCK_MODELS.ANTHROPIC.CLAUDE_SONNET_4_6)).toBeNull();
+        });
+
+        test('should return the cross-region profile prefix declared for the region', () => {
+            expect(getCrossRegionPrefix('us-east-1')).toBe('us');
+            expect(getCrossRegionPrefix('us-west-2')).toBe('us');
+        });
+
+        test('should throw for regions without a declared cross-region prefix', () => {
+            expect(() => getCrossRegionPrefix('sa-east-1')).toThrow(/No cross-region inference profile prefix known for region 'sa-east-1'/);
+            // ap-northeast-1 has both apac. and jp. profiles, so the prefix is never guessed from the name
+            expect(() => getCrossRegionPrefix('ap-northeast-1')).toThrow(/No cross-region inference profile prefix known for region 'ap-northeast-1'/);
+        });
+    });
 });
@@ -0,0 +1,164 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as cdk from 'aws-cdk-lib';
+import { BEDROCK_MODELS } from '../lib/bedrock-registries';
+import { validateAllDashboardConfigs } from '../lib/bedrock-quota-dashboard';
+import { loadDashboardsFile } from '../lib/dashboard-config-file';
+import { CdkQuotaDashboardsStack } from '../lib/cdk-quota-dashboards-stack';
+
+const DASHBOARDS_YAML = `dashboardName: TeamQuotaDashboard
+alarms:
+  warningPercent: 60
+models:
+  - model: ANTHROPIC.CLAUDE_HAIKU_4_5
+    endpointType: cross-region
+    applicationProfileIds: [grjihoh0los8]
+    applicationProfileLabels: { grjihoh0los8: team-a-chatbot }
+    alarms: false
+  - model: ANTHROPIC.CLAUDE_SONNET_4_5
+    endpointType: global-cross-region
+`;
+
+describe('Dashboards File', () => {
+    let tempDir: string;
+
+    beforeAll(() => {
+        tempDir = mkdtempSync(path.join(os.tmpdir(), 'dashboards-file-'));
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    });
+
+    afterAll(() => {
+        rmSync(tempDir, { recursive: true, force: true });
+        jest.restoreAllMocks();
+    });
+
+    function writeDashboardsFile(name: string, contents: string): string {
+        const file = path.join(tempDir, name);
+        writeFileSync(file, contents);
+        return file;
+    }
+
+    describe('loadDashboardsFile', () => {
+        test('should return undefined if no file is given', () => {
+            expect(loadDashboardsFile(undefined)).toBeUndefined();
+        });
+
+        test('should reject a missing file', () => {
+            expect(() => loadDashboardsFile(path.join(tempDir, 'missing.yaml'))).toThrow(/does not exist/);
+        });
+
+        test('should resolve registry keys to dashboard configs in file order', () => {
+            const settings = loadDashboardsFile(writeDashboardsFile('valid.yaml', DASHBOARDS_YAML));
+
+            expect(settings?.dashboardName).toBe('TeamQuotaDashboard');
+            expect(settings?.alarms).toEqual({ warningPercent: 60 });
+            expect(settings?.dashboardConfigs).toEqual([
+                {
+                    modelConfig: BEDROCK_MODELS.ANTHROPIC.CLAUDE_HAIKU_4_5,
+                    endpointType: 'cross-region',
+                    applicationProfileIds: ['grjihoh0los8'],
+                    applicationProfileLabels: { grjihoh0los8: 'team-a-chatbot' },
+                    alarms: false,
+                    source: 'valid.yaml:5',
+                },
+                {
+                    modelConfig: BEDROCK_MODELS.ANTHROPIC.CLAUDE_SONNET_4_5,
+                    endpointType: 'global-cross-region',
+                    source: 'valid.yaml:10',
+                },
+            ]);
+        });
+
+        test('should load JSON files', () => {
+            const file = writeDashboardsFile('valid.json', JSON.stringify({
+                models: [{ model: 'ANTHROPIC.CLAUDE_SONNET_4_5', endpointType: 'cross-region' }],
+            }, null, 2));
+
+            expect(loadDashboardsFile(file)?.dashboardConfigs).toEqual([{
+                modelConfig: BEDROCK_MODELS.ANTHROPIC.CLAUDE_SONNET_4_5,
+                endpointType: 'cross-region',
+                source: 'valid.json:3',
+            }]);
+        });
+
+        test('should report syntax errors with their line', () => {
+            const file = writeDashboardsFile('syntax.yaml', 'models:\n  - model: [\n');
+
+            expect(() => loadDashboardsFile(file)).toThrow(/Invalid dashboards file .*syntax\.yaml:\nline 3, column 1: /);
+        });
+
+        test('should report every schema error with its line', () => {
+            const file = writeDashboardsFile('schema.yaml', [
+                'models:',
+                '  - model: ANTHROPIC.CLAUDE_SONNET_4_5',
+                '    endpointType: regionl',
+                '    colour: red',
+                '  - model: ANTHROPIC.CLAUDE_HAIKU_4_5',
+                '    alarms: true',
+                '',
+            ].join('\n'));
+
+            expect(() => loadDashboardsFile(file)).toThrow([
+                'line 3, column 19: models[0].endpointType: must be equal to one of the allowed values: regional, cross-region, global-cross-region',
+                'line 4, column 13: models[0]: unknown property \'colour\'',
+                'line 5, column 5: models[1]: must have required property \'endpointType\'',
+                'line 6, column 13: models[1].alarms: must be equal to constant: false',
+            ].join('\n'));
+        });
+
+        test('should report unknown registry keys with their line', () => {
+            const file = writeDashboardsFile('unknown.yaml', 'models:\n  - endpointType: cross-region\n    model: ANTHROPIC.CLAUDE_SONET_4_5\n');
+
+            expect(() => loadDashboardsFile(file)).toThrow('line 3, column 12: models[0].model: unknown model \'ANTHROPIC.CLAUDE_SONET_4_5\'');
+        });
+    });
+
+    test('should include the file and line in config validation errors', () => {
+        const file = writeDashboardsFile('endpoint.yaml', 'models:\n  - model: ANTHROPIC.CLAUDE_HAIKU_4_5\n    endpointType: regional\n');
+        const configs = loadDashboardsFile(file)!.dashboardConfigs;
+
+        expect(() => validateAllDashboardConfigs(configs)).toThrow(
+            "Config 0 (endpoint.yaml:2): Model 'anthropic.claude-haiku-4-5-20251001-v1:0' does not support endpoint type 'regional'"
+        );
+    });
+
+    test('should use the file on the stack unless configs are given', () => {
+        const dashboardsFile = writeDashboardsFile('stack.yaml', DASHBOARDS_YAML);
+        const app = new cdk.App();
+        const stack = new CdkQuotaDashboardsStack(app, 'FileStack', {
+            env: { account: '123456789012', region: 'us-east-1' },
+            dashboardsFile,
+        });
+        const explicitStack = new CdkQuotaDashboardsStack(app, 'ExplicitStack', {
+            env: { account: '123456789012', region: 'us-east-1' },
+            dashboardsFile,
+            dashboardName: 'ExplicitDashboard',
+            dashboardConfigs: [{ modelConfig: BEDROCK_MODELS.ANTHROPIC.CLAUDE_SONNET_4_5, endpointType: 'cross-region' }],
+        });
+
+        const template = JSON.stringify(app.synth().getStackArtifact(stack.artifactId).template);
+        expect(template).toContain('TeamQuotaDashboard');
+        expect(template).toContain('us.anthropic.claude-haiku-4-5-20251001-v1:0');
+        expect(template).toContain('global.anthropic.claude-sonnet-4-5-20250929-v1:0');
+
+        const explicitTemplate = JSON.stringify(app.synth().getStackArtifact(explicitStack.artifactId).template);
+        expect(explicitTemplate).toContain('ExplicitDashboard');
+        expect(explicitTemplate).not.toContain('claude-haiku-4-5');
+    });
+
+    test('should not read the file when configs are given', () => {
+        const app = new cdk.App();
+        const dashboardConfigs = [{ modelConfig: BEDROCK_MODELS.ANTHROPIC.CLAUDE_SONNET_4_5, endpointType: 'cross-region' as const }];
+
+        [writeDashboardsFile('malformed.yaml', 'models: [\n'), path.join(tempDir, 'missing.yaml')].forEach((dashboardsFile, index) => {
+            expect(() => new CdkQuotaDashboardsStack(app, `ExplicitStack${index}`, {
+                env: { account: '123456789012', region: 'us-east-1' },
+                dashboardsFile,
+                dashboardConfigs,
+            })).not.toThrow();
+            expect(() => loadDashboardsFile(dashboardsFile)).toThrow();
+        });
+    });
+});
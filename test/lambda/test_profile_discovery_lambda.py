@@ -0,0 +1,210 @@
+"""
+Tests for lib/lambda/profile-discovery-lambda.py with mocked Bedrock and CloudWatch clients.
+
+Run with: npm run test:lambda (after pip install -r requirements-dev.txt)
+"""
+import importlib.util
+import json
+import os
+import unittest
+
+LAMBDA_PATH = os.path.join(os.path.dirname(__file__), '..', '..', 'lib', 'lambda', 'profile-discovery-lambda.py')
+
+spec = importlib.util.spec_from_file_location('profile_discovery_lambda', LAMBDA_PATH)
+profile_discovery = importlib.util.module_from_spec(spec)
+spec.loader.exec_module(profile_discovery)
+
+
+def foundation_model_arn(region, model_id):
+    return f'arn:aws:bedrock:{region}::foundation-model/{model_id}'
+
+
+def profile(profile_id, *model_arns):
+    return {'inferenceProfileId': profile_id, 'models': [{'modelArn': arn} for arn in model_arns]}
+
+
+SONNET = 'anthropic.claude-sonnet-4-5-20250929-v1:0'
+HAIKU = 'anthropic.claude-haiku-4-5-20251001-v1:0'
+SONNET_PROFILE = f'us.{SONNET}'
+HAIKU_PROFILE = f'us.{HAIKU}'
+SONNET_ARNS = [foundation_model_arn(region, SONNET) for region in ('us-east-1', 'us-east-2', 'us-west-2')]
+HAIKU_ARNS = [foundation_model_arn(region, HAIKU) for region in ('us-east-1', 'us-east-2', 'us-west-2')]
+
+SYSTEM_PROFILES = [
+    profile(SONNET_PROFILE, *SONNET_ARNS),
+    profile(HAIKU_PROFILE, *HAIKU_ARNS),
+]
+APPLICATION_PROFILES = [
+    profile('team-a', *reversed(SONNET_ARNS)),
+    profile('team-b', *HAIKU_ARNS),
+    profile('team-c', foundation_model_arn('us-east-1', SONNET)),
+    profile('no-models'),
+]
+
+
+class FakeBedrockClient:
+    """Bedrock client returning fixed profiles, one per page"""
+
+    def __init__(self, system_profiles, application_profiles):
+        self.profiles = {'SYSTEM_DEFINED': system_profiles, 'APPLICATION': application_profiles}
+
+    def list_inference_profiles(self, typeEquals, maxResults, nextToken=None):
+        profiles = self.profiles[typeEquals]
+        index = int(nextToken or 0)
+        response = {'inferenceProfileSummaries': profiles[index:index + 1]}
+        if index + 1 < len(profiles):
+            response['nextToken'] = str(index + 1)
+        return response
+
+
+class FakeCloudWatchClient:
+    """CloudWatch client holding dashboard bodies by name"""
+
+    def __init__(self, bodies):
+        self.bodies = {name: json.dumps(body) for name, body in bodies.items()}
+        self.puts = []
+
+    def get_dashboard(self, DashboardName):
+        return {'DashboardBody': self.bodies[DashboardName]}
+
+    def put_dashboard(self, DashboardName, DashboardBody):
+        self.puts.append(json.loads(DashboardBody))
+        self.bodies[DashboardName] = DashboardBody
+
+
+def search(metric_name, *profile_ids):
+    model_filter = ' OR '.join(f'ModelId="{profile_id}"' for profile_id in profile_ids)
+    return f"SUM(SEARCH('{{AWS/Bedrock,ModelId}} MetricName=\"{metric_name}\" ({model_filter})', 'Sum', 60))"
+
+
+def dashboard_body(*expressions, region='us-east-1'):
+    return {'widgets': [{
+        'type': 'metric',
+        'properties': {
+            'region': region,
+            'metrics': [[{'expression': expression, 'id': f'm{index}'}] for index, expression in enumerate(expressions)],
+        },
+    }]}
+
+
+class MapApplicationProfilesTest(unittest.TestCase):
+    def test_maps_profiles_by_foundation_models(self):
+        mapping = profile_discovery.map_application_profiles(SYSTEM_PROFILES, APPLICATION_PROFILES)
+
+        self.assertEqual(mapping, {
+            SONNET_PROFILE: ['team-a'],
+            HAIKU_PROFILE: ['team-b'],
+            SONNET: ['team-c'],
+        })
+
+
+class DiscoverProfilesTest(unittest.TestCase):
+    def setUp(self):
+        profile_discovery._clients.clear()
+        profile_discovery._clients[('bedrock', 'us-east-1')] = FakeBedrockClient(SYSTEM_PROFILES, APPLICATION_PROFILES)
+
+    def test_adds_discovered_profiles_after_configured_ones(self):
+        profile_ids = profile_discovery.discover_profiles([
+            {'region': 'us-east-1', 'systemProfileId': SONNET_PROFILE, 'applicationProfileIds': ['configured', 'team-a']},
+            {'region': 'us-east-1', 'systemProfileId': 'us.amazon.nova-pro-v1:0', 'applicationProfileIds': []},
+        ])
+
+        self.assertEqual(profile_ids, {
+            ('us-east-1', SONNET_PROFILE): [SONNET_PROFILE, 'configured', 'team-a'],
+            ('us-east-1', 'us.amazon.nova-pro-v1:0'): ['us.amazon.nova-pro-v1:0'],
+        })
+
+
+class RewriteDashboardBodyTest(unittest.TestCase):
+    def test_rewrites_the_filters_of_each_model(self):
+        body = dashboard_body(
+            search('InputTokenCount', SONNET_PROFILE, 'configured'),
+            search('Invocations', HAIKU_PROFILE),
+            '(inputTokens) + (cacheWriteTokens)',
+        )
+
+        rewritten, changes = profile_discovery.rewrite_dashboard_body(body, {
+            ('us-east-1', SONNET_PROFILE): [SONNET_PROFILE, 'configured', 'team-a'],
+            ('us-east-1', HAIKU_PROFILE): [HAIKU_PROFILE, 'team-b'],
+        })
+
+        self.assertEqual(changes, 2)
+        self.assertEqual(rewritten, dashboard_body(
+            search('InputTokenCount', SONNET_PROFILE, 'configured', 'team-a'),
+            search('Invocations', HAIKU_PROFILE, 'team-b'),
+            '(inputTokens) + (cacheWriteTokens)',
+        ))
+
+    def test_only_rewrites_expressions_of_the_same_region(self):
+        body = dashboard_body(search('InputTokenCount', SONNET_PROFILE), region='us-west-2')
+
+        _, changes = profile_discovery.rewrite_dashboard_body(body, {
+            ('us-east-1', SONNET_PROFILE): [SONNET_PROFILE, 'team-a'],
+        })
+
+        self.assertEqual(changes, 0)
+
+    def test_removes_deleted_profiles(self):
+        body = dashboard_body(search('InputTokenCount', SONNET_PROFILE, 'deleted'))
+
+        rewritten, changes = profile_discovery.rewrite_dashboard_body(body, {
+            ('us-east-1', SONNET_PROFILE): [SONNET_PROFILE],
+        })
+
+        self.assertEqual(changes, 1)
+        self.assertEqual(rewritten, dashboard_body(search('InputTokenCount', SONNET_PROFILE)))
+
+    def test_caps_filters_at_the_search_expression_limit(self):
+        profile_ids = [SONNET_PROFILE] + [f'profile{index:04d}' for index in range(60)]
+        body = dashboard_body(search('InputTokenCount', SONNET_PROFILE))
+
+        with self.assertLogs(profile_discovery.logger, 'WARNING') as logs:
+            rewritten, changes = profile_discovery.rewrite_dashboard_body(body, {('us-east-1', SONNET_PROFILE): profile_ids})
+
+        expression = rewritten['widgets'][0]['properties']['metrics'][0][0]['expression']
+        kept = len(expression.split(' OR '))
+        self.assertEqual(changes, 1)
+        self.assertLessEqual(len(expression), profile_discovery.MAX_SEARCH_EXPRESSION_LENGTH)
+        self.assertGreater(len(expression), profile_discovery.MAX_SEARCH_EXPRESSION_LENGTH - len(' OR ModelId="profile0000"'))
+        self.assertEqual(expression, search('InputTokenCount', *profile_ids[:kept]))
+        self.assertEqual(len(logs.output), 1)
+        self.assertIn(f'left out {len(profile_ids) - kept} application profiles', logs.output[0])
+        self.assertIn(profile_ids[-1], logs.output[0])
+
+
+class UpdateDashboardTest(unittest.TestCase):
+    def test_puts_the_dashboard_only_when_it_changed(self):
+        client = FakeCloudWatchClient({'Dashboard': dashboard_body(search('InputTokenCount', SONNET_PROFILE))})
+        profile_ids = {('us-east-1', SONNET_PROFILE): [SONNET_PROFILE, 'team-a']}
+
+        self.assertEqual(profile_discovery.update_dashboard(client, 'Dashboard', profile_ids), 1)
+        self.assertEqual(profile_discovery.update_dashboard(client, 'Dashboard', profile_ids), 0)
+        self.assertEqual(client.puts, [dashboard_body(search('InputTokenCount', SONNET_PROFILE, 'team-a'))])
+
+
+class HandlerTest(unittest.TestCase):
+    def test_updates_every_dashboard(self):
+        profile_discovery._clients.clear()
+        profile_discovery._clients[('bedrock', 'us-east-1')] = FakeBedrockClient(SYSTEM_PROFILES, APPLICATION_PROFILES)
+        client = FakeCloudWatchClient({
+            'Index': dashboard_body(search('InputTokenCount', SONNET_PROFILE), search('InputTokenCount', HAIKU_PROFILE)),
+            'Index-team-a': dashboard_body(search('InputTokenCount', SONNET_PROFILE)),
+            'Index-team-b': dashboard_body(search('InputTokenCount', HAIKU_PROFILE, 'team-b')),
+        })
+        profile_discovery._clients[('cloudwatch', None)] = client
+
+        response = profile_discovery.handler({
+            'dashboardNames': ['Index', 'Index-team-a', 'Index-team-b'],
+            'profiles': [
+                {'region': 'us-east-1', 'systemProfileId': SONNET_PROFILE, 'applicationProfileIds': []},
+                {'region': 'us-east-1', 'systemProfileId': HAIKU_PROFILE, 'applicationProfileIds': []},
+            ],
+        }, None)
+
+        self.assertEqual(json.loads(response['body']), {'updatedExpressions': 3})
+        self.assertEqual(len(client.puts), 2)
+        self.assertEqual(json.loads(client.bodies['Index-team-a']), dashboard_body(search('InputTokenCount', SONNET_PROFILE, 'team-a')))
+
+
+if __name__ == '__main__':
+    unittest.main()
@@ -0,0 +1,168 @@
+"""
+Tests for lib/lambda/quota-fetcher-lambda.py with mocked Service Quotas and CloudWatch clients.
+
+Run with: npm run test:lambda (after pip install -r requirements-dev.txt)
+"""
+import importlib.util
+import json
+import os
+import unittest
+
+from botocore.exceptions import ClientError
+
+LAMBDA_PATH = os.path.join(os.path.dirname(__file__), '..', '..', 'lib', 'lambda', 'quota-fetcher-lambda.py')
+
+spec = importlib.util.spec_from_file_location('quota_fetcher_lambda', LAMBDA_PATH)
+quota_fetcher = importlib.util.module_from_spec(spec)
+spec.loader.exec_module(quota_fetcher)
+
+
+class FakePaginator:
+    def __init__(self, history):
+        self.history = history
+
+    def paginate(self, ServiceCode, Status):
+        # One page per request, to cover pagination
+        for request in self.history:
+            if request['Status'] == Status:
+                yield {'RequestedQuotas': [request]}
+
+
+class FakeServiceQuotasClient:
+    """Service Quotas client with fixed applied and default quota values and request history"""
+
+    def __init__(self, quotas, default_quotas=None, history=None, history_error=None):
+        self.quotas = quotas
+        self.default_quotas = default_quotas or {}
+        self.history = history or []
+        self.history_error = history_error
+        self.calls = []
+
+    def get_service_quota(self, ServiceCode, QuotaCode):
+        self.calls.append(('get_service_quota', QuotaCode))
+        return {'Quota': {'QuotaCode': QuotaCode, 'Value': self.quotas[QuotaCode]}}
+
+    def get_aws_default_service_quota(self, ServiceCode, QuotaCode):
+        self.calls.append(('get_aws_default_service_quota', QuotaCode))
+        return {'Quota': {'QuotaCode': QuotaCode, 'Value': self.default_quotas[QuotaCode]}}
+
+    def get_paginator(self, operation_name):
+        assert operation_name == 'list_requested_service_quota_change_history'
+        self.calls.append(('list_requested_service_quota_change_history', None))
+        if self.history_error:
+            raise ClientError({'Error': {'Code': self.history_error, 'Message': self.history_error}}, 'ListRequestedServiceQuotaChangeHistory')
+        return FakePaginator(self.history)
+
+
+class FakeCloudWatchClient:
+    """CloudWatch client recording published metrics"""
+
+    def __init__(self):
+        self.metrics = []
+
+    def put_metric_data(self, Namespace, MetricData):
+        self.metrics.extend((Namespace, metric) for metric in MetricData)
+
+
+def request(quota_code, status):
+    return {'QuotaCode': quota_code, 'Status': status}
+
+
+MODEL_ID = 'us.anthropic.claude-sonnet-4-5-20250929-v1:0'
+TOKEN_QUOTA_CODE = 'L-F4DDD3EB'
+REQUEST_QUOTA_CODE = 'L-4A6BFAB1'
+MODEL = {'modelId': MODEL_ID, 'tokenQuotaCode': TOKEN_QUOTA_CODE, 'requestQuotaCode': REQUEST_QUOTA_CODE}
+APPLIED_QUOTAS = {TOKEN_QUOTA_CODE: 400000, REQUEST_QUOTA_CODE: 200}
+DEFAULT_QUOTAS = {TOKEN_QUOTA_CODE: 200000, REQUEST_QUOTA_CODE: 200}
+
+
+class GetSpecificQuotasTest(unittest.TestCase):
+    def test_fetches_applied_quotas(self):
+        client = FakeServiceQuotasClient(APPLIED_QUOTAS, DEFAULT_QUOTAS)
+
+        quotas = quota_fetcher.get_specific_quotas(client, 'bedrock', [TOKEN_QUOTA_CODE, REQUEST_QUOTA_CODE])
+
+        self.assertEqual(quotas, APPLIED_QUOTAS)
+        self.assertEqual({call[0] for call in client.calls}, {'get_service_quota'})
+
+    def test_fetches_aws_default_quotas(self):
+        client = FakeServiceQuotasClient(APPLIED_QUOTAS, DEFAULT_QUOTAS)
+
+        quotas = quota_fetcher.get_specific_quotas(client, 'bedrock', [TOKEN_QUOTA_CODE, REQUEST_QUOTA_CODE], aws_default=True)
+
+        self.assertEqual(quotas, DEFAULT_QUOTAS)
+        self.assertEqual({call[0] for call in client.calls}, {'get_aws_default_service_quota'})
+
+
+class GetPendingRequestsTest(unittest.TestCase):
+    def test_counts_pending_and_case_opened_requests_per_quota_code(self):
+        client = FakeServiceQuotasClient(APPLIED_QUOTAS, history=[
+            request(TOKEN_QUOTA_CODE, 'PENDING'),
+            request(TOKEN_QUOTA_CODE, 'CASE_OPENED'),
+            request(REQUEST_QUOTA_CODE, 'CASE_OPENED'),
+            request(TOKEN_QUOTA_CODE, 'APPROVED'),
+            request('L-OTHER', 'PENDING'),
+        ])
+
+        pending = quota_fetcher.get_pending_requests(client, 'bedrock', [TOKEN_QUOTA_CODE, REQUEST_QUOTA_CODE])
+
+        self.assertEqual(pending, {TOKEN_QUOTA_CODE: 2, REQUEST_QUOTA_CODE: 1})
+
+    def test_returns_none_when_the_history_cannot_be_read(self):
+        client = FakeServiceQuotasClient(APPLIED_QUOTAS, history_error='AccessDeniedException')
+
+        with self.assertLogs(quota_fetcher.logger, 'ERROR'):
+            pending = quota_fetcher.get_pending_requests(client, 'bedrock', [TOKEN_QUOTA_CODE])
+
+        self.assertIsNone(pending)
+
+
+class HandlerTest(unittest.TestCase):
+    def setUp(self):
+        self.sq_client = FakeServiceQuotasClient(APPLIED_QUOTAS, DEFAULT_QUOTAS, history=[request(TOKEN_QUOTA_CODE, 'PENDING')])
+        self.cw_client = FakeCloudWatchClient()
+        quota_fetcher._clients.clear()
+        quota_fetcher._clients['us-west-2'] = (self.sq_client, self.cw_client)
+
+    def published(self):
+        return {metric['MetricName']: metric for _, metric in self.cw_client.metrics}
+
+    def test_publishes_quota_metrics_per_model(self):
+        response = quota_fetcher.handler({'source': 'aws.events', 'region': 'us-west-2', 'models': [MODEL]}, None)
+
+        self.assertEqual(response['statusCode'], 200)
+        self.assertEqual(json.loads(response['body'])['pendingIncreaseRequests'], 1)
+        self.assertEqual({namespace for namespace, _ in self.cw_client.metrics}, {quota_fetcher.METRIC_NAMESPACE})
+        self.assertEqual({name: metric['Value'] for name, metric in self.published().items()}, {
+            'TokenQuota': 400000,
+            'RequestQuota': 200,
+            'DefaultTokenQuota': 200000,
+            'DefaultRequestQuota': 200,
+            'PendingTokenQuotaIncreaseRequests': 1,
+            'PendingRequestQuotaIncreaseRequests': 0,
+        })
+        for metric in self.published().values():
+            self.assertEqual(metric['Dimensions'], [{'Name': 'ModelId', 'Value': MODEL_ID}])
+            self.assertEqual(metric['Unit'], 'None')
+
+    def test_publishes_only_applied_quotas_when_asked(self):
+        quota_fetcher.handler({'source': 'aws.events', 'region': 'us-west-2', 'models': [MODEL], 'appliedQuotasOnly': True}, None)
+
+        self.assertEqual(set(self.published()), {'TokenQuota', 'RequestQuota'})
+        self.assertEqual({call[0] for call in self.sq_client.calls}, {'get_service_quota'})
+
+    def test_skips_pending_metrics_when_the_history_cannot_be_read(self):
+        self.sq_client.history_error = 'AccessDeniedException'
+
+        with self.assertLogs(quota_fetcher.logger, 'ERROR'):
+            response = quota_fetcher.handler({
+                'RequestType': 'Create',
+                'ResourceProperties': {'region': 'us-west-2', 'models': [MODEL]},
+            }, None)
+
+        self.assertEqual(response['Data']['PendingIncreaseRequests'], 'unknown')
+        self.assertEqual(set(self.published()), {'TokenQuota', 'RequestQuota', 'DefaultTokenQuota', 'DefaultRequestQuota'})
+
+
+if __name__ == '__main__':
+    unittest.main()
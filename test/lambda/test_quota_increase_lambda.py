@@ -0,0 +1,118 @@
+"""
+Tests for lib/lambda/quota-increase-lambda.py with a mocked Service Quotas client.
+
+Run with: npm run test:lambda (after pip install -r requirements-dev.txt)
+"""
+import importlib.util
+import os
+import unittest
+
+from botocore.exceptions import ClientError
+
+LAMBDA_PATH = os.path.join(os.path.dirname(__file__), '..', '..', 'lib', 'lambda', 'quota-increase-lambda.py')
+
+spec = importlib.util.spec_from_file_location('quota_increase_lambda', LAMBDA_PATH)
+quota_increase = importlib.util.module_from_spec(spec)
+spec.loader.exec_module(quota_increase)
+
+
+class FakePaginator:
+    def __init__(self, history):
+        self.history = history
+
+    def paginate(self, ServiceCode, QuotaCode):
+        yield {'RequestedQuotas': [request for request in self.history if request['QuotaCode'] == QuotaCode]}
+
+
+class FakeServiceQuotasClient:
+    """Service Quotas client with fixed quota values and request history"""
+
+    def __init__(self, quotas, history=None, request_error=None):
+        self.quotas = quotas
+        self.history = history or []
+        self.request_error = request_error
+        self.requests = []
+
+    def get_service_quota(self, ServiceCode, QuotaCode):
+        return {'Quota': {'QuotaCode': QuotaCode, 'Value': self.quotas[QuotaCode]}}
+
+    def get_paginator(self, operation_name):
+        assert operation_name == 'list_requested_service_quota_change_history_by_quota'
+        return FakePaginator(self.history)
+
+    def request_service_quota_increase(self, ServiceCode, QuotaCode, DesiredValue):
+        if self.request_error:
+            raise ClientError({'Error': {'Code': self.request_error, 'Message': self.request_error}}, 'RequestServiceQuotaIncrease')
+        self.requests.append((ServiceCode, QuotaCode, DesiredValue))
+        return {'RequestedQuota': {'Id': f'request-{len(self.requests)}', 'QuotaCode': QuotaCode, 'DesiredValue': DesiredValue}}
+
+
+MODEL_ID = 'us.anthropic.claude-sonnet-4-5-20250929-v1:0'
+QUOTA_CODE = 'L-F4DDD3EB'
+
+
+class RequestQuotaIncreaseTest(unittest.TestCase):
+    def test_requests_the_increased_value(self):
+        client = FakeServiceQuotasClient({QUOTA_CODE: 200000})
+
+        record = quota_increase.request_quota_increase(client, MODEL_ID, QUOTA_CODE, 1000000, 2)
+
+        self.assertEqual(client.requests, [('bedrock', QUOTA_CODE, 400000)])
+        self.assertEqual(record['action'], 'requested')
+        self.assertEqual(record['requestId'], 'request-1')
+        self.assertEqual(record['currentValue'], 200000)
+        self.assertEqual(record['desiredValue'], 400000)
+
+    def test_caps_the_requested_value(self):
+        client = FakeServiceQuotasClient({QUOTA_CODE: 800000})
+
+        record = quota_increase.request_quota_increase(client, MODEL_ID, QUOTA_CODE, 1000000, 2)
+
+        self.assertEqual(client.requests, [('bedrock', QUOTA_CODE, 1000000)])
+        self.assertEqual(record['desiredValue'], 1000000)
+
+    def test_skips_quotas_at_the_cap(self):
+        client = FakeServiceQuotasClient({QUOTA_CODE: 1000000})
+
+        record = quota_increase.request_quota_increase(client, MODEL_ID, QUOTA_CODE, 1000000, 2)
+
+        self.assertEqual(client.requests, [])
+        self.assertEqual(record['action'], 'at-cap')
+
+    def test_skips_quotas_with_an_open_request(self):
+        client = FakeServiceQuotasClient({QUOTA_CODE: 200000}, history=[
+            {'Id': 'old', 'QuotaCode': QUOTA_CODE, 'Status': 'APPROVED', 'DesiredValue': 200000},
+            {'Id': 'open', 'QuotaCode': QUOTA_CODE, 'Status': 'CASE_OPENED', 'DesiredValue': 400000},
+        ])
+
+        record = quota_increase.request_quota_increase(client, MODEL_ID, QUOTA_CODE, 1000000, 2)
+
+        self.assertEqual(client.requests, [])
+        self.assertEqual(record['action'], 'pending')
+        self.assertEqual(record['requestId'], 'open')
+
+    def test_ignores_closed_requests(self):
+        client = FakeServiceQuotasClient({QUOTA_CODE: 200000}, history=[
+            {'Id': 'denied', 'QuotaCode': QUOTA_CODE, 'Status': 'DENIED', 'DesiredValue': 400000},
+        ])
+
+        record = quota_increase.request_quota_increase(client, MODEL_ID, QUOTA_CODE, 1000000, 2)
+
+        self.assertEqual(record['action'], 'requested')
+
+    def test_treats_a_concurrent_request_as_pending(self):
+        client = FakeServiceQuotasClient({QUOTA_CODE: 200000}, request_error='ResourceAlreadyExistsException')
+
+        record = quota_increase.request_quota_increase(client, MODEL_ID, QUOTA_CODE, 1000000, 2)
+
+        self.assertEqual(record['action'], 'pending')
+
+    def test_raises_other_errors(self):
+        client = FakeServiceQuotasClient({QUOTA_CODE: 200000}, request_error='AccessDeniedException')
+
+        with self.assertRaises(ClientError):
+            quota_increase.request_quota_increase(client, MODEL_ID, QUOTA_CODE, 1000000, 2)
+
+
+if __name__ == '__main__':
+    unittest.main()
@@ -0,0 +1,252 @@
+import * as cdk from 'aws-cdk-lib';
+import { Template } from 'aws-cdk-lib/assertions';
+import { BedrockRuntimeClient, ConverseCommand, ConverseStreamCommand, InvokeModelCommand, InvokeModelWithResponseStreamCommand } from '@aws-sdk/client-bedrock-runtime';
+import { CloudWatchClient, PutMetricDataCommand } from '@aws-sdk/client-cloudwatch';
+import { BEDROCK_MODELS } from '../lib/bedrock-registries';
+import { BedrockQuotaDashboard, DEFAULT_METRIC_NAMESPACE, getFullModelId } from '../lib/bedrock-quota-dashboard';
+import {
+    DEFAULT_MAX_TOKENS_NAMESPACE,
+    getInvokeModelMaxTokens,
+    getMaxTokensModelId,
+    getMaxTokensPublisherPlugin,
+    getRequestMaxTokens,
+    MaxTokensPublisher,
+    type MaxTokensPublisherProps,
+} from '../lib/max-tokens-publisher';
+
+function mockCloudWatchClient() {
+    const send = jest.fn().mockResolvedValue({});
+    return { client: { send } as unknown as CloudWatchClient, send };
+}
+
+// Bedrock Runtime client whose requests stop before being signed and sent
+function stubbedBedrockClient(): BedrockRuntimeClient {
+    const client = new BedrockRuntimeClient({ region: 'us-east-1', credentials: { accessKeyId: 'AKID', secretAccessKey: 'SECRET' } });
+    client.middlewareStack.add(() => async () => ({ output: { $metadata: {} } as never, response: {} }), { step: 'build', name: 'stubResponse' });
+    return client;
+}
+
+// Record requests through the Bedrock Runtime client and collect the published
+// [namespace, metric name, dimension name, dimension value] of each value
+async function publishedMetrics(props: MaxTokensPublisherProps, modelIds: string[]): Promise<string[][]> {
+    const { client, send } = mockCloudWatchClient();
+    const lines: string[] = [];
+    const publisher = new MaxTokensPublisher({ ...props, client, flushIntervalMs: 0, writeLine: line => lines.push(line) });
+    const bedrock = stubbedBedrockClient();
+    bedrock.middlewareStack.use(getMaxTokensPublisherPlugin(publisher));
+    for (const modelId of modelIds) {
+        await bedrock.send(new ConverseCommand({ modelId, messages: [], inferenceConfig: { maxTokens: 1000 } }));
+    }
+    await publisher.close();
+
+    if (props.mode === 'emf') {
+        return lines.map(line => JSON.parse(line)).map(entry => {
+            const directive = entry._aws.CloudWatchMetrics[0];
+            const dimension = directive.Dimensions[0][0];
+            return [directive.Namespace, directive.Metrics[0].Name, dimension, entry[dimension]];
+        });
+    }
+    return send.mock.calls.flatMap(([command]: [PutMetricDataCommand]) => command.input.MetricData!.map(datum =>
+        [command.input.Namespace!, datum.MetricName!, datum.Dimensions![0].Name!, datum.Dimensions![0].Value!]));
+}
+
+describe('MaxTokens Publisher', () => {
+    afterEach(() => {
+        jest.useRealTimers();
+        jest.restoreAllMocks();
+    });
+
+    test('should publish in the namespace the dashboard queries', () => {
+        expect(DEFAULT_MAX_TOKENS_NAMESPACE).toBe(DEFAULT_METRIC_NAMESPACE);
+    });
+
+    test('should use the ModelId dimension of the dashboard', () => {
+        const model = BEDROCK_MODELS.ANTHROPIC.CLAUDE_SONNET_4_5;
+
+        expect(getMaxTokensModelId(`arn:aws:bedrock:us-east-1:123456789012:inference-profile/us.${model.modelId}`))
+            .toBe(getFullModelId(model, 'cross-region', 'us-east-1'));
+        expect(getMaxTokensModelId(`global.${model.modelId}`)).toBe(getFullModelId(model, 'global-cross-region', 'us-east-1'));
+        expect(getMaxTokensModelId('arn:aws:bedrock:us-east-1::foundation-model/amazon.nova-lite-v1:0'))
+            .toBe(getFullModelId(BEDROCK_MODELS.AMAZON.NOVA_LITE_V1, 'regional', 'us-east-1'));
+        expect(getMaxTokensModelId('arn:aws:bedrock:us-east-1:123456789012:application-inference-profile/grjihoh0los8')).toBe('grjihoh0los8');
+    });
+
+    test('should read max tokens from InvokeModel bodies of each model family', () => {
+        const encode = (body: object) => new TextEncoder().encode(JSON.stringify(body));
+
+        expect(getInvokeModelMaxTokens(encode({ anthropic_version: 'bedrock-2023-05-31', max_tokens: 2048, messages: [] }))).toBe(2048);
+        expect(getInvokeModelMaxTokens(encode({ messages: [], inferenceConfig: { max_new_tokens: 1000 } }))).toBe(1000);
+        expect(getInvokeModelMaxTokens(encode({ inputText: 'Hi', textGenerationConfig: { maxTokenCount: 512 } }))).toBe(512);
+        expect(getInvokeModelMaxTokens(JSON.stringify({ prompt: 'Hi', max_gen_len: 256 }))).toBe(256);
+        expect(getInvokeModelMaxTokens(encode({ messages: [] }))).toBeUndefined();
+        expect(getInvokeModelMaxTokens('not json')).toBeUndefined();
+    });
+
+    test('should only read max tokens from inference requests', () => {
+        const modelId = 'us.anthropic.claude-haiku-4-5-20251001-v1:0';
+
+        expect(getRequestMaxTokens('ConverseCommand', { modelId, inferenceConfig: { maxTokens: 4096 } })).toEqual({ modelId, maxTokens: 4096 });
+        expect(getRequestMaxTokens('ConverseCommand', { modelId, messages: [] })).toBeUndefined();
+        expect(getRequestMaxTokens('CountTokensCommand', { modelId, inferenceConfig: { maxTokens: 4096 } })).toBeUndefined();
+    });
+
+    test('should publish one statistic set per model and minute', async () => {
+        jest.useFakeTimers({ now: new Date('2026-01-05T10:00:30Z') });
+        const { client, send } = mockCloudWatchClient();
+        const publisher = new MaxTokensPublisher({ client, flushIntervalMs: 0 });
+
+        publisher.record('us.anthropic.claude-haiku-4-5-20251001-v1:0', 4096);
+        publisher.record('us.anthropic.claude-haiku-4-5-20251001-v1:0', 1024);
+        publisher.record('amazon.nova-lite-v1:0', 512);
+        jest.setSystemTime(new Date('2026-01-05T10:01:10Z'));
+        publisher.record('amazon.nova-lite-v1:0', 256);
+        await publisher.flush();
+
+        expect(send).toHaveBeenCalledTimes(1);
+        const command = send.mock.calls[0][0] as PutMetricDataCommand;
+        expect(command).toBeInstanceOf(PutMetricDataCommand);
+        expect(command.input).toEqual({
+            Namespace: 'Bedrock/Quotas',
+            MetricData: [
+                {
+                    MetricName: 'MaxTokens',
+                    Dimensions: [{ Name: 'ModelId', Value: 'us.anthropic.claude-haiku-4-5-20251001-v1:0' }],
+                    Timestamp: new Date('2026-01-05T10:00:00Z'),
+                    StatisticValues: { SampleCount: 2, Sum: 5120, Minimum: 1024, Maximum: 4096 },
+                    Unit: 'None',
+                },
+                expect.objectContaining({ Timestamp: new Date('2026-01-05T10:00:00Z'), StatisticValues: { SampleCount: 1, Sum: 512, Minimum: 512, Maximum: 512 } }),
+                expect.objectContaining({ Timestamp: new Date('2026-01-05T10:01:00Z'), StatisticValues: { SampleCount: 1, Sum: 256, Minimum: 256, Maximum: 256 } }),
+            ],
+        });
+
+        // Nothing left to publish
+        await publisher.close();
+        expect(send).toHaveBeenCalledTimes(1);
+    });
+
+    test('should publish on the flush interval and when the buffer is full', async () => {
+        jest.useFakeTimers();
+        const { client, send } = mockCloudWatchClient();
+        const publisher = new MaxTokensPublisher({ client, namespace: 'Team/Quotas', flushIntervalMs: 5000, maxBufferedRequests: 3 });
+
+        publisher.record('amazon.nova-lite-v1:0', 512);
+        expect(send).not.toHaveBeenCalled();
+        jest.advanceTimersByTime(5000);
+        expect(send).toHaveBeenCalledTimes(1);
+        expect(send.mock.calls[0][0].input.Namespace).toBe('Team/Quotas');
+
+        ['a', 'b', 'c'].forEach(modelId => publisher.record(modelId, 100));
+        expect(send).toHaveBeenCalledTimes(2);
+        expect(send.mock.calls[1][0].input.MetricData).toHaveLength(3);
+
+        await publisher.close();
+        jest.advanceTimersByTime(5000);
+        expect(send).toHaveBeenCalledTimes(2);
+    });
+
+    test('should report publishing failures without throwing', async () => {
+        const send = jest.fn().mockRejectedValue(new Error('AccessDenied'));
+        const onError = jest.fn();
+        const publisher = new MaxTokensPublisher({ client: { send } as unknown as CloudWatchClient, flushIntervalMs: 0, onError });
+
+        publisher.record('amazon.nova-lite-v1:0', 512);
+        await expect(publisher.close()).resolves.toBeUndefined();
+        expect(onError).toHaveBeenCalledWith(new Error('AccessDenied'));
+    });
+
+    test('should record every inference command of the Bedrock Runtime client', async () => {
+        jest.spyOn(Date, 'now').mockReturnValue(new Date('2026-01-05T10:00:30Z').getTime());
+        const { client, send } = mockCloudWatchClient();
+        const publisher = new MaxTokensPublisher({ client, flushIntervalMs: 0 });
+        const bedrock = stubbedBedrockClient();
+        bedrock.middlewareStack.use(getMaxTokensPublisherPlugin(publisher));
+        const body = (maxTokens: number) => JSON.stringify({ anthropic_version: 'bedrock-2023-05-31', max_tokens: maxTokens, messages: [] });
+
+        await bedrock.send(new ConverseCommand({ modelId: 'us.anthropic.claude-haiku-4-5-20251001-v1:0', messages: [], inferenceConfig: { maxTokens: 4000 } }));
+        await bedrock.send(new ConverseStreamCommand({ modelId: 'us.anthropic.claude-haiku-4-5-20251001-v1:0', messages: [], inferenceConfig: { maxTokens: 2000 } }));
+        await bedrock.send(new InvokeModelCommand({ modelId: 'arn:aws:bedrock:us-east-1:123456789012:application-inference-profile/grjihoh0los8', body: body(300) }));
+        await bedrock.send(new InvokeModelWithResponseStreamCommand({ modelId: 'global.anthropic.claude-sonnet-4-5-20250929-v1:0', body: new TextEncoder().encode(body(100)) }));
+        // Requests without max tokens are not recorded
+        await bedrock.send(new ConverseCommand({ modelId: 'amazon.nova-lite-v1:0', messages: [] }));
+        await publisher.close();
+
+        const published = (send.mock.calls[0][0] as PutMetricDataCommand).input.MetricData!
+            .map(datum => [datum.Dimensions![0].Value, datum.StatisticValues!.Sum]);
+        expect(published).toEqual([
+            ['us.anthropic.claude-haiku-4-5-20251001-v1:0', 6000],
+            ['grjihoh0los8', 300],
+            ['global.anthropic.claude-sonnet-4-5-20250929-v1:0', 100],
+        ]);
+    });
+
+    describe('Embedded Metric Format', () => {
+        test('should write one log line per request instead of calling PutMetricData', async () => {
+            jest.spyOn(Date, 'now').mockReturnValue(1767607230000);
+            const { client, send } = mockCloudWatchClient();
+            const lines: string[] = [];
+            const publisher = new MaxTokensPublisher({ mode: 'emf', client, writeLine: line => lines.push(line) });
+
+            publisher.record('us.anthropic.claude-haiku-4-5-20251001-v1:0', 4096, { Operation: 'Converse' });
+            publisher.record('us.anthropic.claude-haiku-4-5-20251001-v1:0', 1024);
+            await publisher.close();
+
+            expect(send).not.toHaveBeenCalled();
+            expect(lines.map(line => JSON.parse(line))).toEqual([
+                {
+                    Operation: 'Converse',
+                    ModelId: 'us.anthropic.claude-haiku-4-5-20251001-v1:0',
+                    MaxTokens: 4096,
+                    _aws: {
+                        Timestamp: 1767607230000,
+                        CloudWatchMetrics: [{ Namespace: 'Bedrock/Quotas', Dimensions: [['ModelId']], Metrics: [{ Name: 'MaxTokens', Unit: 'None' }] }],
+                    },
+                },
+                expect.objectContaining({ MaxTokens: 1024 }),
+            ]);
+        });
+
+        test('should publish additional dimensions as a second dimension set', async () => {
+            const { client, send } = mockCloudWatchClient();
+            const lines: string[] = [];
+            const dimensions = { Application: 'chatbot' };
+            const emfPublisher = new MaxTokensPublisher({ mode: 'emf', dimensions, writeLine: line => lines.push(line) });
+            const publisher = new MaxTokensPublisher({ client, dimensions, flushIntervalMs: 0 });
+
+            emfPublisher.record('amazon.nova-lite-v1:0', 512);
+            publisher.record('amazon.nova-lite-v1:0', 512);
+            await publisher.close();
+
+            const entry = JSON.parse(lines[0]);
+            expect(entry).toMatchObject({ Application: 'chatbot', ModelId: 'amazon.nova-lite-v1:0' });
+            expect(entry._aws.CloudWatchMetrics[0].Dimensions).toEqual([['ModelId'], ['ModelId', 'Application']]);
+            expect((send.mock.calls[0][0] as PutMetricDataCommand).input.MetricData!.map(datum => datum.Dimensions)).toEqual([
+                [{ Name: 'ModelId', Value: 'amazon.nova-lite-v1:0' }],
+                [{ Name: 'ModelId', Value: 'amazon.nova-lite-v1:0' }, { Name: 'Application', Value: 'chatbot' }],
+            ]);
+            expect(() => new MaxTokensPublisher({ mode: 'emf', dimensions: { ModelId: 'other' } })).toThrow(/cannot override ModelId/);
+        });
+
+        test.each(['put-metric-data', 'emf'] as const)('should publish the MaxTokens metrics the dashboard queries in %s mode', async mode => {
+            jest.spyOn(console, 'log').mockImplementation(() => undefined);
+            jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+            const app = new cdk.App();
+            const stack = new cdk.Stack(app, 'TestStack', { env: { account: '123456789012', region: 'us-east-1' } });
+            new BedrockQuotaDashboard(stack, 'QuotaDashboard', {
+                dashboardConfigs: [{ modelConfig: BEDROCK_MODELS.ANTHROPIC.CLAUDE_HAIKU_4_5, endpointType: 'cross-region', applicationProfileIds: ['grjihoh0los8'] }],
+                namespace: 'Team/Quotas',
+            });
+            const dashboards = Template.fromStack(stack).findResources('AWS::CloudWatch::Dashboard');
+            const body = JSON.stringify(Object.values(dashboards)[0].Properties.DashboardBody);
+
+            const metrics = await publishedMetrics({ mode, namespace: 'Team/Quotas' }, [
+                'us.anthropic.claude-haiku-4-5-20251001-v1:0',
+                'arn:aws:bedrock:us-east-1:123456789012:application-inference-profile/grjihoh0los8',
+            ]);
+
+            expect(metrics).toHaveLength(2);
+            // Dashboard metrics are written as ["<namespace>","<metric>","<dimension>","<value>",...] in the body
+            metrics.forEach(metric => expect(body).toContain(JSON.stringify(JSON.stringify(metric).slice(1, -1)).slice(1, -1)));
+        });
+    });
+});
@@ -0,0 +1,87 @@
+import { readFileSync } from 'fs';
+import * as path from 'path';
+import type { ServiceQuota } from '@aws-sdk/client-service-quotas';
+import { buildQuotaRows, filterQuotaRows, formatQuotaRows } from '../scripts/lib/quota-report';
+
+// Recorded ListServiceQuotas response (us-east-1 subset)
+const applied: ServiceQuota[] = JSON.parse(
+    readFileSync(path.join(__dirname, 'fixtures', 'registry-generator', 'service-quotas.json'), 'utf8')
+).Quotas;
+
+// Defaults are the applied values, except for an increased Nova Micro token quota, plus a quota not yet listed as applied
+const defaults: ServiceQuota[] = [
+    ...applied.map(quota => quota.QuotaCode === 'L-CFA4FA0D' ? { ...quota, Value: 2000000 } : quota),
+    {
+        ServiceCode: 'bedrock',
+        QuotaCode: 'L-0DEFA017',
+        QuotaName: 'Batch inference job size (in GB), "per job"',
+        Value: 1,
+        Unit: 'None',
+        Adjustable: false,
+        GlobalQuota: false,
+    },
+];
+
+describe('Quota Report', () => {
+    const rows = buildQuotaRows(applied, defaults);
+
+    test('should join applied and default values by quota code', () => {
+        expect(rows).toHaveLength(applied.length + 1);
+        expect(rows.find(row => row.quotaCode === 'L-CFA4FA0D')).toEqual({
+            quotaCode: 'L-CFA4FA0D',
+            quotaName: 'On-demand model inference tokens per minute for Amazon Nova Micro',
+            value: 4000000,
+            defaultValue: 2000000,
+            unit: 'None',
+            adjustable: true,
+            globalQuota: false,
+        });
+        expect(rows.find(row => row.quotaCode === 'L-0DEFA017')).toMatchObject({ value: undefined, defaultValue: 1, adjustable: false });
+    });
+
+    test('should filter by name regex and quota code', () => {
+        expect(filterQuotaRows(rows, { nameRegex: 'NOVA MICRO$' }).map(row => row.quotaCode).sort())
+            .toEqual(['L-3F110E0F', 'L-CFA4FA0D', 'L-DC7FF66C', 'L-E118F160']);
+        expect(filterQuotaRows(rows, { nameRegex: 'tokens per minute', quotaCodes: ['L-CFA4FA0D', 'L-E118F160'] }).map(row => row.quotaCode))
+            .toEqual(['L-CFA4FA0D']);
+        expect(filterQuotaRows(rows, { quotaCodes: [] })).toHaveLength(rows.length);
+    });
+
+    test('should reject invalid name regexes', () => {
+        expect(() => filterQuotaRows(rows, { nameRegex: 'Claude (' })).toThrow(/Invalid name regex 'Claude \('/);
+    });
+
+    test('should format rows as JSON', () => {
+        const selected = filterQuotaRows(rows, { quotaCodes: ['L-0DEFA017'] });
+
+        expect(JSON.parse(formatQuotaRows(selected, 'json'))).toEqual([{
+            quotaCode: 'L-0DEFA017',
+            quotaName: 'Batch inference job size (in GB), "per job"',
+            defaultValue: 1,
+            unit: 'None',
+            adjustable: false,
+            globalQuota: false,
+        }]);
+    });
+
+    test('should format rows as CSV with quoted fields', () => {
+        const selected = filterQuotaRows(rows, { quotaCodes: ['L-0DEFA017', 'L-CFA4FA0D'] });
+
+        expect(formatQuotaRows(selected, 'csv')).toBe([
+            'Code,Value,Default,Unit,Adjustable,Global,Name',
+            'L-0DEFA017,,1,None,false,false,"Batch inference job size (in GB), ""per job"""',
+            'L-CFA4FA0D,4000000,2000000,None,true,false,On-demand model inference tokens per minute for Amazon Nova Micro',
+            '',
+        ].join('\n'));
+    });
+
+    test('should format rows as an aligned table', () => {
+        const selected = filterQuotaRows(rows, { quotaCodes: ['L-0DEFA017', 'L-CFA4FA0D'] });
+        const lines = formatQuotaRows(selected, 'table').trimEnd().split('\n');
+
+        expect(lines).toHaveLength(4);
+        expect(lines[0]).toMatch(/^Code {8}Value {4}Default {2}Unit {2}Adjustable {2}Global {2}Name$/);
+        expect(lines[2]).toMatch(/^L-0DEFA017 {2}N\/A {6}1 {8}None {2}false/);
+        expect(lines[3].indexOf('On-demand')).toBe(lines[0].indexOf('Name'));
+    });
+});
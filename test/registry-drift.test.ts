@@ -0,0 +1,172 @@
+import { readFileSync } from 'fs';
+import * as path from 'path';
+import type { ModelRegistry } from '../lib/bedrock-registries';
+import { detectRegistryDrift, type RegistryDriftInput } from '../scripts/lib/registry-drift';
+
+// Recorded ListServiceQuotas, ListFoundationModels and ListInferenceProfiles responses (us-east-1 subset)
+function loadFixture(name: string): any {
+    return JSON.parse(readFileSync(path.join(__dirname, 'fixtures', 'registry-generator', name), 'utf8'));
+}
+
+const apiData = {
+    region: 'us-east-1',
+    quotas: loadFixture('service-quotas.json').Quotas,
+    foundationModels: loadFixture('foundation-models.json').modelSummaries,
+    inferenceProfiles: loadFixture('inference-profiles.json').inferenceProfileSummaries,
+};
+
+// A registry that matches the fixtures exactly
+const currentRegistry: ModelRegistry = {
+    AMAZON: {
+        NOVA_MICRO_V1: {
+            modelId: 'amazon.nova-micro-v1:0',
+            outputTokenBurndownRate: 1,
+            supportedEndpoints: ['regional', 'cross-region'],
+            regional: { tokenQuotaCode: 'L-CFA4FA0D', requestQuotaCode: 'L-E118F160' },
+            crossRegion: { tokenQuotaCode: 'L-DC7FF66C', requestQuotaCode: 'L-3F110E0F' },
+        },
+    },
+    ANTHROPIC: {
+        CLAUDE_SONNET_4_5: {
+            modelId: 'anthropic.claude-sonnet-4-5-20250929-v1:0',
+            outputTokenBurndownRate: 5,
+            supportedEndpoints: ['cross-region', 'global-cross-region'],
+            crossRegion: { tokenQuotaCode: 'L-F4DDD3EB', requestQuotaCode: 'L-4A6BFAB1' },
+            globalCrossRegion: { tokenQuotaCode: 'L-27C57EE8', requestQuotaCode: 'L-DB84CE56' },
+        },
+        CLAUDE_SONNET_4_6: {
+            modelId: 'anthropic.claude-sonnet-4-6',
+            outputTokenBurndownRate: 5,
+            supportedEndpoints: ['cross-region', 'global-cross-region'],
+            crossRegion: { tokenQuotaCode: 'L-15B8E632', requestQuotaCode: 'L-00FF3314' },
+            globalCrossRegion: { tokenQuotaCode: 'L-7BEE40FB', requestQuotaCode: 'L-F6E116D7' },
+        },
+        CLAUDE_SONNET_4_6_1M: {
+            modelId: 'anthropic.claude-sonnet-4-6',
+            outputTokenBurndownRate: 5,
+            supportedEndpoints: ['cross-region', 'global-cross-region'],
+            crossRegion: { tokenQuotaCode: 'L-CE512C9A', requestQuotaCode: 'L-47DE5258' },
+            globalCrossRegion: { tokenQuotaCode: 'L-6955C77B', requestQuotaCode: 'L-B117CDDA' },
+        },
+    },
+    WRITER: {
+        PALMYRA_X5: {
+            modelId: 'writer.palmyra-x5-v1:0',
+            outputTokenBurndownRate: 1,
+            supportedEndpoints: ['cross-region'],
+            crossRegion: { tokenQuotaCode: 'L-9E1C52B0', requestQuotaCode: 'L-2B7F0D4E' },
+        },
+    },
+};
+
+function checkDrift(registry: ModelRegistry): ReturnType<typeof detectRegistryDrift> {
+    const input: RegistryDriftInput = { ...apiData, registry };
+    return detectRegistryDrift(input);
+}
+
+describe('Registry Drift Detection', () => {
+    test('should report no drift for a current registry', () => {
+        const report = checkDrift(currentRegistry);
+
+        expect(report.hasDrift).toBe(false);
+        expect(report.summary).toEqual({ registeredModels: 5, checkedQuotaCodes: 18, issues: 0, unregisteredModels: 0 });
+    });
+
+    test('should report quota codes that no longer exist', () => {
+        const report = checkDrift({
+            AMAZON: {
+                NOVA_MICRO_V1: { ...currentRegistry.AMAZON.NOVA_MICRO_V1, regional: { tokenQuotaCode: 'L-00000000', requestQuotaCode: 'L-E118F160' } },
+            },
+        });
+
+        expect(report.issues).toEqual([expect.objectContaining({
+            type: 'missing-quota',
+            provider: 'AMAZON',
+            modelKey: 'NOVA_MICRO_V1',
+            endpointType: 'regional',
+            quotaCode: 'L-00000000',
+        })]);
+    });
+
+    test('should report quota codes registered for the wrong model, endpoint type or kind', () => {
+        const report = checkDrift({
+            ANTHROPIC: {
+                CLAUDE_SONNET_4_5: {
+                    ...currentRegistry.ANTHROPIC.CLAUDE_SONNET_4_5,
+                    // Sonnet 4.6 codes, and the global quota codes swapped
+                    crossRegion: { tokenQuotaCode: 'L-15B8E632', requestQuotaCode: 'L-4A6BFAB1' },
+                    globalCrossRegion: { tokenQuotaCode: 'L-DB84CE56', requestQuotaCode: 'L-F4DDD3EB' },
+                },
+            },
+        });
+
+        const issues = report.issues.map(issue => [issue.type, issue.quotaCode]);
+        expect(issues).toEqual([
+            ['model-mismatch', 'L-15B8E632'],
+            ['kind-mismatch', 'L-DB84CE56'],
+            ['endpoint-mismatch', 'L-F4DDD3EB'],
+            ['kind-mismatch', 'L-F4DDD3EB'],
+        ]);
+        expect(report.issues[0].quotaName).toBe('Cross-region model inference tokens per minute for Anthropic Claude Sonnet 4.6');
+        expect(report.hasDrift).toBe(true);
+    });
+
+    test('should report unregistered models and endpoint types', () => {
+        const { WRITER, ...withoutWriter } = currentRegistry;
+        const { crossRegion, ...regionalOnly } = currentRegistry.AMAZON.NOVA_MICRO_V1;
+        const report = checkDrift({
+            ...withoutWriter,
+            AMAZON: {
+                NOVA_MICRO_V1: { ...regionalOnly, supportedEndpoints: ['regional'] },
+            },
+        });
+
+        expect(report.issues).toHaveLength(0);
+        expect(report.unregisteredModels).toEqual([
+            { provider: 'AMAZON', modelKey: 'NOVA_MICRO_V1', modelId: 'amazon.nova-micro-v1:0', endpointTypes: ['cross-region'], registered: true },
+            { provider: 'WRITER', modelKey: 'PALMYRA_X5', modelId: 'writer.palmyra-x5-v1:0', endpointTypes: ['cross-region'], registered: false },
+        ]);
+        expect(report.hasDrift).toBe(true);
+    });
+
+    test('should report quota codes registered for the wrong variant', () => {
+        const { CLAUDE_SONNET_4_6: base, CLAUDE_SONNET_4_6_1M: longContext } = currentRegistry.ANTHROPIC;
+        const report = checkDrift({
+            ANTHROPIC: {
+                CLAUDE_SONNET_4_6: { ...base, crossRegion: longContext.crossRegion },
+                CLAUDE_SONNET_4_6_1M: { ...longContext, crossRegion: base.crossRegion },
+            },
+        });
+
+        expect(report.issues.map(issue => [issue.type, issue.modelKey, issue.quotaCode])).toEqual([
+            ['model-mismatch', 'CLAUDE_SONNET_4_6', 'L-CE512C9A'],
+            ['model-mismatch', 'CLAUDE_SONNET_4_6', 'L-47DE5258'],
+            ['model-mismatch', 'CLAUDE_SONNET_4_6_1M', 'L-15B8E632'],
+            ['model-mismatch', 'CLAUDE_SONNET_4_6_1M', 'L-00FF3314'],
+        ]);
+        expect(report.issues[0].message).toBe('L-CE512C9A is for anthropic.claude-sonnet-4-6 (1M variant), registered for anthropic.claude-sonnet-4-6');
+        expect(report.issues[2].message).toBe('L-15B8E632 is for anthropic.claude-sonnet-4-6, registered for anthropic.claude-sonnet-4-6 (1M variant)');
+    });
+
+    test('should report unregistered variants of registered models', () => {
+        const { CLAUDE_SONNET_4_6_1M, ...withoutLongContext } = currentRegistry.ANTHROPIC;
+        const report = checkDrift({ ...currentRegistry, ANTHROPIC: withoutLongContext });
+
+        expect(report.issues).toHaveLength(0);
+        expect(report.unregisteredModels).toEqual([
+            {
+                provider: 'ANTHROPIC',
+                modelKey: 'CLAUDE_SONNET_4_6_1M',
+                modelId: 'anthropic.claude-sonnet-4-6',
+                endpointTypes: ['cross-region', 'global-cross-region'],
+                registered: false,
+            },
+        ]);
+    });
+
+    test('should produce a JSON-serializable report', () => {
+        const report = checkDrift(currentRegistry);
+
+        expect(JSON.parse(JSON.stringify(report))).toEqual(report);
+    });
+});
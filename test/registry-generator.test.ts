@@ -0,0 +1,187 @@
+import { readFileSync } from 'fs';
+import * as path from 'path';
+import * as ts from 'typescript';
+import { getQuotaCodes, getRegistry } from '../lib/bedrock-registries';
+import { buildRegistry, matchQuotaModel, parseQuotaName, registryKeyVariant, renderRegistryFile, toRegistryKey, type RegistryGeneratorInput } from '../scripts/lib/registry-generator';
+
+// Recorded ListServiceQuotas, ListFoundationModels and ListInferenceProfiles responses (us-east-1 subset)
+function loadFixture(name: string): any {
+    return JSON.parse(readFileSync(path.join(__dirname, 'fixtures', 'registry-generator', name), 'utf8'));
+}
+
+const input: RegistryGeneratorInput = {
+    region: 'us-east-1',
+    quotas: loadFixture('service-quotas.json').Quotas,
+    foundationModels: loadFixture('foundation-models.json').modelSummaries,
+    inferenceProfiles: loadFixture('inference-profiles.json').inferenceProfileSummaries,
+};
+
+describe('Registry Generator', () => {
+    describe('parseQuotaName', () => {
+        test('should parse per-minute inference quotas for each endpoint type', () => {
+            expect(parseQuotaName('On-demand model inference tokens per minute for Amazon Nova Micro'))
+                .toEqual({ endpointType: 'regional', kind: 'token', modelName: 'Amazon Nova Micro' });
+            expect(parseQuotaName('Cross-region model inference requests per minute for Anthropic Claude Sonnet 4.5 V1'))
+                .toEqual({ endpointType: 'cross-region', kind: 'request', modelName: 'Anthropic Claude Sonnet 4.5 V1' });
+            expect(parseQuotaName('Global cross-region model inference tokens per minute for Anthropic Claude Sonnet 4.6'))
+                .toEqual({ endpointType: 'global-cross-region', kind: 'token', modelName: 'Anthropic Claude Sonnet 4.6' });
+        });
+
+        test('should ignore other Bedrock quotas', () => {
+            expect(parseQuotaName('Model invocation max tokens per day for Anthropic Claude Sonnet 4.5 V1 (doubled for cross-region calls)')).toBeNull();
+            expect(parseQuotaName('Number of concurrent model customization jobs')).toBeNull();
+        });
+    });
+
+    describe('matchQuotaModel', () => {
+        test('should match provider and model name, ignoring version suffixes', () => {
+            expect(matchQuotaModel('Anthropic Claude Sonnet 4.5 V1', input.foundationModels)?.model.modelId)
+                .toBe('anthropic.claude-sonnet-4-5-20250929-v1:0');
+        });
+
+        test('should skip provisioned-only model variants', () => {
+            expect(matchQuotaModel('Amazon Nova Micro', input.foundationModels)?.model.modelId).toBe('amazon.nova-micro-v1:0');
+        });
+
+        test('should detect context length variants', () => {
+            const match = matchQuotaModel('Anthropic Claude Sonnet 4.6 1M Context Length', input.foundationModels);
+            expect(match?.model.modelId).toBe('anthropic.claude-sonnet-4-6');
+            expect(match?.variant).toBe('1M');
+        });
+
+        test('should return null for unknown models', () => {
+            expect(matchQuotaModel('Acme Unreleased Model', input.foundationModels)).toBeNull();
+        });
+    });
+
+    describe('buildRegistry', () => {
+        test('should combine quota codes with endpoint availability', () => {
+            const { models } = buildRegistry(input);
+            const sonnet = models.find(model => model.modelKey === 'CLAUDE_SONNET_4_5');
+
+            // The on-demand quota exists, but the model can only be used through inference profiles
+            expect(sonnet?.supportedEndpoints).toEqual(['cross-region', 'global-cross-region']);
+            expect(sonnet?.quotas['cross-region']).toEqual({ tokenQuotaCode: 'L-F4DDD3EB', requestQuotaCode: 'L-4A6BFAB1' });
+        });
+
+        test('should require the cross-region prefix of a region without a registry', () => {
+            expect(() => buildRegistry({ ...input, region: 'ca-central-1' })).toThrow(/No cross-region inference profile prefix known for region 'ca-central-1'/);
+
+            const { models } = buildRegistry({ ...input, region: 'ca-central-1', crossRegionPrefix: 'ca' });
+            const sonnet = models.find(model => model.modelKey === 'CLAUDE_SONNET_4_5');
+            // The recorded profiles are us. and global. ones, so only the global endpoint is available
+            expect(sonnet?.supportedEndpoints).toEqual(['global-cross-region']);
+        });
+
+        test('should keep model keys, burndown rates, cache read counting and default max output tokens from the existing registry', () => {
+            const { models } = buildRegistry({ ...input, existing: getRegistry('us-east-1') });
+            const existing = getRegistry('us-east-1');
+
+            ['AMAZON.NOVA_MICRO_V1', 'ANTHROPIC.CLAUDE_SONNET_4_5', 'ANTHROPIC.CLAUDE_SONNET_4_6', 'ANTHROPIC.CLAUDE_SONNET_4_6_1M'].forEach(id => {
+                const [provider, modelKey] = id.split('.');
+                const model = models.find(m => m.provider === provider && m.modelKey === modelKey);
+                const registryModel = existing[provider][modelKey];
+
+                expect(model).toBeDefined();
+                expect(model!.isNew).toBe(false);
+                expect(model!.outputTokenBurndownRate).toBe(registryModel.outputTokenBurndownRate);
+                expect(model!.cacheReadsCountTowardQuota).toBe(registryModel.cacheReadsCountTowardQuota);
+                expect(model!.defaultMaxOutputTokens).toBe(registryModel.defaultMaxOutputTokens);
+                expect(model!.supportedEndpoints).toEqual(registryModel.supportedEndpoints);
+                expect(model!.quotas['cross-region']).toEqual(getQuotaCodes(registryModel, 'cross-region'));
+            });
+        });
+
+        test('should add new models with derived keys and a default burndown rate', () => {
+            const { models } = buildRegistry({ ...input, existing: getRegistry('us-east-1') });
+            const palmyra = models.find(model => model.modelId === 'writer.palmyra-x5-v1:0');
+
+            expect(palmyra).toMatchObject({ provider: 'WRITER', modelKey: 'PALMYRA_X5', outputTokenBurndownRate: 1, isNew: true });
+            expect(palmyra?.supportedEndpoints).toEqual(['cross-region']);
+        });
+
+        test('should report quotas that match no foundation model', () => {
+            const { unmatchedQuotas } = buildRegistry(input);
+
+            expect(unmatchedQuotas).toEqual(['Cross-region model inference tokens per minute for Acme Unreleased Model']);
+        });
+
+        test('should order models like the existing registry', () => {
+            const { models } = buildRegistry({ ...input, existing: getRegistry('us-east-1') });
+
+            expect(models.map(model => `${model.provider}.${model.modelKey}`)).toEqual([
+                'AMAZON.NOVA_MICRO_V1',
+                'ANTHROPIC.CLAUDE_SONNET_4_5',
+                'ANTHROPIC.CLAUDE_SONNET_4_6',
+                'ANTHROPIC.CLAUDE_SONNET_4_6_1M',
+                'WRITER.PALMYRA_X5',
+            ]);
+        });
+    });
+
+    describe('renderRegistryFile', () => {
+        test('should render a valid registry module', () => {
+            const { models } = buildRegistry({ ...input, existing: getRegistry('us-east-1') });
+            const source = renderRegistryFile('us-east-1', models);
+
+            const { diagnostics } = ts.transpileModule(source, { reportDiagnostics: true });
+            expect(diagnostics).toHaveLength(0);
+            expect(source).toContain('// BEDROCK MODELS REGISTRY FOR US-EAST-1');
+            expect(source).toContain([
+                '    NOVA_MICRO_V1: createModelConfig({',
+                "      modelId: 'amazon.nova-micro-v1:0',",
+                '      outputTokenBurndownRate: 1,',
+                '      cacheReadsCountTowardQuota: true,',
+                "      supportedEndpoints: ['regional', 'cross-region'],",
+                "      regional: { tokenQuotaCode: 'L-CFA4FA0D', requestQuotaCode: 'L-E118F160' },",
+                "      crossRegion: { tokenQuotaCode: 'L-DC7FF66C', requestQuotaCode: 'L-3F110E0F' }",
+                '    }),',
+            ].join('\n'));
+        });
+
+        test('should flag new models for burndown rate review', () => {
+            const { models } = buildRegistry({ ...input, existing: getRegistry('us-east-1') });
+            const source = renderRegistryFile('us-east-1', models);
+
+            expect(source).toMatch(/\/\/ New model: check outputTokenBurndownRate.*\n {4}PALMYRA_X5: createModelConfig/);
+            expect(source.match(/New model:/g)).toHaveLength(1);
+        });
+
+        test('should only render default max output tokens that are known', () => {
+            const { models } = buildRegistry({ ...input, existing: getRegistry('us-east-1') });
+            const source = renderRegistryFile('us-east-1', models);
+
+            expect(source).toContain([
+                "      modelId: 'anthropic.claude-sonnet-4-5-20250929-v1:0',",
+                '      outputTokenBurndownRate: 5,',
+                '      defaultMaxOutputTokens: 64000,',
+            ].join('\n'));
+            expect(source.match(/defaultMaxOutputTokens/g)).toHaveLength(3);
+        });
+
+        test('should render the display name of each provider', () => {
+            const { models } = buildRegistry({ ...input, existing: getRegistry('us-east-1') });
+            const source = renderRegistryFile('us-east-1', models);
+
+            expect(source).toContain([
+                'export const PROVIDER_NAMES: ProviderNames = {',
+                "  AMAZON: 'Amazon',",
+                "  ANTHROPIC: 'Anthropic',",
+                "  WRITER: 'Writer',",
+                '};',
+            ].join('\n'));
+        });
+    });
+
+    test('should derive registry keys from names', () => {
+        expect(toRegistryKey('Claude Sonnet 4.5')).toBe('CLAUDE_SONNET_4_5');
+        expect(toRegistryKey('Llama 3.1 8B Instruct')).toBe('LLAMA_3_1_8B_INSTRUCT');
+        expect(toRegistryKey('Mistral AI')).toBe('MISTRAL_AI');
+    });
+
+    test('should read context length variants from registry keys', () => {
+        expect(registryKeyVariant('CLAUDE_SONNET_4_6_1M')).toBe('1M');
+        expect(registryKeyVariant('CLAUDE_SONNET_4_6')).toBeUndefined();
+        expect(registryKeyVariant('LLAMA_3_1_8B_INSTRUCT')).toBeUndefined();
+    });
+});
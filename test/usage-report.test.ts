@@ -0,0 +1,200 @@
+import * as cdk from 'aws-cdk-lib';
+import * as cloudwatch from 'aws-cdk-lib/aws-cloudwatch';
+import { CloudWatchClient, GetMetricDataCommand, type MetricDataQuery } from '@aws-sdk/client-cloudwatch';
+import { BEDROCK_MODELS } from '../lib/bedrock-registries';
+import { BedrockQuotaDashboard, type BedrockQuotaDashboardProps, type ModelUtilization } from '../lib/bedrock-quota-dashboard';
+import { buildUsageReport, formatUsageReport, summarizeUtilization, toMetricDataQueries } from '../scripts/lib/usage-report';
+
+function dashboardUtilization(props: BedrockQuotaDashboardProps): ModelUtilization[] {
+    const app = new cdk.App();
+    const stack = new cdk.Stack(app, 'TestStack', { env: { account: '123456789012', region: 'us-east-1' } });
+    return new BedrockQuotaDashboard(stack, 'QuotaDashboard', props).utilization;
+}
+
+// Answers GetMetricData with the given values per query ID, split over two pages
+function mockCloudWatchClient(valuesById: { [id: string]: number[] }) {
+    const send = jest.fn().mockImplementation(async (command: GetMetricDataCommand) => {
+        const page = command.input.NextToken ? 1 : 0;
+        return {
+            MetricDataResults: command.input.MetricDataQueries!
+                .filter(query => query.ReturnData)
+                .map(query => {
+                    const values = valuesById[query.Id!] ?? [];
+                    const half = Math.ceil(values.length / 2);
+                    return { Id: query.Id, StatusCode: page === 0 ? 'PartialData' : 'Complete', Values: page === 0 ? values.slice(0, half) : values.slice(half) };
+                }),
+            NextToken: page === 0 ? 'page-2' : undefined,
+        };
+    });
+    return { client: { send } as unknown as CloudWatchClient, send };
+}
+
+describe('Usage Report', () => {
+    const startTime = new Date('2026-10-12T00:00:00Z');
+    const endTime = new Date('2026-10-19T00:00:00Z');
+
+    beforeAll(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    });
+
+    afterAll(() => {
+        jest.restoreAllMocks();
+    });
+
+    test('should expose the utilization expressions of every model', () => {
+        const utilization = dashboardUtilization({
+            dashboardConfigs: [
+                { modelConfig: BEDROCK_MODELS.ANTHROPIC.CLAUDE_SONNET_4_5, endpointType: 'global-cross-region', group: 'team-a' },
+                { modelConfig: BEDROCK_MODELS.AMAZON.NOVA_PREMIER_V1, endpointType: 'cross-region' },
+            ],
+        });
+
+        // Shown grouped by provider, so Amazon comes first
+        expect(utilization.map(({ region, modelId, group }) => ({ region, modelId, group }))).toEqual([
+            { region: 'us-east-1', modelId: 'us.amazon.nova-premier-v1:0', group: undefined },
+            { region: 'us-east-1', modelId: 'global.anthropic.claude-sonnet-4-5-20250929-v1:0', group: 'team-a' },
+        ]);
+        expect(utilization[0].reservation.expression).toBe('100 * reservation / tokenQuotaLimit');
+        expect(utilization[0].consumption.expression).toBe('100 * consumption / tokenQuotaLimit');
+        expect(utilization[0].requests.expression).toBe('100 * requests / requestQuotaLimit');
+    });
+
+    test('should flatten the dashboard expressions into GetMetricData queries', () => {
+        const [model] = dashboardUtilization({
+            dashboardConfigs: [{
+                modelConfig: BEDROCK_MODELS.ANTHROPIC.CLAUDE_SONNET_4_5,
+                endpointType: 'global-cross-region',
+                applicationProfileIds: ['grjihoh0los8'],
+            }],
+        });
+        const queries = toMetricDataQueries({ reservationPercent: model.reservation, consumptionPercent: model.consumption });
+        const byId = new Map(queries.map(query => [query.Id, query]));
+
+        expect(queries.filter(query => query.ReturnData).map(query => query.Id)).toEqual(['reservationPercent', 'consumptionPercent']);
+        expect(new Set(byId.keys()).size).toBe(queries.length);
+        expect(byId.get('reservationPercent')).toEqual({ Id: 'reservationPercent', Expression: '100 * reservation / tokenQuotaLimit', ReturnData: true });
+        expect(byId.get('consumption')?.Expression).toBe('(inputTokens + inputTokens_1) + (cacheWriteTokens + cacheWriteTokens_1) + ((outputTokens + outputTokens_1) * 5)');
+        expect(byId.get('tokenQuotaLimit')?.Expression).toBe('FILL(tokenQuota, REPEAT)');
+        expect(byId.get('inputTokens_1')).toEqual<MetricDataQuery>({
+            Id: 'inputTokens_1',
+            MetricStat: {
+                Metric: { Namespace: 'AWS/Bedrock', MetricName: 'InputTokenCount', Dimensions: [{ Name: 'ModelId', Value: 'grjihoh0los8' }] },
+                Period: 60,
+                Stat: 'Sum',
+                Unit: undefined,
+            },
+            ReturnData: false,
+        });
+        expect(byId.get('tokenQuota')?.MetricStat).toMatchObject({
+            Metric: { Namespace: 'Bedrock/Quotas', MetricName: 'TokenQuota' },
+            Stat: 'Maximum',
+        });
+    });
+
+    test('should reject an ID used for two different metrics', () => {
+        const metric = (metricName: string) => new cloudwatch.Metric({ namespace: 'AWS/Bedrock', metricName, dimensionsMap: { ModelId: 'model' } });
+        const first = new cloudwatch.MathExpression({ expression: 'm1 * 2', usingMetrics: { m1: metric('InputTokenCount') } });
+        const second = new cloudwatch.MathExpression({ expression: 'm1 * 3', usingMetrics: { m1: metric('OutputTokenCount') } });
+
+        expect(() => toMetricDataQueries({ first, second })).toThrow("The ID 'm1' is used for two different metrics");
+    });
+
+    test('should summarize peak and nearest-rank p95 utilization', () => {
+        const values = Array.from({ length: 100 }, (_, index) => index + 1).reverse();
+
+        expect(summarizeUtilization(values)).toEqual({ peak: 100, p95: 95, datapoints: 100 });
+        expect(summarizeUtilization([42])).toEqual({ peak: 42, p95: 42, datapoints: 1 });
+        expect(summarizeUtilization([])).toEqual({ datapoints: 0 });
+    });
+
+    test('should report each model from every GetMetricData page in its region', async () => {
+        const utilization = dashboardUtilization({
+            dashboardConfigs: [{ modelConfig: BEDROCK_MODELS.ANTHROPIC.CLAUDE_SONNET_4_5, endpointType: 'global-cross-region' }],
+        });
+        const { client, send } = mockCloudWatchClient({
+            reservationPercent: [20, 95.04, 40, 60],
+            consumptionPercent: [10, 30],
+        });
+        const getClient = jest.fn().mockReturnValue(client);
+
+        const report = await buildUsageReport(utilization, getClient, startTime, endTime);
+
+        expect(getClient).toHaveBeenCalledWith('us-east-1');
+        expect(send).toHaveBeenCalledTimes(2);
+        expect(send.mock.calls[0][0].input).toMatchObject({ StartTime: startTime, EndTime: endTime, NextToken: undefined });
+        expect(send.mock.calls[1][0].input).toMatchObject({ NextToken: 'page-2' });
+        expect(report).toEqual({
+            startTime: '2026-10-12T00:00:00.000Z',
+            endTime: '2026-10-19T00:00:00.000Z',
+            models: [{
+                region: 'us-east-1',
+                modelId: 'global.anthropic.claude-sonnet-4-5-20250929-v1:0',
+                group: undefined,
+                reservation: { peak: 95.04, p95: 95.04, datapoints: 4 },
+                consumption: { peak: 30, p95: 30, datapoints: 2 },
+                requests: { datapoints: 0 },
+            }],
+        });
+    });
+
+    test('should fail on results CloudWatch cannot return', async () => {
+        const [model] = dashboardUtilization({
+            dashboardConfigs: [{ modelConfig: BEDROCK_MODELS.AMAZON.NOVA_PREMIER_V1, endpointType: 'cross-region' }],
+        });
+        const send = jest.fn().mockResolvedValue({
+            MetricDataResults: [{ Id: 'reservationPercent', StatusCode: 'Forbidden', Messages: [{ Code: 'Forbidden', Value: 'Access denied' }] }],
+        });
+
+        await expect(buildUsageReport([model], () => ({ send }) as unknown as CloudWatchClient, startTime, endTime))
+            .rejects.toThrow('GetMetricData returned Forbidden for us.amazon.nova-premier-v1:0: Access denied');
+    });
+
+    describe('formats', () => {
+        const report = {
+            startTime: '2026-10-12T00:00:00.000Z',
+            endTime: '2026-10-19T00:00:00.000Z',
+            models: [
+                {
+                    region: 'us-east-1',
+                    modelId: 'global.anthropic.claude-sonnet-4-5-20250929-v1:0',
+                    group: 'team-a',
+                    reservation: { peak: 95.04, p95: 71.25, datapoints: 10080 },
+                    consumption: { peak: 40, p95: 22.5, datapoints: 10080 },
+                    requests: { peak: 12.3, p95: 4, datapoints: 10080 },
+                },
+                {
+                    region: 'us-east-1',
+                    modelId: 'us.amazon.nova-premier-v1:0',
+                    reservation: { datapoints: 0 },
+                    consumption: { datapoints: 0 },
+                    requests: { datapoints: 0 },
+                },
+            ],
+        };
+
+        test('should format a Markdown table', () => {
+            expect(formatUsageReport(report, 'markdown')).toBe([
+                '# Bedrock Quota Usage Report',
+                '',
+                '2026-10-12T00:00:00.000Z to 2026-10-19T00:00:00.000Z. Peak and p95 utilization over the minutes with traffic, in percent of each model\'s quota.',
+                '',
+                '| Model | Region | Group | Peak Reservation (%) | p95 Reservation (%) | Peak Consumption (%) | p95 Consumption (%) | Peak Invocations (%) | p95 Invocations (%) |',
+                '| --- | --- | --- | ---: | ---: | ---: | ---: | ---: | ---: |',
+                '| global.anthropic.claude-sonnet-4-5-20250929-v1:0 | us-east-1 | team-a | 95.0 | 71.3 | 40.0 | 22.5 | 12.3 | 4.0 |',
+                '| us.amazon.nova-premier-v1:0 | us-east-1 |  | N/A | N/A | N/A | N/A | N/A | N/A |',
+                '',
+            ].join('\n'));
+        });
+
+        test('should format CSV and JSON', () => {
+            expect(formatUsageReport(report, 'csv').split('\n')).toEqual([
+                'Model,Region,Group,Peak Reservation (%),p95 Reservation (%),Peak Consumption (%),p95 Consumption (%),Peak Invocations (%),p95 Invocations (%)',
+                'global.anthropic.claude-sonnet-4-5-20250929-v1:0,us-east-1,team-a,95.0,71.3,40.0,22.5,12.3,4.0',
+                'us.amazon.nova-premier-v1:0,us-east-1,,,,,,,',
+                '',
+            ]);
+            expect(JSON.parse(formatUsageReport(report, 'json'))).toEqual(report);
+        });
+    });
+});